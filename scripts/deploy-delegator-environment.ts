@@ -0,0 +1,164 @@
+/**
+ * Deploy the DeleGator contracts (DelegationManager, caveat enforcers,
+ * factory and implementations) to a chain MetaMask hasn't deployed to, such as
+ * a local devnet or Monad testnet, then smoke-test them with the app's own
+ * delegation code.
+ *
+ *   anvil --chain-id 10143 &
+ *   DEPLOYER_PRIVATE_KEY=0x... pnpm deploy:delegator
+ *   DEPLOYER_PRIVATE_KEY=0x... pnpm deploy:delegator --rpc https://testnet-rpc.monad.xyz --out delegator-10143.json
+ *
+ * Prints the NEXT_PUBLIC_DELEGATOR_ENVIRONMENTS entry to add to .env.local.
+ */
+import { writeFileSync } from 'fs'
+import { config } from 'dotenv'
+import {
+  createPublicClient,
+  createWalletClient,
+  defineChain,
+  getAddress,
+  http,
+  recoverTypedDataAddress,
+  type Chain,
+  type Hex,
+  type PublicClient,
+} from 'viem'
+import { privateKeyToAccount } from 'viem/accounts'
+
+config({ path: ['.env.local', '.env'] })
+
+const argument = (name: string) => {
+  const index = process.argv.indexOf(`--${name}`)
+  return index === -1 ? undefined : process.argv[index + 1]
+}
+
+async function main() {
+  // Import after dotenv so modules see the loaded environment
+  const {
+    createDelegation,
+    deployDeleGatorEnvironment,
+    getDelegationHashOffchain,
+    signDelegation,
+    toDelegationStruct,
+    DelegationManager,
+    SIGNABLE_DELEGATION_TYPED_DATA,
+  } = await import('@metamask/delegation-utils')
+  const { getChainClientFactory } = await import('../src/lib/chain-clients')
+  const { registerDelegatorEnvironment } = await import('../src/lib/delegator-environments')
+  const { DelegationService, DELEGATION_DOMAIN_NAME, DELEGATION_DOMAIN_VERSION } = await import('../src/lib/delegation-service')
+
+  const rpcUrl = argument('rpc') || process.env.DEVNET_RPC_URL || 'http://127.0.0.1:8545'
+  const privateKey = process.env.DEPLOYER_PRIVATE_KEY as Hex | undefined
+  if (!privateKey) {
+    throw new Error('DEPLOYER_PRIVATE_KEY is required (for anvil, use one of its funded dev keys)')
+  }
+
+  const account = privateKeyToAccount(privateKey)
+  const chainId = await createPublicClient({ transport: http(rpcUrl) }).getChainId()
+  const knownChain = getChainClientFactory().getChain(chainId)
+  const chain: Chain = defineChain({
+    id: chainId,
+    name: knownChain?.name || `Devnet ${chainId}`,
+    nativeCurrency: knownChain?.nativeCurrency || { name: 'Ether', symbol: 'ETH', decimals: 18 },
+    rpcUrls: { default: { http: [rpcUrl] } },
+  })
+  const publicClient: PublicClient = createPublicClient({ chain, transport: http(rpcUrl) })
+  const walletClient = createWalletClient({ account, chain, transport: http(rpcUrl) })
+
+  console.log(`🏗️ Deploying DeleGator environment to ${chain.name} (chain ${chainId}) from ${account.address}...`)
+  const environment = await deployDeleGatorEnvironment(walletClient, publicClient, chain)
+  console.log(`✅ DelegationManager deployed at ${environment.DelegationManager}`)
+
+  // 1. Every contract is on chain
+  const addresses = {
+    DelegationManager: environment.DelegationManager,
+    EntryPoint: environment.EntryPoint,
+    SimpleFactory: environment.SimpleFactory,
+    ...environment.implementations,
+    ...environment.caveatEnforcers,
+  }
+  for (const [name, address] of Object.entries(addresses)) {
+    const code = await publicClient.getCode({ address })
+    if (!code || code === '0x') {
+      throw new Error(`${name} has no code at ${address}`)
+    }
+  }
+  console.log(`✅ ${Object.keys(addresses).length} contracts have code`)
+
+  // 2. The DelegationManager signs under the domain the app uses
+  const [, name, version, domainChainId] = await publicClient.readContract({
+    address: environment.DelegationManager,
+    abi: DelegationManager.abi,
+    functionName: 'eip712Domain',
+  }) as readonly [Hex, string, string, bigint, Hex, Hex, readonly bigint[]]
+  if (name !== DELEGATION_DOMAIN_NAME || version !== DELEGATION_DOMAIN_VERSION || Number(domainChainId) !== chainId) {
+    throw new Error(`Unexpected DelegationManager domain: ${name} v${version} on chain ${domainChainId}`)
+  }
+
+  // 3. A delegation signed against the custom environment hashes and recovers like on chain
+  registerDelegatorEnvironment(chainId, environment)
+  const unsigned = createDelegation({ from: account.address, to: account.address, caveats: [] })
+  const signature = await signDelegation({
+    signer: walletClient,
+    delegation: unsigned,
+    delegationManager: environment.DelegationManager,
+    chainId,
+    name: DELEGATION_DOMAIN_NAME,
+    version: DELEGATION_DOMAIN_VERSION,
+  })
+  const delegation = { ...unsigned, signature }
+  const delegationId = getDelegationHashOffchain(delegation)
+
+  const onChainHash = await publicClient.readContract({
+    address: environment.DelegationManager,
+    abi: DelegationManager.abi,
+    functionName: 'getDelegationHash',
+    args: [toDelegationStruct(delegation)],
+  })
+  if (onChainHash !== delegationId) {
+    throw new Error(`Delegation hash mismatch: ${onChainHash} on chain, ${delegationId} off chain`)
+  }
+
+  const signer = await recoverTypedDataAddress({
+    domain: { chainId, name: DELEGATION_DOMAIN_NAME, version: DELEGATION_DOMAIN_VERSION, verifyingContract: environment.DelegationManager },
+    types: SIGNABLE_DELEGATION_TYPED_DATA,
+    primaryType: 'Delegation',
+    message: toDelegationStruct(delegation),
+    signature,
+  })
+  if (getAddress(signer) !== account.address) {
+    throw new Error(`Delegation signature recovered to ${signer}, expected ${account.address}`)
+  }
+  console.log(`✅ Delegation ${delegationId.slice(0, 10)}... signed and hashed consistently`)
+
+  // 4. Disabling the delegation shows up in the app's status check
+  const delegationService = new DelegationService()
+  if (!await delegationService.checkDelegationStatus(delegationId, chainId, publicClient)) {
+    throw new Error('Fresh delegation is reported as disabled')
+  }
+  const disableHash = await walletClient.writeContract({
+    address: environment.DelegationManager,
+    abi: DelegationManager.abi,
+    functionName: 'disableDelegation',
+    args: [toDelegationStruct(delegation)],
+  })
+  await publicClient.waitForTransactionReceipt({ hash: disableHash })
+  if (await delegationService.checkDelegationStatus(delegationId, chainId, publicClient)) {
+    throw new Error('Disabled delegation is still reported as active')
+  }
+  console.log('✅ Delegation disabled on chain and detected by the status check')
+
+  const entry = JSON.stringify({ [chainId]: environment })
+  const out = argument('out')
+  if (out) {
+    writeFileSync(out, JSON.stringify(environment, null, 2))
+    console.log(`💾 Environment written to ${out}`)
+  }
+  console.log('\nAdd to .env.local:\n')
+  console.log(`NEXT_PUBLIC_DELEGATOR_ENVIRONMENTS=${entry}`)
+}
+
+main().then(() => process.exit(0)).catch(error => {
+  console.error('❌ Deployment failed:', error)
+  process.exit(1)
+})
@@ -0,0 +1,49 @@
+/**
+ * Standalone automation executor.
+ *
+ *   pnpm executor          # tick every EXECUTOR_INTERVAL_MS (default 60s)
+ *   pnpm executor --once   # run a single tick and exit
+ *
+ * Shares storage with the Next.js server through AUTOPAY_STORAGE / AUTOPAY_STORAGE_PATH.
+ */
+import { config } from 'dotenv'
+
+config({ path: ['.env.local', '.env'] })
+
+const INTERVAL_MS = Number(process.env.EXECUTOR_INTERVAL_MS || 60 * 1000)
+
+async function main() {
+  // Import after dotenv so modules see the loaded environment
+  const { runExecutorTick } = await import('../src/lib/executor')
+
+  const runOnce = async () => {
+    try {
+      const result = await runExecutorTick()
+      console.log(`🏁 Tick finished: ${result.executed} executed, ${result.failed} failed, ${result.pending} pending, ${result.due} due`)
+    } catch (error) {
+      console.error('❌ Executor tick crashed:', error)
+    }
+  }
+
+  if (process.argv.includes('--once')) {
+    await runOnce()
+    return
+  }
+
+  console.log(`🚀 Executor started (interval ${INTERVAL_MS}ms)`)
+  await runOnce()
+  const timer = setInterval(runOnce, INTERVAL_MS)
+
+  const shutdown = () => {
+    console.log('👋 Executor shutting down')
+    clearInterval(timer)
+    process.exit(0)
+  }
+  process.on('SIGINT', shutdown)
+  process.on('SIGTERM', shutdown)
+}
+
+main().catch(error => {
+  console.error(error)
+  process.exit(1)
+})
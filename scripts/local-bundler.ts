@@ -0,0 +1,257 @@
+import {
+  custom,
+  decodeFunctionData,
+  encodeFunctionResult,
+  getAddress,
+  keccak256,
+  numberToHex,
+  parseAbi,
+  recoverMessageAddress,
+  toHex,
+  type BundlerRpcSchema,
+  type EIP1193Parameters,
+  type Hex,
+  type PublicRpcSchema,
+  type Transport,
+} from 'viem'
+import {
+  entryPoint07Address,
+  formatUserOperation,
+  formatUserOperationRequest,
+  getUserOperationHash,
+  type RpcUserOperation,
+  type UserOperation,
+} from 'viem/account-abstraction'
+
+/**
+ * In-process stand-in for an ERC-4337 bundler and its EntryPoint (v0.7), used
+ * to exercise the smart-account path without a chain. It answers the bundler
+ * RPC methods plus the few chain reads viem makes while preparing a
+ * UserOperation (and the executor's disabledDelegations check), enforces nonce order and owner signatures like the
+ * EntryPoint would, and "includes" accepted operations immediately (or when
+ * include() is called, to test operations still waiting in the mempool).
+ * Calls are recorded, not executed. Development tooling for
+ * scripts/smoke-user-operations.ts; it is not a substitute for a real bundler.
+ */
+export interface LocalBundlerOptions {
+  chainId: number
+  // Addresses treated as deployed smart accounts
+  accounts?: string[]
+  // Accepted UserOperation signers; any signature is accepted when empty
+  owners?: string[]
+  // Decide whether an operation's call succeeds (default: always)
+  execute?: (userOperation: UserOperation) => boolean
+  // Include operations as soon as they are sent (default); otherwise they wait for include()
+  autoInclude?: boolean
+}
+
+export interface LocalUserOperation {
+  hash: Hex
+  userOperation: UserOperation
+  transactionHash: Hex
+  // Unset while the operation waits in the mempool
+  blockNumber?: bigint
+  success: boolean
+}
+
+type LocalRpcRequest = EIP1193Parameters<[...PublicRpcSchema, ...BundlerRpcSchema]>
+
+const entryPointAbi = parseAbi(['function getNonce(address sender, uint192 key) view returns (uint256)'])
+// The executor checks this before redeeming; no delegation is ever disabled here
+const delegationManagerAbi = parseAbi(['function disabledDelegations(bytes32 delegationHash) view returns (bool)'])
+
+const GAS_ESTIMATE = {
+  preVerificationGas: numberToHex(50_000),
+  verificationGasLimit: numberToHex(150_000),
+  callGasLimit: numberToHex(300_000),
+  paymasterVerificationGasLimit: numberToHex(0),
+  paymasterPostOpGasLimit: numberToHex(0),
+}
+
+const GAS_PRICE = BigInt(1_000_000_000)
+const START_BLOCK = 1_000
+
+class LocalBundlerRpcError extends Error {
+  code: number
+
+  constructor(message: string, code: number = -32602) {
+    super(message)
+    this.name = 'LocalBundlerRpcError'
+    this.code = code
+  }
+}
+
+export function createLocalBundler({ chainId, accounts = [], owners = [], execute, autoInclude = true }: LocalBundlerOptions) {
+  const deployed = new Set(accounts.map(address => getAddress(address)))
+  const signers = owners.map(address => getAddress(address))
+  const nonces = new Map<string, bigint>()
+  const userOperations: LocalUserOperation[] = []
+  let blockNumber = BigInt(START_BLOCK)
+
+  const nonceKey = (sender: string, key: bigint) => `${getAddress(sender)}:${key}`
+  const sequenceOf = (sender: string, key: bigint) => nonces.get(nonceKey(sender, key)) ?? BigInt(0)
+
+  async function sendUserOperation(rpc: RpcUserOperation, entryPoint: Hex): Promise<Hex> {
+    if (getAddress(entryPoint) !== entryPoint07Address) {
+      throw new LocalBundlerRpcError(`Unsupported EntryPoint ${entryPoint}`)
+    }
+    const userOperation = formatUserOperation(rpc)
+    const sender = getAddress(userOperation.sender)
+    if (!deployed.has(sender) && !userOperation.factory) {
+      throw new LocalBundlerRpcError(`AA20 account not deployed: ${sender}`, -32500)
+    }
+
+    // Nonces are (key << 64) | sequence, and each key's sequence must advance by one
+    const key = userOperation.nonce >> BigInt(64)
+    const sequence = userOperation.nonce & ((BigInt(1) << BigInt(64)) - BigInt(1))
+    if (sequence !== sequenceOf(sender, key)) {
+      throw new LocalBundlerRpcError(`AA25 invalid account nonce: expected ${sequenceOf(sender, key)}, got ${sequence}`, -32500)
+    }
+
+    const hash = getUserOperationHash({
+      chainId,
+      entryPointAddress: entryPoint07Address,
+      entryPointVersion: '0.7',
+      userOperation,
+    })
+    if (!userOperation.signature || userOperation.signature === '0x') {
+      throw new LocalBundlerRpcError('AA24 signature error: missing signature', -32507)
+    }
+    if (signers.length) {
+      const signer = await recoverMessageAddress({ message: { raw: hash }, signature: userOperation.signature })
+        .catch(() => undefined)
+      if (!signer || !signers.includes(getAddress(signer))) {
+        throw new LocalBundlerRpcError('AA24 signature error', -32507)
+      }
+    }
+
+    nonces.set(nonceKey(sender, key), sequence + BigInt(1))
+    deployed.add(sender)
+    userOperations.push({
+      hash,
+      userOperation,
+      transactionHash: keccak256(hash),
+      success: execute ? execute(userOperation) : true,
+    })
+    if (autoInclude) include()
+    return hash
+  }
+
+  // Mine every operation still waiting, one block each
+  function include() {
+    for (const operation of userOperations.filter(op => op.blockNumber === undefined)) {
+      blockNumber += BigInt(1)
+      operation.blockNumber = blockNumber
+    }
+  }
+
+  function getUserOperationByHash(hash: Hex) {
+    const sent = userOperations.find(op => op.hash === hash)
+    if (!sent) return null
+    const included = sent.blockNumber !== undefined
+    return {
+      userOperation: formatUserOperationRequest(sent.userOperation),
+      entryPoint: entryPoint07Address,
+      transactionHash: included ? sent.transactionHash : null,
+      blockHash: included ? keccak256(toHex(sent.blockNumber as bigint)) : null,
+      blockNumber: included ? toHex(sent.blockNumber as bigint) : null,
+    }
+  }
+
+  function getReceipt(hash: Hex) {
+    const included = userOperations.find(op => op.hash === hash)
+    if (!included || included.blockNumber === undefined) return null
+    const { userOperation, transactionHash, success } = included
+    const gasUsed = BigInt(200_000)
+    const blockHash = keccak256(toHex(included.blockNumber))
+    return {
+      userOpHash: hash,
+      entryPoint: entryPoint07Address,
+      sender: userOperation.sender,
+      nonce: toHex(userOperation.nonce),
+      actualGasUsed: toHex(gasUsed),
+      actualGasCost: toHex(gasUsed * GAS_PRICE),
+      success,
+      reason: success ? undefined : 'execution reverted',
+      logs: [],
+      receipt: {
+        transactionHash,
+        transactionIndex: '0x0',
+        blockHash,
+        blockNumber: toHex(included.blockNumber),
+        from: userOperation.sender,
+        to: entryPoint07Address,
+        cumulativeGasUsed: toHex(gasUsed),
+        gasUsed: toHex(gasUsed),
+        effectiveGasPrice: toHex(GAS_PRICE),
+        contractAddress: null,
+        logs: [],
+        logsBloom: `0x${'0'.repeat(512)}`,
+        status: '0x1',
+        type: '0x2',
+      },
+    }
+  }
+
+  function call({ to, data }: { to?: Hex | null; data?: Hex }): Hex {
+    if (!to || !data) {
+      throw new LocalBundlerRpcError('eth_call needs a target and calldata', -32000)
+    }
+    if (getAddress(to) !== entryPoint07Address) {
+      try {
+        decodeFunctionData({ abi: delegationManagerAbi, data })
+      } catch {
+        throw new LocalBundlerRpcError(`eth_call to ${to} is not supported by the local bundler`, -32000)
+      }
+      return encodeFunctionResult({ abi: delegationManagerAbi, functionName: 'disabledDelegations', result: false })
+    }
+    const { args } = decodeFunctionData({ abi: entryPointAbi, data })
+    const [sender, key] = args
+    const nonce = (key << BigInt(64)) | sequenceOf(sender, key)
+    return encodeFunctionResult({ abi: entryPointAbi, functionName: 'getNonce', result: nonce })
+  }
+
+  async function request({ method, params }: LocalRpcRequest): Promise<unknown> {
+    switch (method) {
+      case 'eth_chainId':
+        return numberToHex(chainId)
+      case 'eth_supportedEntryPoints':
+        return [entryPoint07Address]
+      case 'eth_blockNumber':
+        return toHex(blockNumber)
+      case 'eth_getBlockByNumber':
+        return {
+          number: toHex(blockNumber),
+          hash: keccak256(toHex(blockNumber)),
+          timestamp: toHex(Math.floor(Date.now() / 1000)),
+          baseFeePerGas: toHex(GAS_PRICE),
+          transactions: [],
+        }
+      case 'eth_maxPriorityFeePerGas':
+        return toHex(GAS_PRICE)
+      case 'eth_gasPrice':
+        return toHex(GAS_PRICE)
+      case 'eth_getCode':
+        return deployed.has(getAddress(params[0])) ? '0x60806040' : '0x'
+      case 'eth_call':
+        return call(params[0])
+      case 'eth_estimateUserOperationGas':
+        return GAS_ESTIMATE
+      case 'eth_sendUserOperation':
+        return sendUserOperation(params[0], params[1])
+      case 'eth_getUserOperationByHash':
+        return getUserOperationByHash(params[0])
+      case 'eth_getUserOperationReceipt':
+        return getReceipt(params[0])
+      default:
+        throw new LocalBundlerRpcError(`Method ${method} is not supported by the local bundler`, -32601)
+    }
+  }
+
+  return {
+    // Serves both bundler and chain RPC, so use it for the public client too
+    transport: custom({ request }, { retryCount: 0 }) as Transport,
+    userOperations,
+    include,
+  }
+}
@@ -0,0 +1,182 @@
+/**
+ * Smoke test for redemptions sent as ERC-4337 UserOperations, run against the
+ * local bundler stand-in (scripts/local-bundler.ts) with in-memory storage,
+ * so it needs no chain, bundler or network:
+ *
+ *   pnpm smoke:userops
+ *
+ * Covers sending through DelegationService({ bundlerTransport }), waiting for
+ * the receipt, reverted operations, and the executor keeping a sent operation
+ * pending (never sending it again) until the bundler includes it.
+ */
+import assert from 'node:assert/strict'
+import { getAddress, type Hex } from 'viem'
+import { generatePrivateKey, privateKeyToAccount } from 'viem/accounts'
+import { sepolia } from 'viem/chains'
+import { createLocalBundler } from './local-bundler'
+
+const CHAIN_ID = sepolia.id
+const DAY_MS = 24 * 60 * 60 * 1000
+
+// Set before the app modules load so they read it
+const executorKey = generatePrivateKey()
+const executorSmartAccount = privateKeyToAccount(generatePrivateKey()).address
+process.env.AUTOPAY_STORAGE = 'memory'
+process.env.EXECUTOR_PRIVATE_KEY = executorKey
+process.env.NEXT_PUBLIC_EXECUTOR_SMART_ACCOUNT = executorSmartAccount
+
+async function main() {
+  const { ChainClientFactory } = await import('../src/lib/chain-clients')
+  const { DelegationService } = await import('../src/lib/delegation-service')
+  const { AutomationExecutor } = await import('../src/lib/executor')
+  const { automationStorage } = await import('../src/lib/automation')
+  const { getDelegatorEnvironment } = await import('../src/lib/delegator-environments')
+
+  const owner = privateKeyToAccount(executorKey)
+  const delegator = privateKeyToAccount(generatePrivateKey()).address
+  const recipient = privateKeyToAccount(generatePrivateKey()).address
+  const delegationManager = getDelegatorEnvironment(CHAIN_ID).DelegationManager
+
+  // A fresh store and bundler (which also stands in for the chain) per scenario
+  const setup = (options: { autoInclude?: boolean; reverts?: boolean } = {}) => {
+    automationStorage.clear()
+    const bundler = createLocalBundler({
+      chainId: CHAIN_ID,
+      accounts: [executorSmartAccount],
+      owners: [owner.address],
+      autoInclude: options.autoInclude,
+      execute: options.reverts ? () => false : undefined,
+    })
+    const chainClients = new ChainClientFactory({ transport: () => bundler.transport })
+    const delegationService = new DelegationService({ bundlerTransport: bundler.transport, chainClients })
+    return {
+      bundler,
+      delegationService,
+      executor: new AutomationExecutor(delegationService, chainClients),
+      publicClient: chainClients.getPublicClient(CHAIN_ID),
+      walletClient: chainClients.getWalletClient(CHAIN_ID, owner),
+    }
+  }
+
+  const createAutomation = (now: Date) => automationStorage.create({
+    type: 'recurring_payment',
+    description: 'Smoke test payment',
+    status: 'active',
+    params: { amount: '0.01', currency: 'ETH', recipient, frequency: 'daily' },
+    schedule: { kind: 'interval', every: 1, unit: 'days', timezone: 'UTC' },
+    userAddress: delegator,
+    nextExecution: now,
+    delegationId: `0x${'11'.repeat(32)}`,
+    delegationData: {
+      delegate: executorSmartAccount,
+      delegator,
+      authority: `0x${'ff'.repeat(32)}`,
+      caveats: [],
+      salt: `0x${'00'.repeat(32)}`,
+      signature: `0x${'22'.repeat(65)}`,
+    },
+    chainId: CHAIN_ID,
+    isSimulated: false,
+    walletType: 'scw',
+  })
+
+  const findAutomation = (id: string) => automationStorage.getAll().find(auto => auto.id === id)
+
+  const now = new Date()
+
+  console.log('1. Send a redemption and wait for its receipt')
+  {
+    const { bundler, delegationService, publicClient, walletClient } = setup()
+    const automation = createAutomation(now)
+    const result = await delegationService.redeemAutomationDelegation(automation, walletClient, publicClient)
+    assert.equal(result.success, true, result.error)
+    assert.ok(result.userOperationHash, 'returns the UserOperation hash once sent')
+    assert.equal(result.transactionHash, undefined, 'does not wait for inclusion')
+    assert.equal(bundler.userOperations.length, 1)
+    assert.equal(getAddress(bundler.userOperations[0].userOperation.sender), executorSmartAccount)
+    assert.ok(bundler.userOperations[0].userOperation.callData.includes(delegationManager.slice(2).toLowerCase()),
+      'calls the DelegationManager')
+
+    const included = await delegationService.getUserOperationResult(CHAIN_ID, result.userOperationHash as Hex, publicClient, true)
+    assert.equal(included.success, true)
+    assert.equal(included.transactionHash, bundler.userOperations[0].transactionHash)
+  }
+
+  console.log('2. The executor redeems, settles and schedules the next run')
+  {
+    const { bundler, executor } = setup()
+    const automation = createAutomation(now)
+    const outcome = await executor.executeAutomation(automation, now)
+    assert.equal(outcome.success, true, outcome.error)
+    assert.equal(outcome.transactionHash, bundler.userOperations[0].transactionHash)
+    const stored = findAutomation(automation.id)
+    assert.equal(stored?.pendingExecution, undefined)
+    assert.equal(stored?.status, 'active')
+    assert.ok(stored?.nextExecution && new Date(stored.nextExecution) > now)
+  }
+
+  console.log('3. A reverted operation is a failure the executor may retry')
+  {
+    const { bundler, delegationService, executor, publicClient, walletClient } = setup({ reverts: true })
+    const sent = await delegationService.redeemAutomationDelegation(createAutomation(now), walletClient, publicClient)
+    const included = await delegationService.getUserOperationResult(CHAIN_ID, sent.userOperationHash as Hex, publicClient, true)
+    assert.equal(included.success, false)
+    assert.equal(included.reason, 'execution reverted')
+
+    const automation = createAutomation(now)
+    const outcome = await executor.executeAutomation(automation, now)
+    assert.equal(outcome.success, false)
+    assert.match(outcome.error || '', /reverted/)
+    const stored = findAutomation(automation.id)
+    assert.equal(stored?.status, 'active')
+    assert.equal(stored?.consecutiveFailures, 1)
+    assert.equal(stored?.pendingExecution, undefined)
+    assert.equal(bundler.userOperations.length, 2)
+  }
+
+  console.log('4. A sent operation stays pending and is never sent again')
+  {
+    const { bundler, delegationService, executor, publicClient, walletClient } = setup({ autoInclude: false })
+    const automation = createAutomation(now)
+    const sent = await delegationService.redeemAutomationDelegation(automation, walletClient, publicClient)
+    const userOperationHash = sent.userOperationHash as Hex
+    automationStorage.update(automation.id, { pendingExecution: { userOperationHash, submittedAt: now } })
+    assert.equal(await delegationService.isUserOperationKnown(CHAIN_ID, userOperationHash, publicClient), true)
+
+    for (const tick of [1, 2]) {
+      const result = await executor.tick(new Date(now.getTime() + tick * 60_000))
+      assert.equal(result.pending, 1, `tick ${tick} leaves it pending`)
+      assert.equal(bundler.userOperations.length, 1, `tick ${tick} sends nothing`)
+    }
+
+    bundler.include()
+    const settled = await executor.tick(new Date(now.getTime() + 3 * 60_000))
+    assert.equal(settled.executed, 1)
+    assert.equal(bundler.userOperations.length, 1)
+    const stored = findAutomation(automation.id)
+    assert.equal(stored?.pendingExecution, undefined)
+    assert.ok(stored?.lastExecuted)
+  }
+
+  console.log('5. An operation the bundler dropped fails without a retry')
+  {
+    const { bundler, executor } = setup({ autoInclude: false })
+    const automation = createAutomation(now)
+    automationStorage.update(automation.id, {
+      pendingExecution: { userOperationHash: `0x${'33'.repeat(32)}`, submittedAt: new Date(now.getTime() - 2 * DAY_MS) },
+    })
+    const result = await executor.tick(now)
+    assert.equal(result.failed, 1)
+    assert.equal(bundler.userOperations.length, 0)
+    const stored = findAutomation(automation.id)
+    assert.equal(stored?.status, 'failed')
+    assert.equal(stored?.pendingExecution, undefined)
+  }
+
+  console.log('✅ UserOperation smoke test passed')
+}
+
+main().catch(error => {
+  console.error('❌ UserOperation smoke test failed:', error)
+  process.exit(1)
+})
@@ -0,0 +1,87 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { isAddress } from 'viem'
+import { addressBookStorage } from '@/lib/address-book'
+import { getSessionAddress } from '@/lib/auth'
+import { CONTACT_NAME, type FieldError } from '@/lib/automation-schema'
+
+// List the signed-in user's contacts
+export async function GET(request: NextRequest) {
+  try {
+    const userAddress = getSessionAddress(request)
+    if (!userAddress) {
+      return NextResponse.json({ error: 'Not signed in' }, { status: 401 })
+    }
+
+    const contacts = addressBookStorage.getByUser(userAddress)
+    return NextResponse.json({ contacts, total: contacts.length })
+
+  } catch (error) {
+    console.error('Failed to fetch address book:', error)
+    return NextResponse.json(
+      { error: 'Failed to fetch address book' },
+      { status: 500 }
+    )
+  }
+}
+
+// Add or replace a named contact
+export async function POST(request: NextRequest) {
+  try {
+    const userAddress = getSessionAddress(request)
+    if (!userAddress) {
+      return NextResponse.json({ error: 'Not signed in' }, { status: 401 })
+    }
+
+    const { name, address } = await request.json()
+
+    const errors: FieldError[] = []
+    if (typeof name !== 'string' || !CONTACT_NAME.test(name.trim())) {
+      errors.push({ field: 'name', message: 'must start with a letter and use up to 32 letters, digits, spaces, _ or -' })
+    }
+    if (typeof address !== 'string' || !isAddress(address)) {
+      errors.push({ field: 'address', message: 'must be a 0x address' })
+    }
+    if (errors.length) {
+      return NextResponse.json({ error: 'Invalid contact', errors }, { status: 400 })
+    }
+
+    const contact = addressBookStorage.save(userAddress, name, address)
+    return NextResponse.json({ success: true, contact })
+
+  } catch (error) {
+    console.error('Failed to save contact:', error)
+    return NextResponse.json(
+      { error: 'Failed to save contact' },
+      { status: 500 }
+    )
+  }
+}
+
+// Remove a contact
+export async function DELETE(request: NextRequest) {
+  try {
+    const { searchParams } = new URL(request.url)
+    const contactId = searchParams.get('id')
+    const userAddress = getSessionAddress(request)
+    if (!userAddress) {
+      return NextResponse.json({ error: 'Not signed in' }, { status: 401 })
+    }
+
+    if (!contactId) {
+      return NextResponse.json({ error: 'Contact ID is required' }, { status: 400 })
+    }
+
+    if (!addressBookStorage.delete(contactId, userAddress)) {
+      return NextResponse.json({ error: 'Contact not found' }, { status: 404 })
+    }
+
+    return NextResponse.json({ success: true, message: 'Contact deleted' })
+
+  } catch (error) {
+    console.error('Failed to delete contact:', error)
+    return NextResponse.json(
+      { error: 'Failed to delete contact' },
+      { status: 500 }
+    )
+  }
+}
@@ -1,106 +1,166 @@
 import { NextRequest, NextResponse } from 'next/server'
-import { automationStorage } from '@/lib/automation'
-import { InferenceClient } from '@huggingface/inference'
-
-// Initialize Hugging Face Inference Client
-const hf = new InferenceClient(process.env.HUGGING_FACE_API_KEY)
+import { automationStorage, type Automation } from '@/lib/automation'
+import { getSessionAddress } from '@/lib/auth'
+import { getLlmProvider, getSuggestedDraftFields, queryIntent, type IntentResult } from '@/lib/llm'
+import { validateAutomationParams, AutomationValidationError, CONTACT_NAME, type AutomationType } from '@/lib/automation-schema'
+import { parseProtocolParams } from '@/lib/protocol-adapters'
+import type { ParsedCommand } from '@/types'
+import { addressBookStorage } from '@/lib/address-book'
+import {
+  findMentionedContact,
+  tryResolveRecipient,
+  RecipientResolutionError,
+  type RecipientResolution,
+} from '@/lib/recipients'
+import {
+  conversationStorage,
+  extractDraftFields,
+  getMissingFields,
+  getQuestion,
+  mergeDraft,
+  type AutomationDraft,
+} from '@/lib/conversation'
+import { planAutomationCaveats, CaveatError, type CaveatSpec } from '@/lib/caveats'
+import { parseSchedule, ScheduleError, DEFAULT_TIMEZONE, type Schedule } from '@/lib/schedule'
+import {
+  updateAutomation,
+  describeAutomation,
+  describeAdapter,
+  withScheduleParams,
+  AutomationUpdateError,
+  type AutomationUpdate,
+} from '@/lib/automation-updates'
+
+// Which model answered and how long it took, returned when a language model was used
+type AiMetadata = Pick<IntentResult, 'provider' | 'model' | 'latencyMs'>
 
 /**
  * POST /api/ai/parse
  */
 export async function POST(request: NextRequest) {
+  let userAddress: string | null = null
+  let body: { message?: string; timezone?: string; sessionId?: string; chainId?: number } = {}
+  let chainId: number | undefined
+
   try {
-    const { message, userAddress } = await request.json()
-    if (!message || !userAddress) {
-      return NextResponse.json({ error: 'Message and userAddress are required' }, { status: 400 })
+    userAddress = getSessionAddress(request)
+    if (!userAddress) {
+      return NextResponse.json({ error: 'Not signed in' }, { status: 401 })
     }
 
-    // First, try simple parser (local)
-    const parsedCommand = parseUserCommand(message)
-    if (parsedCommand) {
-      const automation = automationStorage.create({
-        type: parsedCommand.type,
-        description: generateDescription(parsedCommand),
-        status: 'pending',
-        params: parsedCommand.params,
-        userAddress,
-      })
+    body = await request.json()
+    const { message, timezone = DEFAULT_TIMEZONE, sessionId } = body
+    // The connected chain decides which token contracts payments are capped on
+    chainId = Number.isInteger(body.chainId) && (body.chainId as number) > 0 ? body.chainId : undefined
+    if (!message) {
+      return NextResponse.json({ error: 'Message is required' }, { status: 400 })
+    }
+
+    // Address book entries ("save 0xabc… as Bob")
+    const contact = parseContactCommand(message)
+    if (contact) {
+      const entry = addressBookStorage.save(userAddress, contact.name, contact.address)
       return NextResponse.json({
-        message: `I'll set that up for you! ${generateUserFriendlyMessage(parsedCommand)}`,
-        automation,
-        requiresConfirmation: true,
-        type: 'automation_created',
+        message: `Saved ${entry.name} (${entry.address}) to your address book. You can now say "pay ${entry.name} 10 USDC monthly".`,
+        contact: entry,
+        type: 'contact_saved',
       })
     }
 
-    // Only attempt HF models if key present
-    if (!process.env.HUGGING_FACE_API_KEY) {
-      return handleFallbackResponse(message)
+    // Edits to existing automations ("pause my reward claims")
+    const editCommand = parseEditCommand(message, timezone)
+    if (editCommand) {
+      return await handleEditCommand(editCommand, userAddress)
     }
 
-    const aiResponse = await queryHuggingFaceWithFallback(message, userAddress)
+    const mentionedContact = findMentionedContact(message, userAddress)
 
-    if (aiResponse.type === 'automation' && aiResponse.suggested_automation) {
-      const automation = automationStorage.create({
-        type: aiResponse.suggested_automation.type,
-        description: `Automated ${aiResponse.suggested_automation.type.replace('_', ' ')}`,
-        status: 'pending',
-        params: {},
-        userAddress,
-      })
-      return NextResponse.json({
-        message: aiResponse.message,
-        automation,
-        requiresConfirmation: false,
-        missingParams: aiResponse.suggested_automation.missing_params,
-        type: 'automation_draft',
-      })
+    // First, try simple parser (local)
+    const parsedCommand = parseUserCommand(message, timezone, mentionedContact)
+    if (parsedCommand) {
+      if (sessionId) conversationStorage.clearDraft(sessionId, userAddress)
+      return await createFromCommand(parsedCommand, userAddress, chainId)
     }
 
-    // Final fallback: local parser again
-    const finalParsed = parseUserCommand(message)
-    if (finalParsed) {
-      const automation = automationStorage.create({
-        type: finalParsed.type,
-        description: generateDescription(finalParsed),
-        status: 'pending',
-        params: finalParsed.params,
-        userAddress,
-      })
-      return NextResponse.json({
-        message: `I'll set that up for you! ${generateUserFriendlyMessage(finalParsed)}`,
-        automation,
-        requiresConfirmation: true,
-        type: 'automation_created',
-      })
+    // Follow-up answers fill the draft kept for this conversation
+    const session = sessionId ? conversationStorage.get(sessionId, userAddress) : null
+    if (sessionId && session?.draft) {
+      const fields = extractDraftFields(message, session.draft, timezone, mentionedContact)
+      if (Object.keys(fields).length) {
+        return await continueDraft(mergeDraft(session.draft, fields), userAddress, sessionId, chainId)
+      }
+    }
+
+    // A recognizable but incomplete command starts a new draft
+    const draft = startDraft(message, timezone, mentionedContact)
+    if (sessionId && draft) {
+      return await continueDraft(draft, userAddress, sessionId, chainId)
     }
 
-    // Nothing works — send AI message or generic fallback
+    // Only ask a language model if one is configured
+    const provider = getLlmProvider()
+    if (!provider) {
+      return handleFallbackResponse(message)
+    }
+
+    let result: IntentResult
+    try {
+      result = await queryIntent(provider, message, { userAddress, timezone })
+    } catch (error) {
+      console.warn('⚠️ Language model unavailable, using local parser fallback:', error instanceof Error ? error.message : error)
+      return handleFallbackResponse(message)
+    }
+
+    const { intent } = result
+    const ai = { provider: result.provider, model: result.model, latencyMs: result.latencyMs }
+
+    if (intent.type !== 'general' && intent.suggested_automation) {
+      // What the local parser finds wins over the model's reading of the same message
+      const suggested: AutomationDraft = { type: intent.suggested_automation.type, params: {} }
+      const draft = mergeDraft(
+        mergeDraft(suggested, getSuggestedDraftFields(intent.suggested_automation, timezone)),
+        extractDraftFields(message, suggested, timezone, mentionedContact)
+      )
+      return await continueDraft(draft, userAddress, sessionId, chainId, ai)
+    }
+
+    // Nothing matched — send the model's reply or a generic fallback
     return NextResponse.json({
-      message: aiResponse.message || "I'm not sure how to help with that. Try: 'Send 0.01 ETH weekly' or 'Claim rewards daily'.",
+      message: intent.message || "I'm not sure how to help with that. Try: 'Send 0.01 ETH weekly' or 'Claim rewards daily'.",
       type: 'assistant_response',
+      ai,
     })
 
   } catch (error) {
+    if (error instanceof RecipientResolutionError) {
+      return NextResponse.json({
+        error: 'Invalid automation',
+        errors: [{ field: 'params.recipient', message: error.message }],
+        message: `I can't pay that recipient: ${error.message}. Use an address, an ENS name or a saved contact ("save 0x… as Bob").`,
+        type: 'clarification',
+      }, { status: 400 })
+    }
+    if (error instanceof AutomationValidationError) {
+      return NextResponse.json({
+        error: 'Invalid automation',
+        errors: error.errors,
+        message: `I can't set that up: ${error.errors.map(e => `${e.field} ${e.message}`).join(', ')}.`,
+        type: 'clarification',
+      }, { status: 400 })
+    }
+    if (error instanceof ScheduleError) {
+      return NextResponse.json({
+        message: `I couldn't understand that schedule: ${error.message}`,
+        type: 'clarification',
+      })
+    }
+
     console.error('AI API error:', error)
     // Emergency fallback: local parser
     try {
-      const { message: errMsg, userAddress: errAddr } = await request.json()
-      const parsed = parseUserCommand(errMsg)
-      if (parsed && errAddr) {
-        const automation = automationStorage.create({
-          type: parsed.type,
-          description: generateDescription(parsed),
-          status: 'pending',
-          params: parsed.params,
-          userAddress: errAddr,
-        })
-        return NextResponse.json({
-          message: `I'll set that up for you! ${generateUserFriendlyMessage(parsed)}`,
-          automation,
-          requiresConfirmation: true,
-          type: 'automation_created',
-        })
+      const parsed = body.message ? parseUserCommand(body.message, body.timezone || DEFAULT_TIMEZONE) : null
+      if (parsed && userAddress) {
+        return await createFromCommand(parsed, userAddress, chainId)
       }
     } catch (inner) {
       console.error('Final fallback also failed:', inner)
@@ -109,276 +169,298 @@ export async function POST(request: NextRequest) {
   }
 }
 
+/** Store a fully parsed command as a pending automation awaiting confirmation */
+async function createFromCommand(cmd: ParsedCommand, userAddress: string, chainId?: number, ai?: AiMetadata) {
+  // ENS names and contacts are resolved now and checked again at confirmation
+  const resolvedRecipient = cmd.type === 'recurring_payment'
+    ? await tryResolveRecipient(cmd.params.recipient, userAddress)
+    : undefined
+  const { caveats, caveatWarning } = planCaveats({ ...cmd, resolvedRecipient, chainId, userAddress })
+  const automation = automationStorage.create({
+    type: cmd.type,
+    description: describeAutomation(cmd),
+    status: 'pending',
+    params: cmd.params,
+    schedule: cmd.schedule,
+    caveats,
+    resolvedRecipient,
+    chainId,
+    userAddress,
+  })
+  return NextResponse.json({
+    message: `I'll set that up for you! ${generateUserFriendlyMessage(cmd)}`,
+    automation,
+    caveatWarning,
+    requiresConfirmation: true,
+    type: 'automation_created',
+    ai,
+  })
+}
+
+/** Start a draft for commands whose intent is clear but details are missing */
+function startDraft(message: string, timezone: string, contact: string | null): AutomationDraft | null {
+  const lower = message.toLowerCase()
+  if (!/\b(send|pay|transfer)\b/.test(lower)) return null
+  const draft: AutomationDraft = { type: 'recurring_payment', params: {} }
+  return mergeDraft(draft, extractDraftFields(message, draft, timezone, contact))
+}
 
 /**
- * Try multiple Hugging Face models sequentially, fall back to parser
+ * Ask for the next missing field, or create the automation once the draft is
+ * complete. Without a session the draft isn't kept between messages.
  */
-async function queryHuggingFaceWithFallback(message: string, userAddress: string): Promise<any> {
-  const prompt = buildPrompt(message, userAddress)
-
-  // Use models likely to be supported — adjust as needed for your account
-  const models = [
-    'HuggingFaceH4/zephyr-7b-beta',  // instruction-capable model
-    'meta-llama/Llama-2-7b-chat-hf',  // a chat / instruction model
-    'google/flan-t5-large',          // text2text (if available)
-  ]
+async function continueDraft(draft: AutomationDraft, userAddress: string, sessionId: string | undefined, chainId?: number, ai?: AiMetadata) {
+  const missing = getMissingFields(draft)
+
+  if (missing.length === 0) {
+    if (sessionId) conversationStorage.clearDraft(sessionId, userAddress)
+    const schedule: Schedule = draft.schedule || (draft.type === 'reminder'
+      ? { kind: 'once', timezone: DEFAULT_TIMEZONE }
+      : { kind: 'interval', every: 1, unit: 'weeks', timezone: DEFAULT_TIMEZONE })
+    return createFromCommand(
+      toParsedCommand(draft.type, withScheduleParams(draft.params, schedule), schedule),
+      userAddress,
+      chainId,
+      ai
+    )
+  }
 
-  for (const model of models) {
-    try {
-      console.log(`🔍 Trying model: ${model}`)
-      const response = await hf.textGeneration({
-        model,
-        inputs: prompt,
-        parameters: {
-          max_new_tokens: 200,
-          temperature: 0.3,
-          do_sample: true,
-        },
-      }) as any
-
-      const generatedText = (response.generated_text || response || '').toString().trim()
-      console.log(`✅ Model responded (${model}):`, generatedText.substring(0, 80))
-
-      const jsonMatch = generatedText.match(/\{[\s\S]*\}/)
-      if (jsonMatch) {
-        const parsed = JSON.parse(jsonMatch[0])
-        parsed._modelUsed = model
-        return parsed
-      }
+  if (sessionId) conversationStorage.save({ id: sessionId, userAddress, draft, missingFields: missing })
+  return NextResponse.json({
+    message: getQuestion(missing[0]),
+    missingParams: missing,
+    draft,
+    type: 'clarification',
+    ai,
+  })
+}
 
-      // Interpret plain text fallback
-      return analyzeTextResponse(generatedText, message)
-    } catch (err: any) {
-      console.warn(`⚠️ Model ${model} failed:`, err.message)
-      // If provider missing or 503, continue to next model
-      if (err.message?.includes('No Inference Provider') || err.message?.includes('unsupported')) {
-        continue
-      }
-      if (err.response?.status === 503) {
-        continue
-      }
-    }
+/**
+ * Hints when no language model is configured or it fails. Commands the local
+ * parser understands were already created before the model was asked.
+ */
+function handleFallbackResponse(message: string) {
+  const lower = message.toLowerCase()
+  if (lower.includes('payment') || lower.includes('send')) {
+    return NextResponse.json({ message: "I can help you set up recurring payments. Please specify amount, recipient, and frequency.", type: 'clarification' })
   }
+  if (lower.includes('claim') || lower.includes('reward')) {
+    return NextResponse.json({ message: "I can automate reward claims. Please specify frequency (daily, weekly).", type: 'clarification' })
+  }
+  if (lower.includes('stake')) {
+    return NextResponse.json({ message: "I can automate staking. Please specify amount and frequency.", type: 'clarification' })
+  }
+  return NextResponse.json({
+    message: "Try commands like: 'Send 0.01 ETH weekly' or 'Claim rewards daily'.",
+    type: 'general'
+  })
+}
 
-  console.warn('⚠️ All Hugging Face models failed. Using local parser fallback.')
-
-  const localParsed = parseUserCommand(message)
-  if (localParsed) {
-    return {
-      type: 'automation',
-      message: `I'll set that up for you! ${generateUserFriendlyMessage(localParsed)}`,
-      suggested_automation: {
-        type: localParsed.type,
-        missing_params: getMissingParams(localParsed),
-      }
+/** Plan delegation caveats; unresolvable params become a warning shown before signing */
+function planCaveats(
+  cmd: ParsedCommand & { resolvedRecipient?: RecipientResolution; chainId?: number; userAddress: string }
+): { caveats?: CaveatSpec[]; caveatWarning?: string } {
+  try {
+    return { caveats: planAutomationCaveats(cmd) }
+  } catch (error) {
+    if (error instanceof CaveatError) {
+      return { caveatWarning: `Real delegation unavailable: ${error.message}` }
     }
+    throw error
   }
+}
 
-  return {
-    type: 'general',
-    message: "I can help set up automations like recurring payments, staking, or reminders. Try: 'Send 0.01 ETH every week' or 'Claim rewards daily'.",
-    suggested_automation: null,
-  }
+/** "save 0xabc… as Bob", "add Bob 0xabc… to my contacts" */
+function parseContactCommand(message: string): { name: string; address: string } | null {
+  const text = message.trim().replace(/[.!]+$/, '')
+  const saveAs = text.match(/^(?:save|add)\s+(0x[a-fA-F0-9]{40})\s+as\s+(.+)$/i)
+  const addTo = text.match(/^(?:save|add)\s+(.+?)\s+(0x[a-fA-F0-9]{40})\s+to\s+(?:my\s+)?(?:contacts|address book)$/i)
+  const [address, name] = saveAs ? [saveAs[1], saveAs[2]] : addTo ? [addTo[2], addTo[1]] : []
+  if (!address || !name || !CONTACT_NAME.test(name.trim())) return null
+  return { name: name.trim(), address }
 }
 
-/** Build the instruction prompt */
-function buildPrompt(message: string, userAddress: string) {
-  return `You are a wallet automation assistant. Analyze if the user wants to create an on-chain automation.
-
-Available automation types:
-- recurring_payment: Send X amount to Y address every Z time
-- reward_claim: Automatically claim staking rewards
-- staking: Automate staking
-- reminder: Set reminders for on-chain activities
-
-User wallet: ${userAddress}
-Chain: Monad testnet
-
-User: "${message}"
-
-Respond with JSON only:
-{
-  "type": "automation" | "clarification" | "general",
-  "message": "Your human-friendly reply",
-  "suggested_automation": {
-    "type": "recurring_payment" | "reward_claim" | "staking" | "reminder",
-    "missing_params": ["amount", "recipient", "frequency"]
-  } | null
-}`
+interface EditCommand {
+  selector: string
+  update: AutomationUpdate
 }
 
-/** Fallback analysis of plain text */
-function analyzeTextResponse(generatedText: string, originalMessage: string): any {
-  // Try local command parser first
-  const local = parseUserCommand(originalMessage)
-  if (local) {
-    return {
-      type: 'automation',
-      message: `I'll set that up for you! ${generateUserFriendlyMessage(local)}`,
-      suggested_automation: {
-        type: local.type,
-        missing_params: getMissingParams(local),
-      }
-    }
-  }
+/**
+ * Edit commands on existing automations, e.g.
+ * "change my weekly payment to alice.eth to 0.02 ETH", "pause my reward claims"
+ */
+function parseEditCommand(message: string, timezone: string): EditCommand | null {
+  const text = message.trim().replace(/[.!]+$/, '')
 
-  const lower = generatedText.toLowerCase()
-  if (lower.includes('send') || lower.includes('transfer') || lower.includes('payment')) {
-    return {
-      type: 'automation',
-      message: generatedText,
-      suggested_automation: { type: 'recurring_payment', missing_params: ['amount', 'recipient', 'frequency'] }
-    }
-  }
-  if (lower.includes('claim') || lower.includes('reward')) {
-    return {
-      type: 'automation',
-      message: generatedText,
-      suggested_automation: { type: 'reward_claim', missing_params: ['frequency'] }
-    }
-  }
-  if (lower.includes('stake')) {
-    return {
-      type: 'automation',
-      message: generatedText,
-      suggested_automation: { type: 'staking', missing_params: ['frequency', 'amount'] }
-    }
+  const pause = text.match(/^(?:pause|suspend|stop)\s+(.+)$/i)
+  if (pause) return { selector: pause[1], update: { status: 'paused' } }
+
+  const resume = text.match(/^(?:resume|unpause|restart)\s+(.+)$/i)
+  if (resume) return { selector: resume[1], update: { status: 'active' } }
+
+  // The last " to " separates the automation from its new value
+  const change = text.match(/^(?:change|update|modify|edit)\s+(.+)\s+to\s+(.+)$/i)
+  if (!change) return null
+  const [, selector, value] = change
+
+  const amount = value.match(/^(\d+\.?\d*)\s*(ETH|USDC|USDT|MON)?$/i)
+  if (amount) {
+    return { selector, update: { amount: amount[1], ...(amount[2] ? { currency: amount[2].toUpperCase() } : {}) } }
   }
-  if (lower.includes('remind') || lower.includes('alert') || lower.includes('notify')) {
-    return {
-      type: 'automation',
-      message: generatedText,
-      suggested_automation: { type: 'reminder', missing_params: ['time', 'message'] }
-    }
+
+  if (/^(0x[a-fA-F0-9]{40}|[a-zA-Z0-9-]+\.eth)$/.test(value)) {
+    return { selector, update: { recipient: value } }
   }
-  return {
-    type: 'general',
-    message: generatedText || "I’m not sure how to help with that.",
-    suggested_automation: null,
+
+  const schedule = parseSchedule(value, timezone)
+  if (schedule) {
+    return { selector, update: { schedule } }
   }
+
+  return null
 }
 
-/** Compute missing parameters for a parsed command */
-function getMissingParams(parsedCommand: any): string[] {
-  switch (parsedCommand.type) {
-    case 'recurring_payment':
-      return ['amount', 'recipient', 'frequency'].filter(p => !parsedCommand.params[p])
-    case 'reward_claim':
-      return ['frequency'].filter(p => !parsedCommand.params[p])
-    case 'staking':
-      return ['frequency', 'amount'].filter(p => !parsedCommand.params[p])
-    case 'reminder':
-      return ['time', 'message'].filter(p => !parsedCommand.params[p])
-    default:
-      return []
+const EDIT_TYPE_HINTS: [RegExp, Automation['type']][] = [
+  [/\b(pay|payment|payments|transfer|send)/, 'recurring_payment'],
+  [/\b(reward|claim)/, 'reward_claim'],
+  [/\bstak/, 'staking'],
+  [/\bremind/, 'reminder'],
+]
+
+function matchesFrequencyHint(automation: Automation, hint: string): boolean {
+  const schedule = automation.schedule
+  if (automation.params.frequency?.toLowerCase() === hint) return true
+  switch (hint) {
+    case 'hourly': return schedule?.kind === 'interval' && schedule.unit === 'hours'
+    case 'daily': return schedule?.kind === 'interval' && schedule.unit === 'days'
+    case 'weekly': return schedule?.kind === 'weekly' || (schedule?.kind === 'interval' && schedule.unit === 'weeks')
+    case 'monthly': return schedule?.kind === 'last_business_day' || (schedule?.kind === 'interval' && schedule.unit === 'months')
+    default: return false
   }
 }
 
-/** Fallback when no HF key or models */
-function handleFallbackResponse(message: string) {
-  const parsed = parseUserCommand(message)
-  if (parsed) {
+/** Narrow the user's editable automations using type, frequency and recipient hints */
+function findAutomationsForSelector(selector: string, automations: Automation[]): Automation[] {
+  const lower = selector.toLowerCase()
+  let candidates = automations.filter(auto => ['active', 'pending', 'paused'].includes(auto.status))
+
+  const typeHint = EDIT_TYPE_HINTS.find(([pattern]) => pattern.test(lower))?.[1]
+  if (typeHint) candidates = candidates.filter(auto => auto.type === typeHint)
+
+  const frequencyHint = lower.match(/\b(hourly|daily|weekly|monthly)\b/)?.[1]
+  if (frequencyHint) candidates = candidates.filter(auto => matchesFrequencyHint(auto, frequencyHint))
+
+  const recipientHint = lower.match(/(0x[a-f0-9]{40}|[a-z0-9-]+\.eth)/)?.[1]
+  if (recipientHint) candidates = candidates.filter(auto => auto.params.recipient?.toLowerCase() === recipientHint)
+
+  return candidates
+}
+
+async function handleEditCommand({ selector, update }: EditCommand, userAddress: string) {
+  const matches = findAutomationsForSelector(selector, automationStorage.getByUser(userAddress))
+
+  if (matches.length === 0) {
     return NextResponse.json({
-      message: `I'll set that up for you! ${generateUserFriendlyMessage(parsed)}`,
-      automation: {
-        type: parsed.type,
-        description: generateDescription(parsed),
-        status: 'pending',
-        params: parsed.params,
-      },
-      requiresConfirmation: true,
-      type: 'automation_created'
+      message: `I couldn't find an automation matching "${selector}".`,
+      type: 'clarification',
     })
   }
 
-  const lower = message.toLowerCase()
-  if (lower.includes('payment') || lower.includes('send')) {
-    return NextResponse.json({ message: "I can help you set up recurring payments. Please specify amount, recipient, and frequency.", type: 'clarification' })
-  }
-  if (lower.includes('claim') || lower.includes('reward')) {
-    return NextResponse.json({ message: "I can automate reward claims. Please specify frequency (daily, weekly).", type: 'clarification' })
+  if (matches.length > 1) {
+    return NextResponse.json({
+      message: `Which automation do you mean?\n\n${matches.map(auto => `• ${auto.description}`).join('\n')}`,
+      type: 'clarification',
+    })
   }
-  if (lower.includes('stake')) {
-    return NextResponse.json({ message: "I can automate staking. Please specify amount and frequency.", type: 'clarification' })
+
+  try {
+    const resolvedRecipient = update.recipient ? await tryResolveRecipient(update.recipient, userAddress) : undefined
+    const result = updateAutomation(matches[0], update, new Date(), resolvedRecipient)
+    const verb = update.status === 'paused' ? 'Paused' : update.status === 'active' ? 'Resumed' : 'Updated'
+    return NextResponse.json({
+      message: result.requiresReconfirmation
+        ? `${verb}: ${result.automation.description}. Please confirm to sign a delegation with the new limits.`
+        : `${verb}: ${result.automation.description}.`,
+      automation: result.automation,
+      changes: result.changes,
+      requiresConfirmation: result.requiresReconfirmation,
+      type: 'automation_updated',
+    })
+  } catch (error) {
+    if (error instanceof AutomationValidationError) {
+      return NextResponse.json({
+        message: `I couldn't update that automation: ${error.errors.map(e => `${e.field} ${e.message}`).join(', ')}`,
+        errors: error.errors,
+        type: 'clarification',
+      })
+    }
+    if (error instanceof AutomationUpdateError) {
+      return NextResponse.json({
+        message: `I couldn't update that automation: ${error.message}`,
+        type: 'clarification',
+      })
+    }
+    throw error
   }
-  return NextResponse.json({
-    message: "Try commands like: 'Send 0.01 ETH weekly' or 'Claim rewards daily'.",
-    type: 'general'
-  })
 }
 
-/** Local command parser (as before) */
-function parseUserCommand(message: string): any {
+/** Check parsed params against the automation schema; throws AutomationValidationError */
+function toParsedCommand(type: AutomationType, params: Record<string, unknown>, schedule: Schedule): ParsedCommand {
+  return { type, schedule, params: validateAutomationParams(type, params) } as ParsedCommand
+}
+
+/** Local command parser */
+function parseUserCommand(message: string, timezone: string = DEFAULT_TIMEZONE, contact?: string | null): ParsedCommand | null {
   const lower = message.toLowerCase().trim()
+  const schedule = parseSchedule(message, timezone)
+  const weekly: Schedule = { kind: 'interval', every: 1, unit: 'weeks', timezone }
+
   // Recurring payment pattern
-  if ((lower.includes('send') || lower.includes('pay') || lower.includes('transfer'))
-    && (lower.includes('every') || lower.includes('weekly') || lower.includes('monthly') || lower.includes('daily'))) {
+  if ((lower.includes('send') || lower.includes('pay') || lower.includes('transfer')) && schedule) {
     const amount = message.match(/(\d+\.?\d*)\s*(ETH|USDC|USDT|MON)/i)
-    const to = message.match(/to\s+(0x[a-fA-F0-9]{40}|[a-zA-Z0-9]+\.eth)/i)
-    const freq = message.match(/(daily|weekly|monthly|every day|every week|every month)/i)
+    const to = message.match(/to\s+(0x[a-fA-F0-9]{40}|[a-zA-Z0-9]+\.eth)/i) || (contact ? [contact, contact] : null)
     if (amount && to) {
-      return {
-        type: 'recurring_payment',
-        params: {
-          amount: amount[1],
-          currency: amount[2]?.toUpperCase(),
-          recipient: to[1],
-          frequency: freq ? freq[1].toLowerCase() : 'weekly',
-        },
-      }
+      return toParsedCommand('recurring_payment', withScheduleParams({
+        amount: amount[1],
+        currency: amount[2]?.toUpperCase(),
+        recipient: to[1],
+      }, schedule), schedule)
     }
   }
 
-  // Reward claim
+  // Reward claim: the contract plus adapter settings ("from vault 0x…", "using getReward()")
+  const contract = message.match(/(?:from|on|at|in|into|to)\s+(?:(?:the\s+)?vault\s+)?(0x[a-fA-F0-9]{40})/i)
+  // Only staking takes an amount
+  const { amount: stakeAmount, ...protocolParams } = parseProtocolParams(message)
+  const contractParams = { ...(contract ? { contractAddress: contract[1] } : {}), ...protocolParams }
+
   if ((lower.includes('claim') && lower.includes('reward')) || lower.includes('auto claim') || lower.includes('claim automatically') || lower.includes('claim rewards')) {
-    return {
-      type: 'reward_claim',
-      params: { frequency: lower.includes('daily') ? 'daily' : 'weekly' }
-    }
+    return toParsedCommand('reward_claim', withScheduleParams(contractParams, schedule || weekly), schedule || weekly)
   }
 
   // Staking
-  if ((lower.includes('stake') && lower.includes('every')) || lower.includes('auto stake') || lower.includes('stake automatically') || lower.includes('stake tokens')) {
-    return {
-      type: 'staking',
-      params: { frequency: lower.includes('daily') ? 'daily' : 'weekly' }
-    }
+  if ((lower.includes('stake') && lower.includes('every')) || lower.includes('auto stake') || lower.includes('stake automatically') || lower.includes('stake tokens') || (lower.includes('stake') && !!stakeAmount)) {
+    const stakeParams = stakeAmount ? { ...contractParams, amount: stakeAmount } : contractParams
+    return toParsedCommand('staking', withScheduleParams(stakeParams, schedule || weekly), schedule || weekly)
   }
 
   // Reminder
   if (lower.includes('remind') || lower.includes('alert') || lower.includes('notify')) {
-    return {
-      type: 'reminder',
-      params: { frequency: 'once', message }
-    }
+    const reminderSchedule: Schedule = schedule || { kind: 'once', timezone }
+    return toParsedCommand('reminder', withScheduleParams({ message }, reminderSchedule), reminderSchedule)
   }
 
   return null
 }
 
-function generateDescription(cmd: any): string {
-  switch (cmd.type) {
-    case 'recurring_payment':
-      return `Send ${cmd.params.amount} ${cmd.params.currency} to ${cmd.params.recipient} ${cmd.params.frequency}`
-    case 'reward_claim':
-      return `Claim rewards ${cmd.params.frequency}`
-    case 'staking':
-      return `Stake tokens ${cmd.params.frequency}`
-    case 'reminder':
-      return `Reminder: ${cmd.params.message.substring(0, 50)}...`
-    default:
-      return 'Automated on-chain action'
-  }
-}
-
-function generateUserFriendlyMessage(cmd: any): string {
+function generateUserFriendlyMessage(cmd: ParsedCommand): string {
   switch (cmd.type) {
     case 'recurring_payment':
       return `I'll send ${cmd.params.amount} ${cmd.params.currency} to ${cmd.params.recipient} ${cmd.params.frequency}. Please confirm this setup.`
     case 'reward_claim':
-      return `I'll automatically claim your rewards ${cmd.params.frequency}. Please confirm this setup.`
+      return `I'll automatically claim your rewards ${cmd.params.frequency} via ${describeAdapter(cmd.type, cmd.params)}. Please confirm this setup.`
     case 'staking':
-      return `I'll automate staking ${cmd.params.frequency}. Please confirm.`
+      return `I'll automate staking ${cmd.params.frequency} via ${describeAdapter(cmd.type, cmd.params)}. Please confirm.`
     case 'reminder':
       return `I'll set up a reminder for you. Please confirm.`
     default:
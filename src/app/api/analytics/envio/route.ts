@@ -1,19 +1,21 @@
 import { NextRequest, NextResponse } from 'next/server';
-import { getMonadAnalyticsFromEnvio, getAutomationHistoryFromEnvio } from '@/lib/envio-tracker';
+import { getEnvioApiKey, serverEnvioTracker } from '@/lib/envio-server';
+import { getSessionAddress } from '@/lib/auth';
+import { DEFAULT_CHAIN_ID } from '@/lib/chains';
+import { EnvioQueryError } from '@/lib/envio-tracker';
 
 export async function GET(request: NextRequest) {
   try {
-    const { searchParams } = new URL(request.url);
-    const userAddress = searchParams.get('user');
+    const userAddress = getSessionAddress(request);
     
     if (!userAddress) {
-      return NextResponse.json({ error: 'User address required' }, { status: 400 });
+      return NextResponse.json({ error: 'Not signed in' }, { status: 401 });
     }
 
     // Get comprehensive analytics from Envio
     const [monadAnalytics, automationHistory] = await Promise.all([
-      getMonadAnalyticsFromEnvio(userAddress),
-      getAutomationHistoryFromEnvio(userAddress, 10143, 20) // Focus on Monad
+      serverEnvioTracker.getMonadAnalytics(userAddress),
+      serverEnvioTracker.getAutomationHistory(userAddress, DEFAULT_CHAIN_ID, 20)
     ]);
 
     return NextResponse.json({
@@ -23,7 +25,7 @@ export async function GET(request: NextRequest) {
         automationHistory,
         // Add Envio-specific metrics for hackathon demonstration
         envioIntegration: {
-          hyperSyncEnabled: true,
+          hyperSyncEnabled: !!getEnvioApiKey(),
           multiChainSupport: true,
           realTimeIndexing: true,
           monadFocus: true
@@ -32,6 +34,9 @@ export async function GET(request: NextRequest) {
     });
 
   } catch (error) {
+    if (error instanceof EnvioQueryError) {
+      return NextResponse.json({ error: error.message }, { status: 502 });
+    }
     console.error('Envio analytics failed:', error);
     return NextResponse.json(
       { error: 'Failed to fetch Envio analytics' },
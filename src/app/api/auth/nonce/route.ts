@@ -0,0 +1,15 @@
+import { NextResponse } from 'next/server'
+import { createNonce } from '@/lib/auth'
+
+// Issue a nonce for a Sign-In with Ethereum message
+export async function GET() {
+  try {
+    return NextResponse.json({ nonce: createNonce() })
+  } catch (error) {
+    console.error('Failed to create sign-in nonce:', error)
+    return NextResponse.json(
+      { error: 'Failed to create sign-in nonce' },
+      { status: 500 }
+    )
+  }
+}
@@ -0,0 +1,18 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { getSessionAddress, clearSessionCookie } from '@/lib/auth'
+
+// Current session, if any
+export async function GET(request: NextRequest) {
+  const address = getSessionAddress(request)
+  if (!address) {
+    return NextResponse.json({ error: 'Not signed in' }, { status: 401 })
+  }
+  return NextResponse.json({ address })
+}
+
+// Sign out
+export async function DELETE() {
+  const response = NextResponse.json({ success: true })
+  clearSessionCookie(response)
+  return response
+}
@@ -0,0 +1,30 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { verifySiweLogin, createSessionToken, setSessionCookie, AuthError } from '@/lib/auth'
+
+// Verify a signed SIWE message and start a session
+export async function POST(request: NextRequest) {
+  try {
+    const { message, signature } = (await request.json().catch(() => null)) ?? {}
+
+    if (typeof message !== 'string' || typeof signature !== 'string' || !message || !signature) {
+      return NextResponse.json({ error: 'Message and signature are required strings' }, { status: 400 })
+    }
+
+    const address = await verifySiweLogin(message, signature, request.nextUrl.host)
+
+    const response = NextResponse.json({ success: true, address })
+    setSessionCookie(response, createSessionToken(address))
+    console.log(`🔐 Signed in ${address}`)
+    return response
+
+  } catch (error) {
+    if (error instanceof AuthError) {
+      return NextResponse.json({ error: error.message }, { status: error.status })
+    }
+    console.error('Failed to verify sign-in:', error)
+    return NextResponse.json(
+      { error: 'Failed to verify sign-in' },
+      { status: 500 }
+    )
+  }
+}
@@ -0,0 +1,82 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { automationStorage } from '@/lib/automation'
+import { getSessionAddress } from '@/lib/auth'
+import { updateAutomation, AutomationUpdateError, type AutomationUpdate } from '@/lib/automation-updates'
+import { AutomationValidationError } from '@/lib/automation-schema'
+import { tryResolveRecipient, RecipientResolutionError } from '@/lib/recipients'
+
+const UPDATABLE_FIELDS: (keyof AutomationUpdate)[] = [
+  'amount', 'currency', 'recipient',
+  'adapter', 'contractAddress', 'functionSignature', 'rewardsFunction', 'decimals', 'principal',
+  'frequency', 'schedule', 'status',
+]
+
+// Change an automation's amount, recipient, protocol adapter or schedule, or pause/resume it
+export async function PATCH(request: NextRequest, { params }: { params: Promise<{ id: string }> }) {
+  try {
+    const userAddress = getSessionAddress(request)
+    if (!userAddress) {
+      return NextResponse.json({ error: 'Not signed in' }, { status: 401 })
+    }
+
+    const { id } = await params
+    const body = await request.json().catch(() => null)
+    if (!body || typeof body !== 'object' || Array.isArray(body)) {
+      return NextResponse.json({ error: 'Request body must be a JSON object' }, { status: 400 })
+    }
+
+    const unknownFields = Object.keys(body).filter(key => !UPDATABLE_FIELDS.includes(key as keyof AutomationUpdate))
+    if (unknownFields.length) {
+      return NextResponse.json({ 
+        error: `Fields cannot be updated: ${unknownFields.join(', ')}`,
+        field: unknownFields[0],
+        errors: unknownFields.map(field => ({ field, message: 'cannot be updated' }))
+      }, { status: 400 })
+    }
+
+    const automation = automationStorage.getByUser(userAddress).find(auto => auto.id === id)
+    if (!automation) {
+      return NextResponse.json({ error: 'Automation not found' }, { status: 404 })
+    }
+
+    // A new recipient is resolved now so the replanned caveats cap the real address
+    const resolvedRecipient = typeof body.recipient === 'string'
+      ? await tryResolveRecipient(body.recipient, userAddress)
+      : undefined
+    const result = updateAutomation(automation, body, new Date(), resolvedRecipient)
+
+    return NextResponse.json({ 
+      success: true,
+      automation: result.automation,
+      changes: result.changes,
+      requiresConfirmation: result.requiresReconfirmation,
+      message: result.requiresReconfirmation
+        ? 'Automation updated. Sign a new delegation to apply the new limits.'
+        : 'Automation updated successfully'
+    })
+
+  } catch (error) {
+    if (error instanceof RecipientResolutionError) {
+      return NextResponse.json({ 
+        error: error.message, 
+        field: 'recipient',
+        errors: [{ field: 'recipient', message: error.message }]
+      }, { status: 400 })
+    }
+    if (error instanceof AutomationValidationError) {
+      return NextResponse.json({ 
+        error: 'Invalid automation update', 
+        field: error.errors[0].field,
+        errors: error.errors 
+      }, { status: 400 })
+    }
+    if (error instanceof AutomationUpdateError) {
+      return NextResponse.json({ error: error.message, field: error.field }, { status: error.status })
+    }
+    console.error('Failed to update automation:', error)
+    return NextResponse.json(
+      { error: 'Failed to update automation' },
+      { status: 500 }
+    )
+  }
+}
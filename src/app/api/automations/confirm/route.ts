@@ -1,17 +1,49 @@
 import { NextRequest, NextResponse } from 'next/server'
-import { automationStorage, eventStorage } from '@/lib/automation'
+import { automationStorage, eventStorage, type Automation } from '@/lib/automation'
+import { buildCaveats, caveatsMatch, planAutomationCaveats, CaveatError } from '@/lib/caveats'
+import { resolveRecipient, RecipientResolutionError, type RecipientChange } from '@/lib/recipients'
+import { DelegationService } from '@/lib/delegation-service'
+import { getSessionAddress } from '@/lib/auth'
+import { getParamErrors, type FieldError } from '@/lib/automation-schema'
+import { isNativeCurrency } from '@/lib/tokens'
+import { getChainName, getExplorerTxUrl, isSimulatedTransactionHash, supportsDelegation } from '@/lib/chains'
+import { getDelegatorEnvironment } from '@/lib/delegator-environments'
+import { verifySignedDelegation, verifyDelegationTransaction, DelegationVerificationError } from '@/lib/delegation-verification'
+import { passkeyStorage } from '@/lib/passkeys'
+import { calculateNextExecution, scheduleFromParams, validateSchedule, ScheduleError, DEFAULT_TIMEZONE } from '@/lib/schedule'
 import { 
   trackAutomationInEnvio, 
   trackTransactionInEnvio 
-} from '@/lib/envio-tracker'
+} from '@/lib/envio-server'
+
+const delegationService = new DelegationService()
 
 export async function POST(request: NextRequest) {
   try {
-    const { automationId, userAddress, signedDelegation, transactionHash, chainId, isSimulated } = await request.json()
+    const userAddress = getSessionAddress(request)
+    if (!userAddress) {
+      return NextResponse.json({ error: 'Not signed in' }, { status: 401 })
+    }
+
+    const { automationId, signedDelegation, transactionHash, chainId, timezone } = await request.json()
 
-    if (!automationId || !userAddress || !signedDelegation) {
+    const fieldErrors: FieldError[] = []
+    if (typeof automationId !== 'string' || !automationId) {
+      fieldErrors.push({ field: 'automationId', message: 'is required' })
+    }
+    if (!signedDelegation || typeof signedDelegation !== 'object') {
+      fieldErrors.push({ field: 'signedDelegation', message: 'is required' })
+    }
+    if (!Number.isInteger(chainId) || chainId <= 0) {
+      fieldErrors.push({ field: 'chainId', message: 'must be a positive integer' })
+    }
+    if (transactionHash !== undefined && typeof transactionHash !== 'string') {
+      fieldErrors.push({ field: 'transactionHash', message: 'must be a string' })
+    }
+    if (fieldErrors.length) {
       return NextResponse.json({ 
-        error: 'Automation ID, user address, and signed delegation are required' 
+        error: 'Invalid confirmation request',
+        errors: fieldErrors
       }, { status: 400 })
     }
 
@@ -25,25 +57,185 @@ export async function POST(request: NextRequest) {
       }, { status: 404 })
     }
 
-    // Calculate next execution
-    const nextExecution = calculateNextExecution(automation.params?.frequency || 'weekly')
+    // Revoked, paused, completed or failed automations need a new automation, not an old signature
+    if (automation.status !== 'pending') {
+      return NextResponse.json({ 
+        error: `Automation is ${automation.status}; only pending automations can be confirmed` 
+      }, { status: 409 })
+    }
+
+    // Records created before validation may hold params that can't be executed
+    const paramErrors = getParamErrors(automation.type, automation.params)
+    if (paramErrors.length) {
+      return NextResponse.json({ 
+        error: 'Automation has invalid parameters; edit it before confirming',
+        errors: paramErrors
+      }, { status: 400 })
+    }
+
+    // Resolve the schedule (parsed at creation, or from legacy params) and its next run
+    let schedule
+    try {
+      schedule = automation.schedule || scheduleFromParams(automation.params, timezone || DEFAULT_TIMEZONE)
+      if (!schedule) {
+        return NextResponse.json({ 
+          error: `Unrecognized schedule "${automation.params?.frequency}"` 
+        }, { status: 400 })
+      }
+      validateSchedule(schedule)
+    } catch (error) {
+      if (error instanceof ScheduleError) {
+        return NextResponse.json({ error: error.message }, { status: 400 })
+      }
+      throw error
+    }
+
+    // Chains without delegation support only simulate; elsewhere a delegation is
+    // simulated only when its setup returned a simulated transaction hash
+    const claimedSimulated = !supportsDelegation(chainId) || (!!transactionHash && isSimulatedTransactionHash(transactionHash))
+
+    // Never trust the browser: recover the signer and check delegator, delegate and hash
+    let verified
+    try {
+      verified = await verifySignedDelegation({
+        signedDelegation,
+        userAddress,
+        chainId,
+        isSimulated: claimedSimulated,
+        relyingParty: { id: request.nextUrl.hostname, origin: request.nextUrl.origin },
+      })
+    } catch (error) {
+      if (error instanceof DelegationVerificationError) {
+        return NextResponse.json({ error: error.message }, { status: 400 })
+      }
+      throw error
+    }
+    const { delegationId, isSimulated } = verified
+
+    // Simulated hashes are kept only when marked as such; real ones must be mined and sent by the user
+    let delegationTransaction: { transactionHash?: string; blockNumber?: number } = {}
+    if (transactionHash && isSimulated) {
+      delegationTransaction = { transactionHash: isSimulatedTransactionHash(transactionHash) ? transactionHash : undefined }
+    } else if (transactionHash) {
+      try {
+        delegationTransaction = await verifyDelegationTransaction({ transactionHash, userAddress, chainId })
+      } catch (error) {
+        if (error instanceof DelegationVerificationError) {
+          return NextResponse.json({ error: error.message }, { status: 400 })
+        }
+        throw error
+      }
+    }
+    const { transactionHash: storedHash, blockNumber } = delegationTransaction
+
+    // Resolve ENS names and contacts again; the delegation must cap the address paid today
+    let resolvedRecipient = automation.resolvedRecipient
+    let caveats = automation.caveats
+    let recipientChange: RecipientChange | undefined
+    if (automation.type === 'recurring_payment' && automation.params.recipient) {
+      try {
+        resolvedRecipient = await resolveRecipient(automation.params.recipient, userAddress)
+      } catch (error) {
+        if (error instanceof RecipientResolutionError) {
+          return NextResponse.json({ 
+            error: error.message,
+            errors: [{ field: 'params.recipient', message: error.message }]
+          }, { status: 400 })
+        }
+        console.error('Recipient resolution failed:', error)
+        return NextResponse.json({ 
+          error: `Could not resolve ${automation.params.recipient} right now; try again shortly` 
+        }, { status: 502 })
+      }
+
+      const previous = automation.resolvedRecipient
+      if (previous?.address !== resolvedRecipient.address) {
+        if (previous) {
+          recipientChange = { label: previous.label, from: previous.address, to: resolvedRecipient.address, detectedAt: new Date() }
+        }
+        try {
+          caveats = planAutomationCaveats({ ...automation, resolvedRecipient })
+        } catch (error) {
+          if (!(error instanceof CaveatError)) throw error
+          caveats = undefined
+        }
+        const replanned = automationStorage.update(automation.id, { resolvedRecipient, caveats, recipientChange })
+
+        // The signature covers the old address, so the user has to review and sign again
+        if (recipientChange && !isSimulated) {
+          return NextResponse.json({ 
+            error: `${recipientChange.label} now resolves to ${recipientChange.to} (was ${recipientChange.from}). Review the recipient and sign the delegation again.`,
+            recipientChange,
+            automation: replanned
+          }, { status: 409 })
+        }
+      }
+    }
+
+    // Token caps name the token contract of one chain; a different chain needs a new plan and signature
+    const paysToken = automation.type === 'recurring_payment' && !isNativeCurrency(automation.params.currency || 'ETH', chainId)
+    if (paysToken && automation.chainId !== chainId) {
+      try {
+        caveats = planAutomationCaveats({ ...automation, resolvedRecipient, chainId })
+      } catch (error) {
+        if (error instanceof CaveatError) {
+          return NextResponse.json({ error: error.message }, { status: 400 })
+        }
+        throw error
+      }
+      const replanned = automationStorage.update(automation.id, { caveats, chainId })
+
+      if (!isSimulated) {
+        return NextResponse.json({ 
+          error: `Spending limits were planned for another network. Review the ${automation.params.currency} limits for ${getChainName(chainId)} and sign the delegation again.`,
+          automation: replanned
+        }, { status: 409 })
+      }
+    }
+
+    // Real delegations must carry exactly the caveats planned for this automation
+    if (!isSimulated) {
+      if (!caveats?.length) {
+        return NextResponse.json({ 
+          error: 'Automation has no delegation caveats; refusing an unrestricted delegation' 
+        }, { status: 400 })
+      }
+      const expectedCaveats = buildCaveats(caveats, getDelegatorEnvironment(chainId))
+      if (!caveatsMatch(signedDelegation.caveats, expectedCaveats)) {
+        return NextResponse.json({ 
+          error: 'Signed delegation caveats do not match the planned limits' 
+        }, { status: 400 })
+      }
+    }
+
+    const nextExecution = calculateNextExecution(schedule)
     
-    // Update automation with delegation data
-    const updatedAutomation = automationStorage.update(automationId, {
+    // Update automation with delegation data, unless it left 'pending' while we were verifying
+    const updatedAutomation = automationStorage.updateWith(automationId, current => current.status !== 'pending' ? null : {
       status: 'active',
-      delegationId: signedDelegation.delegationId,
-      transactionHash: transactionHash,
-      delegationData: signedDelegation,
+      delegationId: delegationId,
+      transactionHash: storedHash,
+      transactionBlockNumber: blockNumber,
+      delegationData: verified.delegation,
+      schedule: schedule,
       nextExecution: nextExecution,
+      resolvedRecipient: resolvedRecipient,
+      recipientChange: undefined,
       // Add chain fields
       chainId: chainId,
-      isSimulated: isSimulated
+      isSimulated: isSimulated,
+      walletType: isSimulated ? undefined : (verified.signatureType === 'ecdsa' ? 'eoa' : 'scw'),
+      passkeyId: verified.passkeyId
     })
     
     if (!updatedAutomation) {
       return NextResponse.json({ 
-        error: 'Failed to update automation' 
-      }, { status: 500 })
+        error: 'Automation is no longer pending' 
+      }, { status: 409 })
+    }
+
+    if (verified.passkeyId) {
+      passkeyStorage.markUsed(verified.passkeyId)
     }
 
     // STORE EVENT FOR SIMULATED CHAINS (Monad)
@@ -55,13 +247,14 @@ export async function POST(request: NextRequest) {
           type: automation.type,
           eventType: 'created',
           status: 'active',
-          transactionHash: transactionHash,
+          transactionHash: storedHash,
           chainId: chainId,
           isSimulated: isSimulated,
           params: automation.params,
           details: {
-            delegationId: signedDelegation.delegationId,
-            frequency: automation.params?.frequency
+            delegationId: delegationId,
+            frequency: automation.params?.frequency,
+            schedule: schedule
           }
         });
         console.log(`📝 Stored simulation event for automation ${automationId} on chain ${chainId}`);
@@ -88,17 +281,17 @@ export async function POST(request: NextRequest) {
     }
 
     // Track the delegation transaction if we have a hash
-    if (transactionHash) {
+    if (storedHash) {
       try {
         await trackTransactionInEnvio({
           automationId: automation.id,
           userAddress,
-          transactionHash: transactionHash,
+          transactionHash: storedHash,
           type: 'delegation_created',
           status: 'success',
           timestamp: new Date().toISOString(),
           details: {
-            delegationId: signedDelegation.delegationId,
+            delegationId: delegationId,
             type: automation.type
           },
           chainId: chainId,
@@ -115,17 +308,20 @@ export async function POST(request: NextRequest) {
       user: userAddress,
       chainId: chainId,
       isSimulated: isSimulated,
-      delegationId: signedDelegation.delegationId,
-      transactionHash: transactionHash
+      delegationId: delegationId,
+      transactionHash: storedHash
     })
 
     return NextResponse.json({ 
       success: true,
       message: getSuccessMessage(updatedAutomation, chainId, isSimulated),
       automation: updatedAutomation,
-      transaction: transactionHash ? {
-        hash: transactionHash,
-        explorerUrl: getExplorerUrl(chainId, transactionHash)
+      recipientChange,
+      transaction: storedHash ? {
+        hash: storedHash,
+        blockNumber,
+        isSimulated,
+        explorerUrl: isSimulated ? undefined : getExplorerTxUrl(chainId, storedHash)
       } : undefined
     })
 
@@ -138,52 +334,13 @@ export async function POST(request: NextRequest) {
   }
 }
 
-function calculateNextExecution(frequency: string): Date {
-  const nextExecution = new Date()
-  
-  switch (frequency?.toLowerCase()) {
-    case 'daily':
-      nextExecution.setDate(nextExecution.getDate() + 1)
-      break
-    case 'weekly':
-      nextExecution.setDate(nextExecution.getDate() + 7)
-      break
-    case 'monthly':
-      nextExecution.setMonth(nextExecution.getMonth() + 1)
-      break
-    default:
-      nextExecution.setDate(nextExecution.getDate() + 7)
-  }
-  
-  return nextExecution
-}
-
-function getExplorerUrl(chainId: number, transactionHash: string): string {
-  switch (chainId) {
-    case 10143: // Monad
-      return `https://testnet.monadexplorer.com/tx/${transactionHash}`
-    case 11155111: // Sepolia
-      return `https://sepolia.etherscan.io/tx/${transactionHash}`
-    case 1: // Ethereum
-      return `https://etherscan.io/tx/${transactionHash}`
-    case 5: // Goerli
-      return `https://goerli.etherscan.io/tx/${transactionHash}`
-    case 137: // Polygon
-      return `https://polygonscan.com/tx/${transactionHash}`
-    case 80001: // Mumbai
-      return `https://mumbai.polygonscan.com/tx/${transactionHash}`
-    default:
-      return `https://etherscan.io/tx/${transactionHash}`
-  }
-}
-
-function getSuccessMessage(automation: any, chainId: number, isSimulated: boolean): string {
+function getSuccessMessage(automation: Automation, chainId: number, isSimulated: boolean): string {
   const chainName = getChainName(chainId)
   const mode = isSimulated ? '(Simulated Delegation)' : '(Real On-Chain Delegation)'
   
   switch (automation.type) {
     case 'recurring_payment':
-      return `Recurring payment activated on ${chainName}! ${mode} I'll send ${automation.params?.amount} ${automation.params?.currency} to ${automation.params?.recipient} ${automation.params?.frequency}.`
+      return `Recurring payment activated on ${chainName}! ${mode} I'll send ${automation.params?.amount} ${automation.params?.currency} to ${formatRecipient(automation)} ${automation.params?.frequency}.`
     case 'reward_claim':
       return `Reward claim automation activated on ${chainName}! ${mode} I'll automatically claim your staking rewards ${automation.params?.frequency}.`
     case 'staking':
@@ -193,16 +350,9 @@ function getSuccessMessage(automation: any, chainId: number, isSimulated: boolea
   }
 }
 
-function getChainName(chainId: number): string {
-  switch (chainId) {
-    case 10143: return 'Monad Testnet'
-    case 11155111: return 'Sepolia'
-    case 1: return 'Ethereum Mainnet'
-    case 5: return 'Goerli'
-    case 137: return 'Polygon'
-    case 80001: return 'Mumbai'
-    default: return `Chain ${chainId}`
-  }
+function formatRecipient(automation: Automation): string {
+  const resolved = automation.resolvedRecipient
+  return resolved && resolved.source !== 'address' ? `${resolved.label} (${resolved.address})` : automation.params.recipient || 'the recipient'
 }
 
 // Check delegation status on-chain
@@ -210,11 +360,14 @@ export async function GET(request: NextRequest) {
   try {
     const { searchParams } = new URL(request.url)
     const automationId = searchParams.get('id')
-    const userAddress = searchParams.get('user')
-    
-    if (!automationId || !userAddress) {
+    const userAddress = getSessionAddress(request)
+    if (!userAddress) {
+      return NextResponse.json({ error: 'Not signed in' }, { status: 401 })
+    }
+
+    if (!automationId) {
       return NextResponse.json({ 
-        error: 'Automation ID and user address are required' 
+        error: 'Automation ID is required' 
       }, { status: 400 })
     }
 
@@ -227,10 +380,23 @@ export async function GET(request: NextRequest) {
       }, { status: 404 })
     }
 
+    // Real delegations can be disabled outside the app, so read the DelegationManager
+    let onChainActive = !!automation.delegationId && automation.status !== 'revoked'
+    if (onChainActive && !automation.isSimulated && automation.chainId) {
+      try {
+        onChainActive = await delegationService.checkDelegationStatus(automation.delegationId as string, automation.chainId)
+        if (!onChainActive) {
+          automationStorage.revoke(automation.id, { isSimulated: false, reason: 'disabled_on_chain' })
+        }
+      } catch (error) {
+        console.warn('Failed to read on-chain delegation status:', error)
+      }
+    }
+
     return NextResponse.json({ 
-      automation,
+      automation: automationStorage.getByUser(userAddress).find(auto => auto.id === automationId),
       isConfirmed: automation.status === 'active',
-      onChainActive: !!automation.delegationId
+      onChainActive
     })
 
   } catch (error) {
@@ -0,0 +1,78 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { automationStorage } from '@/lib/automation'
+import { DelegationService } from '@/lib/delegation-service'
+import { getSessionAddress } from '@/lib/auth'
+
+const delegationService = new DelegationService()
+
+// Record a delegation revocation. Real delegations must already be disabled
+// on chain by the delegator's wallet; simulated ones are revoked here.
+export async function POST(request: NextRequest) {
+  try {
+    const userAddress = getSessionAddress(request)
+    if (!userAddress) {
+      return NextResponse.json({ error: 'Not signed in' }, { status: 401 })
+    }
+
+    const { automationId, transactionHash } = await request.json()
+
+    if (!automationId) {
+      return NextResponse.json({ 
+        error: 'Automation ID is required' 
+      }, { status: 400 })
+    }
+
+    const automation = automationStorage.getByUser(userAddress).find(auto => auto.id === automationId)
+
+    if (!automation) {
+      return NextResponse.json({ 
+        error: 'Automation not found or access denied' 
+      }, { status: 404 })
+    }
+
+    if (automation.status === 'revoked') {
+      return NextResponse.json({ 
+        error: 'Automation is already revoked' 
+      }, { status: 409 })
+    }
+
+    const hasRealDelegation = !automation.isSimulated && !!automation.delegationId && !!automation.chainId
+    if (hasRealDelegation) {
+      let active: boolean
+      try {
+        active = await delegationService.checkDelegationStatus(automation.delegationId as string, automation.chainId as number)
+      } catch (error) {
+        console.error('Failed to read delegation status:', error)
+        return NextResponse.json({ 
+          error: 'Could not verify the delegation status on chain' 
+        }, { status: 502 })
+      }
+
+      if (active) {
+        return NextResponse.json({ 
+          error: 'Delegation is still enabled on chain. Disable it from your wallet first.' 
+        }, { status: 409 })
+      }
+    }
+
+    const revoked = automationStorage.revoke(automationId, {
+      transactionHash,
+      isSimulated: automation.isSimulated,
+    })
+
+    return NextResponse.json({ 
+      success: true,
+      automation: revoked,
+      message: hasRealDelegation
+        ? 'Delegation disabled on chain. Automation revoked.'
+        : 'Automation revoked.'
+    })
+
+  } catch (error) {
+    console.error('Failed to revoke automation:', error)
+    return NextResponse.json(
+      { error: 'Failed to revoke automation' },
+      { status: 500 }
+    )
+  }
+}
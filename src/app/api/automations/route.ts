@@ -1,13 +1,16 @@
 import { NextRequest, NextResponse } from 'next/server'
 import { automationStorage } from '@/lib/automation'
+import { getSessionAddress } from '@/lib/auth'
+import { planAutomationCaveats, CaveatError, type CaveatSpec } from '@/lib/caveats'
+import { validateAutomationInput, AutomationValidationError } from '@/lib/automation-schema'
+import { describeAutomation } from '@/lib/automation-updates'
+import { tryResolveRecipient, RecipientResolutionError, type RecipientResolution } from '@/lib/recipients'
 
 export async function GET(request: NextRequest) {
   try {
-    const { searchParams } = new URL(request.url)
-    const userAddress = searchParams.get('user')
-    
+    const userAddress = getSessionAddress(request)
     if (!userAddress) {
-      return NextResponse.json({ error: 'User address is required' }, { status: 400 })
+      return NextResponse.json({ error: 'Not signed in' }, { status: 401 })
     }
 
     const automations = automationStorage.getByUser(userAddress)
@@ -29,23 +32,64 @@ export async function GET(request: NextRequest) {
 // Optional: Add POST method to create automations directly via API
 export async function POST(request: NextRequest) {
   try {
-    const { type, description, params, userAddress } = await request.json()
+    const userAddress = getSessionAddress(request)
+    if (!userAddress) {
+      return NextResponse.json({ error: 'Not signed in' }, { status: 401 })
+    }
 
-    if (!type || !description || !userAddress) {
-      return NextResponse.json({ error: 'Type, description, and userAddress are required' }, { status: 400 })
+    let input
+    try {
+      input = validateAutomationInput(await request.json())
+    } catch (error) {
+      if (error instanceof AutomationValidationError) {
+        return NextResponse.json({ error: 'Invalid automation', errors: error.errors }, { status: 400 })
+      }
+      throw error
+    }
+    const { type, params, chainId } = input
+    const description = input.description || describeAutomation(input)
+
+    // ENS names and contacts are resolved now and checked again at confirmation
+    let resolvedRecipient: RecipientResolution | undefined
+    if (type === 'recurring_payment' && 'recipient' in params) {
+      try {
+        resolvedRecipient = await tryResolveRecipient(params.recipient, userAddress)
+      } catch (error) {
+        if (error instanceof RecipientResolutionError) {
+          return NextResponse.json({ 
+            error: 'Invalid automation', 
+            errors: [{ field: 'params.recipient', message: error.message }] 
+          }, { status: 400 })
+        }
+        throw error
+      }
+    }
+
+    // Plan delegation caveats up front so they can be reviewed before signing
+    let caveats: CaveatSpec[] | undefined
+    let caveatWarning: string | undefined
+    try {
+      caveats = planAutomationCaveats({ type, params, resolvedRecipient, chainId, userAddress })
+    } catch (error) {
+      if (!(error instanceof CaveatError)) throw error
+      caveatWarning = `Real delegation unavailable: ${error.message}`
     }
 
     const automation = automationStorage.create({
       type,
       description,
       status: 'pending',
-      params: params || {},
+      params,
+      caveats,
+      resolvedRecipient,
+      chainId,
       userAddress,
     })
 
     return NextResponse.json({ 
       success: true,
       automation,
+      caveatWarning,
       message: 'Automation created successfully'
     })
 
@@ -63,10 +107,28 @@ export async function DELETE(request: NextRequest) {
   try {
     const { searchParams } = new URL(request.url)
     const automationId = searchParams.get('id')
-    const userAddress = searchParams.get('user')
-    
-    if (!automationId || !userAddress) {
-      return NextResponse.json({ error: 'Automation ID and user address are required' }, { status: 400 })
+    const userAddress = getSessionAddress(request)
+    if (!userAddress) {
+      return NextResponse.json({ error: 'Not signed in' }, { status: 401 })
+    }
+
+    if (!automationId) {
+      return NextResponse.json({ error: 'Automation ID is required' }, { status: 400 })
+    }
+
+    const automation = automationStorage.getByUser(userAddress).find(auto => auto.id === automationId)
+    if (!automation) {
+      return NextResponse.json({ error: 'Automation not found' }, { status: 404 })
+    }
+
+    // A signed delegation outlives the record, so it has to be revoked first
+    if (automation.delegationId && automation.status !== 'revoked') {
+      if (!automation.isSimulated) {
+        return NextResponse.json({ 
+          error: 'Revoke the on-chain delegation before deleting this automation' 
+        }, { status: 409 })
+      }
+      automationStorage.revoke(automationId, { isSimulated: true, reason: 'deleted' })
     }
 
     const success = automationStorage.delete(automationId, userAddress)
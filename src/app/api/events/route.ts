@@ -1,24 +1,23 @@
 import { NextRequest, NextResponse } from 'next/server'
 import { eventStorage } from '@/lib/automation'
+import { getSessionAddress } from '@/lib/auth'
 
 export async function GET(request: NextRequest) {
   try {
     const { searchParams } = new URL(request.url)
-    const userAddress = searchParams.get('userAddress')
+    const userAddress = getSessionAddress(request)
     const chainId = searchParams.get('chainId')
     
     if (!userAddress) {
-      return NextResponse.json({ error: 'User address is required' }, { status: 400 })
+      return NextResponse.json({ success: false, error: 'Not signed in' }, { status: 401 })
     }
 
     console.log(`🔍 API: Getting events for user ${userAddress}, chain ${chainId}`)
     
-    // Get events from server-side storage
-    let events;
+    // Get the caller's own events from server-side storage
+    let events = eventStorage.getByUser(userAddress);
     if (chainId) {
-      events = eventStorage.getByChain(parseInt(chainId));
-    } else {
-      events = eventStorage.getByUser(userAddress);
+      events = events.filter(event => event.chainId === parseInt(chainId));
     }
 
     console.log(`📊 API: Found ${events.length} events for user ${userAddress}`)
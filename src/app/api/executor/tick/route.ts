@@ -0,0 +1,41 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { runExecutorTick } from '@/lib/executor'
+
+/**
+ * Run one executor tick. Intended for schedulers on serverless hosts
+ * (Netlify scheduled functions, Vercel cron) that call this route periodically.
+ */
+async function handleTick(request: NextRequest) {
+  try {
+    const secret = process.env.EXECUTOR_CRON_SECRET
+    if (!secret) {
+      return NextResponse.json({ error: 'Executor cron secret not configured' }, { status: 500 })
+    }
+
+    if (request.headers.get('authorization') !== `Bearer ${secret}`) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 })
+    }
+
+    const result = await runExecutorTick()
+
+    return NextResponse.json({
+      success: true,
+      ...result
+    })
+
+  } catch (error) {
+    console.error('Executor tick failed:', error)
+    return NextResponse.json(
+      { error: 'Failed to run executor tick' },
+      { status: 500 }
+    )
+  }
+}
+
+export async function GET(request: NextRequest) {
+  return handleTick(request)
+}
+
+export async function POST(request: NextRequest) {
+  return handleTick(request)
+}
@@ -0,0 +1,50 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { getSessionAddress } from '@/lib/auth'
+import { DEFAULT_CHAIN_ID } from '@/lib/chains'
+import { serverEnvioTracker } from '@/lib/envio-server'
+import { EnvioQueryError } from '@/lib/envio-tracker'
+
+const MAX_PAGE_SIZE = 100
+
+// Indexed transaction history (or automation events with kind=automations) for the
+// signed-in user. Served from the cache; stale chains sync in the background.
+export async function GET(request: NextRequest) {
+  try {
+    const userAddress = getSessionAddress(request)
+    if (!userAddress) {
+      return NextResponse.json({ error: 'Not signed in' }, { status: 401 })
+    }
+
+    const { searchParams } = new URL(request.url)
+    const chainIds = (searchParams.get('chainIds') || '')
+      .split(',')
+      .map(id => Number(id.trim()))
+      .filter(Boolean)
+    const limit = Math.min(Number(searchParams.get('limit')) || 20, MAX_PAGE_SIZE)
+    const offset = Math.max(Number(searchParams.get('offset')) || 0, 0)
+    const order = searchParams.get('order') === 'asc' ? 'asc' : 'desc'
+
+    if (searchParams.get('kind') === 'automations') {
+      const automationEvents = await serverEnvioTracker.getAutomationHistory(userAddress, chainIds[0], limit)
+      return NextResponse.json({ success: true, automationEvents })
+    }
+
+    const { transactions, total, syncing } = await serverEnvioTracker.getIndexedTransactionHistory(
+      userAddress,
+      chainIds.length ? chainIds : [DEFAULT_CHAIN_ID],
+      { limit, offset, order }
+    )
+
+    return NextResponse.json({ success: true, transactions, total, limit, offset, syncing })
+
+  } catch (error) {
+    if (error instanceof EnvioQueryError) {
+      return NextResponse.json({ error: error.message }, { status: 502 })
+    }
+    console.error('Failed to load history:', error)
+    return NextResponse.json(
+      { error: 'Failed to load history' },
+      { status: 500 }
+    )
+  }
+}
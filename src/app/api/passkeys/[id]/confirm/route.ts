@@ -0,0 +1,61 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { getSessionAddress } from '@/lib/auth'
+import { getChainClientFactory, ChainClientError } from '@/lib/chain-clients'
+import { isPasskeyOnAccount, passkeyStorage } from '@/lib/passkeys'
+
+// Mark a passkey revoked once its removeKey call has taken it off the smart account
+export async function POST(request: NextRequest, { params }: { params: Promise<{ id: string }> }) {
+  try {
+    const userAddress = getSessionAddress(request)
+    if (!userAddress) {
+      return NextResponse.json({ error: 'Not signed in' }, { status: 401 })
+    }
+
+    const { id } = await params
+    const body = await request.json().catch(() => null)
+    const chainId = body?.chainId
+    if (!Number.isInteger(chainId) || chainId <= 0) {
+      return NextResponse.json({ 
+        error: 'Invalid passkey confirmation',
+        errors: [{ field: 'chainId', message: 'must be a positive integer' }]
+      }, { status: 400 })
+    }
+
+    const passkey = passkeyStorage.getByUser(userAddress).find(key => key.id === id)
+    if (!passkey) {
+      return NextResponse.json({ error: 'Passkey not found' }, { status: 404 })
+    }
+    if (!passkey.removalRequestedAt && !passkey.revokedAt) {
+      return NextResponse.json({ error: 'Revoke the passkey before confirming its removal' }, { status: 409 })
+    }
+
+    let publicClient
+    try {
+      publicClient = getChainClientFactory().getPublicClient(chainId)
+    } catch (error) {
+      if (error instanceof ChainClientError) {
+        return NextResponse.json({ error: error.message }, { status: 400 })
+      }
+      throw error
+    }
+
+    // Until removeKey is mined the passkey can still sign for the account
+    if (await isPasskeyOnAccount(publicClient, userAddress, passkey)) {
+      return NextResponse.json({ 
+        error: 'Passkey is still a signer on your smart account; send the removeKey transaction first' 
+      }, { status: 409 })
+    }
+
+    return NextResponse.json({
+      success: true,
+      passkey: passkeyStorage.revoke(id, userAddress),
+    })
+
+  } catch (error) {
+    console.error('Failed to confirm passkey removal:', error)
+    return NextResponse.json(
+      { error: 'Failed to confirm passkey removal' },
+      { status: 500 }
+    )
+  }
+}
@@ -0,0 +1,43 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { automationStorage } from '@/lib/automation'
+import { getSessionAddress } from '@/lib/auth'
+import { getRemoveKeyCall, passkeyStorage } from '@/lib/passkeys'
+
+// Start revoking a passkey session key: stop accepting it, revoke the automations
+// it approved and hand back the removeKey call. The key is reported revoked by
+// /api/passkeys/[id]/confirm once the call is mined.
+export async function DELETE(request: NextRequest, { params }: { params: Promise<{ id: string }> }) {
+  try {
+    const userAddress = getSessionAddress(request)
+    if (!userAddress) {
+      return NextResponse.json({ error: 'Not signed in' }, { status: 401 })
+    }
+
+    const { id } = await params
+    const passkey = passkeyStorage.requestRemoval(id, userAddress)
+    if (!passkey) {
+      return NextResponse.json({ error: 'Passkey not found' }, { status: 404 })
+    }
+
+    // Their delegations stop validating once the key is removed from the account; stop running them now
+    const revokedAutomations = automationStorage.getByUser(userAddress)
+      .filter(auto => auto.passkeyId === id && auto.status !== 'revoked' && auto.status !== 'completed')
+      .map(auto => automationStorage.revoke(auto.id, { reason: 'passkey_revoked' })?.id)
+      .filter(Boolean)
+
+    return NextResponse.json({
+      success: true,
+      passkey,
+      revokedAutomations,
+      // Sent from the user's smart account to remove the key on chain
+      removeKeyCall: getRemoveKeyCall(userAddress, passkey),
+    })
+
+  } catch (error) {
+    console.error('Failed to revoke passkey:', error)
+    return NextResponse.json(
+      { error: 'Failed to revoke passkey' },
+      { status: 500 }
+    )
+  }
+}
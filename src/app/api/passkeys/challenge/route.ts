@@ -0,0 +1,21 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { getSessionAddress } from '@/lib/auth'
+import { createPasskeyChallenge } from '@/lib/passkeys'
+
+// Issue a challenge for a new passkey to sign during registration
+export async function POST(request: NextRequest) {
+  try {
+    const userAddress = getSessionAddress(request)
+    if (!userAddress) {
+      return NextResponse.json({ error: 'Not signed in' }, { status: 401 })
+    }
+
+    return NextResponse.json({ challenge: createPasskeyChallenge(userAddress) })
+  } catch (error) {
+    console.error('Failed to create passkey challenge:', error)
+    return NextResponse.json(
+      { error: 'Failed to create passkey challenge' },
+      { status: 500 }
+    )
+  }
+}
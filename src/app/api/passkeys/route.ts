@@ -0,0 +1,76 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { isHex } from 'viem'
+import { getSessionAddress } from '@/lib/auth'
+import { getAddKeyCall, passkeyStorage, registerPasskey, PasskeyError } from '@/lib/passkeys'
+import type { FieldError } from '@/lib/automation-schema'
+
+// List the signed-in user's passkey session keys, including revoked ones
+export async function GET(request: NextRequest) {
+  try {
+    const userAddress = getSessionAddress(request)
+    if (!userAddress) {
+      return NextResponse.json({ error: 'Not signed in' }, { status: 401 })
+    }
+
+    const passkeys = passkeyStorage.getByUser(userAddress)
+    return NextResponse.json({ passkeys, total: passkeys.length })
+
+  } catch (error) {
+    console.error('Failed to fetch passkeys:', error)
+    return NextResponse.json(
+      { error: 'Failed to fetch passkeys' },
+      { status: 500 }
+    )
+  }
+}
+
+// Register a passkey that signed a challenge from /api/passkeys/challenge
+export async function POST(request: NextRequest) {
+  try {
+    const userAddress = getSessionAddress(request)
+    if (!userAddress) {
+      return NextResponse.json({ error: 'Not signed in' }, { status: 401 })
+    }
+
+    const { credentialId, publicKey, label, challenge, signature, webauthn } = await request.json()
+
+    const errors: FieldError[] = []
+    if (typeof credentialId !== 'string' || !/^[A-Za-z0-9_-]+$/.test(credentialId)) {
+      errors.push({ field: 'credentialId', message: 'must be a base64url credential id' })
+    }
+    if (typeof publicKey !== 'string' || !isHex(publicKey) || ![64, 65].includes((publicKey.length - 2) / 2)) {
+      errors.push({ field: 'publicKey', message: 'must be a hex P-256 public key' })
+    }
+    if (label !== undefined && (typeof label !== 'string' || label.trim().length > 64)) {
+      errors.push({ field: 'label', message: 'must be at most 64 characters' })
+    }
+    if (typeof challenge !== 'string' || !isHex(challenge)) {
+      errors.push({ field: 'challenge', message: 'is required' })
+    }
+    if (typeof signature !== 'string' || !isHex(signature) || !webauthn || typeof webauthn !== 'object') {
+      errors.push({ field: 'signature', message: 'a WebAuthn assertion is required' })
+    }
+    if (errors.length) {
+      return NextResponse.json({ error: 'Invalid passkey registration', errors }, { status: 400 })
+    }
+
+    const passkey = await registerPasskey(
+      userAddress,
+      { credentialId, publicKey, label: label?.trim() || 'Passkey', challenge, assertion: { signature, webauthn } },
+      { id: request.nextUrl.hostname, origin: request.nextUrl.origin }
+    )
+
+    // The passkey only signs for the account once the account adds it as a key
+    return NextResponse.json({ success: true, passkey, addKeyCall: getAddKeyCall(userAddress, passkey) })
+
+  } catch (error) {
+    if (error instanceof PasskeyError) {
+      return NextResponse.json({ error: error.message }, { status: 400 })
+    }
+    console.error('Failed to register passkey:', error)
+    return NextResponse.json(
+      { error: 'Failed to register passkey' },
+      { status: 500 }
+    )
+  }
+}
@@ -1,8 +1,13 @@
 'use client'
 
 import { useState, useRef, useEffect } from 'react'
-import { useAccount, useWalletClient, useChainId } from 'wagmi'
+import { useAccount, useWalletClient, useChainId, usePublicClient } from 'wagmi'
 import { DelegationService } from '@/lib/delegation-service'
+import { useSiweSession } from '@/lib/siwe-session'
+import { getActivePasskey } from '@/lib/passkey-signer'
+import { ADAPTER_OPTIONS } from '@/lib/protocol-adapters'
+import { getAdapterId, type AdapterId } from '@/lib/automation-schema'
+import { getChainName, getExplorerTxUrl, isSimulatedTransactionHash, isSimulationChain, supportsDelegation } from '@/lib/chains'
 
 interface Message {
   role: 'user' | 'assistant'
@@ -11,6 +16,7 @@ interface Message {
   pending?: boolean
   automation?: any
   requiresConfirmation?: boolean
+  caveatWarning?: string
 }
 
 export default function ChatBox() {
@@ -25,8 +31,12 @@ export default function ChatBox() {
   const [isLoading, setIsLoading] = useState(false)
   const { address, isConnected } = useAccount()
   const { data: walletClient } = useWalletClient()
+  const publicClient = usePublicClient()
   const chainId = useChainId()
+  const { isSignedIn, signIn } = useSiweSession()
   const messagesEndRef = useRef<HTMLDivElement>(null)
+  // Lets the parser keep a partial automation across follow-up answers
+  const [sessionId] = useState(() => crypto.randomUUID())
 
   const scrollToBottom = () => {
     messagesEndRef.current?.scrollIntoView({ behavior: "smooth" })
@@ -36,6 +46,29 @@ export default function ChatBox() {
     scrollToBottom()
   }, [messages])
 
+  // Pending automations can be re-confirmed from the dashboard (e.g. after a recipient change)
+  useEffect(() => {
+    const handleConfirmRequest = (event: Event) => {
+      const automation = (event as CustomEvent).detail
+      if (!automation?.id) return
+      setMessages(prev => [
+        ...prev.filter(msg => msg.automation?.id !== automation.id),
+        {
+          role: 'assistant',
+          content: automation.recipientChange
+            ? `${automation.recipientChange.label} now points to ${automation.recipientChange.to}. Confirm to sign a delegation for the new address.`
+            : `Confirm to sign a new delegation for: ${automation.description}`,
+          timestamp: new Date(),
+          automation,
+          requiresConfirmation: true,
+        }
+      ])
+    }
+
+    window.addEventListener('confirmAutomation', handleConfirmRequest)
+    return () => window.removeEventListener('confirmAutomation', handleConfirmRequest)
+  }, [])
+
   // Debug wallet connection status
   useEffect(() => {
     console.log('🔗 Wallet connection status:', {
@@ -46,16 +79,17 @@ export default function ChatBox() {
     })
   }, [isConnected, address, walletClient, chainId])
 
-  const getChainName = (chainId: number): string => {
-    switch (chainId) {
-      case 10143: return 'Monad Testnet'
-      case 11155111: return 'Sepolia'
-      case 1: return 'Ethereum Mainnet'
-      case 5: return 'Goerli'
-      case 137: return 'Polygon'
-      case 80001: return 'Mumbai'
-      default: return `Chain ${chainId}`
-    }
+  // Simulated hashes are labelled as such and never linked to an explorer
+  const renderTransaction = (transactionHash: string, txChainId: number) => {
+    if (isSimulatedTransactionHash(transactionHash)) return 'Tx: simulated (not on chain)'
+    const explorerUrl = getExplorerTxUrl(txChainId, transactionHash)
+    const label = `Tx: ${transactionHash.slice(0, 8)}...`
+    return explorerUrl ? <a href={explorerUrl} target="_blank" rel="noopener noreferrer">{label}</a> : label
+  }
+
+  // IANA timezone used to interpret schedules like "every Friday at 2 PM"
+  const getUserTimezone = (): string => {
+    return Intl.DateTimeFormat().resolvedOptions().timeZone || 'UTC'
   }
 
   const handleSend = async () => {
@@ -72,6 +106,16 @@ export default function ChatBox() {
     setIsLoading(true)
 
     try {
+      // Automations belong to the signed-in wallet
+      if (!isSignedIn && !(await signIn())) {
+        setMessages(prev => [...prev, {
+          role: 'assistant',
+          content: "🔐 Please connect your wallet and sign in so I can set up automations for you.",
+          timestamp: new Date()
+        }])
+        return
+      }
+
       const response = await fetch('/api/ai/parse', {
         method: 'POST',
         headers: {
@@ -79,7 +123,9 @@ export default function ChatBox() {
         },
         body: JSON.stringify({
           message: input,
-          userAddress: address
+          sessionId,
+          chainId,
+          timezone: getUserTimezone()
         }),
       })
 
@@ -90,7 +136,8 @@ export default function ChatBox() {
         content: data.message,
         timestamp: new Date(),
         automation: data.automation,
-        requiresConfirmation: data.requiresConfirmation
+        requiresConfirmation: data.requiresConfirmation,
+        caveatWarning: data.caveatWarning
       }
 
       setMessages(prev => [...prev, assistantMessage])
@@ -112,6 +159,31 @@ export default function ChatBox() {
     }
   }
 
+  // Switch the protocol adapter of a reward claim or staking automation before signing
+  const handleAdapterChange = async (automationId: string, adapter: AdapterId) => {
+    try {
+      const response = await fetch(`/api/automations/${automationId}`, {
+        method: 'PATCH',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ adapter })
+      })
+      const data = await response.json()
+      setMessages(prev => prev.map(msg => {
+        if (msg.automation?.id !== automationId) return msg
+        if (!response.ok) {
+          return { ...msg, caveatWarning: data.errors?.length ? data.errors.map((e: { field: string; message: string }) => `${e.field} ${e.message}`).join(', ') : data.error }
+        }
+        return {
+          ...msg,
+          automation: data.automation,
+          caveatWarning: data.automation.caveats?.length ? undefined : 'Real delegation unavailable until the contract address is set'
+        }
+      }))
+    } catch (error) {
+      console.error('Failed to change adapter:', error)
+    }
+  }
+
   const handleConfirmAutomation = async (automationId: string) => {
     try {
       console.log('🔄 Starting automation confirmation...', {
@@ -148,6 +220,10 @@ export default function ChatBox() {
         throw new Error('Wallet client not available. Please refresh the page and try again.')
       }
 
+      if (!isSignedIn && !(await signIn())) {
+        throw new Error('Sign-in required. Please sign the login message in your wallet.')
+      }
+
       console.log(' Wallet validation passed:', {
         address,
         chainId,
@@ -164,14 +240,19 @@ export default function ChatBox() {
       console.log('📋 Automation details:', automation)
   
       const delegationService = new DelegationService()
+      // Smart accounts with a registered passkey approve without a wallet prompt
+      const passkey = await getActivePasskey()
       
       console.log('🏗️ Creating delegation...')
-      // Create and submit delegation on client side with current chain
+      // Create and submit delegation on client side with current chain; counterfactual
+      // smart accounts are deployed from the wallet before the server sees the delegation
       const delegationResult = await delegationService.setupAutomationDelegation(
         automation, 
         walletClient, 
         address,
-        chainId
+        chainId,
+        { passkeyCredentialId: passkey?.credentialId },
+        { publicClient }
       )
       
       console.log('📦 Delegation result:', delegationResult)
@@ -182,7 +263,7 @@ export default function ChatBox() {
         
         if (delegationResult.isSimulated) {
           if (delegationResult.walletType === 'scw') {
-            userMessage = `🔒 Smart Contract Wallet Detected\n\nYour wallet appears to be a smart contract wallet. These currently work in simulation mode only.\n\nFor real on-chain automations with actual fund movements, please use an EOA wallet like MetaMask, Rainbow, or Trust Wallet.\n\nYour automation is active in simulation mode for testing.`;
+            userMessage = delegationResult.userMessage || `🔒 Smart Contract Wallet Detected\n\nSmart contract wallet automations are not configured on this deployment.\n\nYour automation is active in simulation mode for testing.`;
           } else {
             userMessage = `🧪 Simulation Mode\n\nYour automation is running in simulation mode. This is perfect for testing! To enable real on-chain execution, ensure you're using a supported wallet and network.`;
           }
@@ -207,6 +288,10 @@ export default function ChatBox() {
         ));
       }
   
+      if (!delegationResult.success) {
+        throw new Error(delegationResult.error || 'Failed to create delegation')
+      }
+
       console.log('📡 Sending delegation to server...')
       // Send signed delegation to server for storage and tracking
       const response = await fetch('/api/automations/confirm', {
@@ -216,16 +301,25 @@ export default function ChatBox() {
         },
         body: JSON.stringify({
           automationId,
-          userAddress: address,
           signedDelegation: delegationResult.delegation,
           transactionHash: delegationResult.transactionHash,
           chainId: delegationResult.chainId,
-          isSimulated: delegationResult.isSimulated
+          timezone: getUserTimezone()
         }),
       })
   
       const data = await response.json()
       console.log(' Server response:', data)
+
+      // The recipient or network changed the planned limits; show them and let the user sign again
+      if (response.status === 409 && data.automation) {
+        setMessages(prev => prev.map(msg => 
+          msg.automation?.id === automationId 
+            ? { ...msg, content: `⚠️ ${data.error}`, pending: false, requiresConfirmation: true, automation: data.automation }
+            : msg
+        ))
+        return
+      }
   
       if (data.success) {
         const chainName = getChainName(chainId);
@@ -233,6 +327,8 @@ export default function ChatBox() {
         
         if (delegationResult.isSimulated) {
           mode = ' (Simulation Mode)';
+        } else if (delegationResult.walletType === 'scw') {
+          mode = ' (Real On-Chain Delegation via Smart Account)';
         } else if ((delegationResult as any).usedWalletConnect) {
           mode = ' (Real On-Chain Delegation via WalletConnect)';
         } else {
@@ -343,8 +439,8 @@ export default function ChatBox() {
         <div className="network-status">
           <span className="network-label">Current Network:</span>
           <span className="network-name">{getChainName(chainId)}</span>
-          {chainId === 10143 && <span className="network-badge simulation">🔧 Simulation Mode</span>}
-          {(chainId === 11155111 || chainId === 1) && <span className="network-badge real">🔗 Real Delegation</span>}
+          {isSimulationChain(chainId) && <span className="network-badge simulation">🔧 Simulation Mode</span>}
+          {supportsDelegation(chainId) && <span className="network-badge real">🔗 Real Delegation</span>}
         </div>
         {isConnected && address && (
           <div className="wallet-info">
@@ -397,10 +493,38 @@ export default function ChatBox() {
                     )}
                     {message.automation.transactionHash && (
                       <div className="transaction-info">
-                        Tx: {message.automation.transactionHash.slice(0, 8)}...
+                        {renderTransaction(message.automation.transactionHash, message.automation.chainId || chainId)}
                       </div>
                     )}
                   </div>
+                  {message.automation.caveats?.length > 0 && (
+                    <div className="automation-caveats">
+                      <span className="caveats-label">Delegation limits:</span>
+                      <ul>
+                        {message.automation.caveats.map((caveat: { description: string }, i: number) => (
+                          <li key={i}>🛡️ {caveat.description}</li>
+                        ))}
+                      </ul>
+                    </div>
+                  )}
+                  {message.requiresConfirmation && !message.pending && ['reward_claim', 'staking'].includes(message.automation.type) && (
+                    <label className="adapter-picker">
+                      <span className="caveats-label">Protocol adapter:</span>
+                      <select
+                        value={getAdapterId(message.automation.type, message.automation.params || {})}
+                        onChange={(e) => handleAdapterChange(message.automation.id, e.target.value as AdapterId)}
+                      >
+                        {ADAPTER_OPTIONS.map(option => (
+                          <option key={option.id} value={option.id} title={option.description}>
+                            {option.name}
+                          </option>
+                        ))}
+                      </select>
+                    </label>
+                  )}
+                  {message.caveatWarning && (
+                    <p className="caveat-warning">⚠️ {message.caveatWarning}</p>
+                  )}
                 </div>
               )}
 
@@ -658,6 +782,41 @@ export default function ChatBox() {
           margin-right: 0.5rem;
         }
 
+        .automation-caveats {
+          font-size: 0.7rem;
+          margin-top: 0.5rem;
+        }
+
+        .automation-caveats ul {
+          list-style: none;
+          padding: 0;
+          margin: 0.25rem 0 0;
+        }
+
+        .caveats-label {
+          font-weight: 600;
+        }
+
+        .adapter-picker {
+          display: flex;
+          align-items: center;
+          gap: 0.5rem;
+          font-size: 0.7rem;
+          margin-top: 0.5rem;
+        }
+
+        .adapter-picker select {
+          font-size: 0.7rem;
+          padding: 0.15rem 0.4rem;
+          border-radius: var(--radius-sm);
+        }
+
+        .caveat-warning {
+          font-size: 0.7rem;
+          color: var(--color-warning);
+          margin: 0.5rem 0 0;
+        }
+
         .status-badge {
           font-weight: 600;
           padding: 0.125rem 0.375rem;
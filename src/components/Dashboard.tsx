@@ -1,15 +1,22 @@
 'use client'
 
-import { useAccount, useBalance, useChainId, useConfig } from 'wagmi'
-import { monadTestnet } from '@/lib/wagmi-config'
+import { useAccount, useBalance, useChainId, usePublicClient, useWalletClient } from 'wagmi'
+import { DEFAULT_CHAIN_ID, monadTestnet, getChainName } from '@/lib/chains'
 import { useState, useEffect } from 'react'
-import { Automation } from '@/lib/automation'
-import { getTransactionHistoryFromEnvio, getAutomationHistoryFromEnvio } from '@/lib/envio-tracker'
+import type { Automation } from '@/lib/automation'
+import { DelegationService } from '@/lib/delegation-service'
+import { useSiweSession } from '@/lib/siwe-session'
+import { listPasskeys, registerPasskey, revokePasskey, type PasskeySummary } from '@/lib/passkey-signer'
+
+// How often the history panel reloads while the server is still indexing
+const HISTORY_SYNC_POLL_MS = 5000
 
 export default function Dashboard() {
   const { address } = useAccount()
   const chainId = useChainId()
-  const config = useConfig()
+  const { data: walletClient } = useWalletClient()
+  const publicClient = usePublicClient()
+  const { isSignedIn, isSigningIn, error: signInError, signIn } = useSiweSession()
   const { data: balance } = useBalance({
     address,
     chainId: monadTestnet.id,
@@ -17,21 +24,33 @@ export default function Dashboard() {
   const [showHistory, setShowHistory] = useState(false)
   const [automations, setAutomations] = useState<Automation[]>([])
   const [isLoading, setIsLoading] = useState(true)
+  const [revokingId, setRevokingId] = useState<string | null>(null)
+  const [passkeys, setPasskeys] = useState<PasskeySummary[]>([])
+  const [passkeyBusy, setPasskeyBusy] = useState<string | null>(null)
   const [historyData, setHistoryData] = useState<{
     transactions: any[]
     automationEvents: any[]
     isLoading: boolean
+    // The server is still indexing, so newer activity may be missing
+    syncing: boolean
+    error?: string
   }>({
     transactions: [],
     automationEvents: [],
-    isLoading: false
+    isLoading: false,
+    syncing: false
   })
 
   useEffect(() => {
-    if (address) {
+    if (address && isSignedIn) {
       loadUserAutomations()
+      loadPasskeys()
+    } else {
+      setAutomations([])
+      setPasskeys([])
+      setIsLoading(false)
     }
-  }, [address])
+  }, [address, isSignedIn])
 
   useEffect(() => {
     const handleAutomationUpdate = () => {
@@ -50,17 +69,23 @@ export default function Dashboard() {
   }, [showHistory])
 
   useEffect(() => {
-    if (showHistory && address) {
+    if (showHistory && address && isSignedIn) {
       loadHistoryData()
     }
-  }, [showHistory, address])
+  }, [showHistory, address, isSignedIn])
+
+  useEffect(() => {
+    if (!showHistory || !historyData.syncing || historyData.isLoading) return
+    const timer = setTimeout(() => loadHistoryData({ quiet: true }), HISTORY_SYNC_POLL_MS)
+    return () => clearTimeout(timer)
+  }, [showHistory, historyData])
 
   const loadUserAutomations = async () => {
     if (!address) return
     
     setIsLoading(true)
     try {
-      const response = await fetch(`/api/automations?user=${address}`)
+      const response = await fetch('/api/automations')
       if (response.ok) {
         const data = await response.json()
         setAutomations(data.automations || [])
@@ -76,56 +101,152 @@ export default function Dashboard() {
 
   const getUserActiveChains = (): number[] => {
     const chains = [...new Set(automations.map(auto => auto.chainId).filter(Boolean))] as number[]
-    return chains.length > 0 ? chains : [chainId || 10143]
+    return chains.length > 0 ? chains : [chainId || DEFAULT_CHAIN_ID]
   }
 
-  const getChainName = (chainId: number): string => {
-    const chain = config.chains.find(c => c.id === chainId)
-    if (chain) return chain.name
-    
-    switch (chainId) {
-      case 10143: return 'Monad Testnet'
-      case 11155111: return 'Sepolia'
-      case 1: return 'Ethereum'
-      case 137: return 'Polygon'
-      case 42161: return 'Arbitrum'
-      case 10: return 'Optimism'
-      case 8453: return 'Base'
-      default: return `Chain ${chainId}`
+  // History comes from the server's index, synced incrementally per chain in the background
+  const loadIndexedHistory = async (query: string): Promise<any> => {
+    const response = await fetch(`/api/history?${query}`)
+    const data = await response.json().catch(() => ({}))
+    if (!response.ok) {
+      throw new Error(data.error || 'Failed to load history')
     }
+    return data
   }
 
-  const loadHistoryData = async () => {
+  const loadHistoryData = async ({ quiet = false }: { quiet?: boolean } = {}) => {
     if (!address) return
 
-    setHistoryData(prev => ({ ...prev, isLoading: true }))
+    if (!quiet) {
+      setHistoryData(prev => ({ ...prev, isLoading: true, error: undefined }))
+    }
     try {
       const userChains = getUserActiveChains()
-      const currentChainId = chainId || 10143
+      const currentChainId = chainId || DEFAULT_CHAIN_ID
       
       console.log(`🔗 Loading history for chains:`, userChains)
       console.log(`📱 Connected chain: ${currentChainId} (${getChainName(currentChainId)})`)
 
-      const [transactions, automationEvents] = await Promise.all([
-        getTransactionHistoryFromEnvio(address, userChains, 20).catch(error => {
-          console.warn('Failed to load transaction history:', error)
-          return []
-        }),
-        getAutomationHistoryFromEnvio(address, currentChainId, 10).catch(error => {
-          console.warn('Failed to load automation events:', error)
-          return []
-        })
+      // Show whichever half loaded, with the other half's error
+      const [transactions, automationEvents] = await Promise.allSettled([
+        loadIndexedHistory(`chainIds=${userChains.join(',')}&limit=20`),
+        loadIndexedHistory(`kind=automations&chainIds=${currentChainId}&limit=10`)
       ])
+      const errors = [transactions, automationEvents]
+        .filter((result): result is PromiseRejectedResult => result.status === 'rejected')
+        .map(result => result.reason instanceof Error ? result.reason.message : 'Failed to load history')
 
       setHistoryData({
-        transactions: transactions || [],
-        automationEvents: automationEvents || [],
-        isLoading: false
+        transactions: transactions.status === 'fulfilled' ? transactions.value.transactions : [],
+        automationEvents: automationEvents.status === 'fulfilled' ? automationEvents.value.automationEvents : [],
+        isLoading: false,
+        syncing: [transactions, automationEvents].some(result => result.status === 'fulfilled' && result.value.syncing),
+        error: errors.length ? errors.join('. ') : undefined
       })
 
     } catch (error) {
       console.error('Failed to load Envio history data:', error)
-      setHistoryData(prev => ({ ...prev, isLoading: false }))
+      setHistoryData(prev => ({
+        ...prev,
+        isLoading: false,
+        error: error instanceof Error ? error.message : 'Failed to load history'
+      }))
+    }
+  }
+
+  const handleRevoke = async (automation: Automation) => {
+    if (!address) return
+
+    setRevokingId(automation.id)
+    try {
+      // Real delegations are disabled on chain from the delegator's wallet first
+      const result = await new DelegationService().revokeDelegation(automation, walletClient, publicClient)
+      if (!result.success) {
+        console.error('Failed to revoke delegation:', result.error)
+        alert(result.error || 'Failed to revoke delegation')
+        return
+      }
+
+      const response = await fetch('/api/automations/revoke', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({
+          automationId: automation.id,
+          transactionHash: result.isSimulated ? undefined : result.transactionHash
+        })
+      })
+      const data = await response.json()
+      if (!response.ok) {
+        alert(data.error || 'Failed to revoke automation')
+        return
+      }
+
+      window.dispatchEvent(new CustomEvent('automationUpdated'))
+    } catch (error) {
+      console.error('Failed to revoke automation:', error)
+    } finally {
+      setRevokingId(null)
+    }
+  }
+
+  const loadPasskeys = async () => {
+    try {
+      setPasskeys(await listPasskeys())
+    } catch (error) {
+      console.error('Failed to load passkeys:', error)
+    }
+  }
+
+  // Create a device passkey and add it to the smart account as a session key
+  const handleAddPasskey = async () => {
+    if (!address || !walletClient) return
+
+    setPasskeyBusy('new')
+    try {
+      await registerPasskey(walletClient, address)
+      await loadPasskeys()
+    } catch (error) {
+      console.error('Failed to add passkey:', error)
+      alert(error instanceof Error ? error.message : 'Failed to add passkey')
+    } finally {
+      setPasskeyBusy(null)
+    }
+  }
+
+  const handleRevokePasskey = async (passkey: PasskeySummary) => {
+    if (!walletClient || !publicClient) return
+
+    setPasskeyBusy(passkey.id)
+    try {
+      const revoked = await revokePasskey(walletClient, publicClient, passkey.id)
+      if (revoked.length) {
+        window.dispatchEvent(new CustomEvent('automationUpdated'))
+      }
+    } catch (error) {
+      console.error('Failed to revoke passkey:', error)
+      alert(error instanceof Error ? error.message : 'Failed to revoke passkey')
+    } finally {
+      // Shows keys left waiting for removal as well as revoked ones
+      await loadPasskeys()
+      setPasskeyBusy(null)
+    }
+  }
+
+  const handleTogglePause = async (automation: Automation) => {
+    try {
+      const response = await fetch(`/api/automations/${automation.id}`, {
+        method: 'PATCH',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ status: automation.status === 'paused' ? 'active' : 'paused' })
+      })
+      const data = await response.json()
+      if (!response.ok) {
+        alert(data.error || 'Failed to update automation')
+        return
+      }
+      window.dispatchEvent(new CustomEvent('automationUpdated'))
+    } catch (error) {
+      console.error('Failed to update automation:', error)
     }
   }
 
@@ -151,6 +272,8 @@ export default function Dashboard() {
       case 'pending': return { backgroundColor: 'var(--color-warning)', color: 'white' }
       case 'completed': return { backgroundColor: 'var(--color-ocean-200)', color: 'var(--color-ocean-700)' }
       case 'failed': return { backgroundColor: 'var(--color-error)', color: 'white' }
+      case 'paused': return { backgroundColor: 'var(--color-warning)', color: 'white' }
+      case 'revoked': return { backgroundColor: 'var(--color-gray-400)', color: 'white' }
       default: return { backgroundColor: 'var(--color-gray-200)', color: 'var(--color-gray-700)' }
     }
   }
@@ -168,6 +291,8 @@ export default function Dashboard() {
   const getTransactionTypeIcon = (type: string) => {
     switch (type) {
       case 'delegation_created': return '🔐'
+      case 'delegation_enabled': return '🔐'
+      case 'delegation_disabled': return '🛑'
       case 'automation_executed': return '⚡'
       case 'reward_claimed': return '🎁'
       case 'payment_sent': return '💰'
@@ -207,7 +332,7 @@ export default function Dashboard() {
   const pendingAutomations = automations.filter(auto => auto.status === 'pending')
 
   const automationsByChain = automations.reduce((acc, auto) => {
-    const chainId = auto.chainId || 10143
+    const chainId = auto.chainId || DEFAULT_CHAIN_ID
     if (!acc[chainId]) acc[chainId] = []
     acc[chainId].push(auto)
     return acc
@@ -240,6 +365,14 @@ export default function Dashboard() {
             </span>
           </div>
         )}
+        {address && !isSignedIn && (
+          <div className="sign-in-info">
+            <span>{signInError || 'Sign in to view your automations'}</span>
+            <button className="sign-in-btn" onClick={signIn} disabled={isSigningIn}>
+              {isSigningIn ? 'Signing in...' : 'Sign in'}
+            </button>
+          </div>
+        )}
       </div>
 
       {/* Active Automations */}
@@ -303,11 +436,46 @@ export default function Dashboard() {
                     <p className="automation-description">
                       {auto.description}
                     </p>
+                    {auto.resolvedRecipient && auto.resolvedRecipient.source !== 'address' && (
+                      <p className="automation-recipient">
+                        Pays {auto.resolvedRecipient.label} → {auto.resolvedRecipient.address.slice(0, 6)}...{auto.resolvedRecipient.address.slice(-4)}
+                      </p>
+                    )}
+                    {auto.recipientChange && (
+                      <p className="recipient-warning">
+                        ⚠️ {auto.recipientChange.label} now points to {auto.recipientChange.to.slice(0, 6)}...{auto.recipientChange.to.slice(-4)} (was {auto.recipientChange.from.slice(0, 6)}...{auto.recipientChange.from.slice(-4)}). Re-confirm to keep paying it.
+                      </p>
+                    )}
                     <div className="automation-footer">
                       <span>Created: {new Date(auto.createdAt).toLocaleDateString()}</span>
                       {auto.nextExecution && (
                         <span>Next: {new Date(auto.nextExecution).toLocaleDateString()}</span>
                       )}
+                      {auto.status === 'pending' && auto.recipientChange && (
+                        <button
+                          className="pause-btn"
+                          onClick={() => window.dispatchEvent(new CustomEvent('confirmAutomation', { detail: auto }))}
+                        >
+                          Re-confirm
+                        </button>
+                      )}
+                      {(auto.status === 'active' || auto.status === 'paused') && (
+                        <button
+                          className="pause-btn"
+                          onClick={() => handleTogglePause(auto)}
+                        >
+                          {auto.status === 'paused' ? 'Resume' : 'Pause'}
+                        </button>
+                      )}
+                      {auto.status !== 'revoked' && auto.delegationId && (
+                        <button
+                          className="revoke-btn"
+                          onClick={() => handleRevoke(auto)}
+                          disabled={revokingId === auto.id}
+                        >
+                          {revokingId === auto.id ? 'Revoking...' : 'Revoke'}
+                        </button>
+                      )}
                     </div>
                   </div>
                 )
@@ -345,6 +513,49 @@ export default function Dashboard() {
         </div>
       </div>
 
+      {/* Passkey session keys */}
+      {isSignedIn && (
+        <div className="section">
+          <div className="section-header">
+            <h3 className="section-title">Passkeys</h3>
+            <button className="pause-btn" onClick={handleAddPasskey} disabled={!!passkeyBusy}>
+              {passkeyBusy === 'new' ? 'Adding...' : 'Add passkey'}
+            </button>
+          </div>
+          <p className="passkey-hint">
+            Smart account wallets can approve automations with a device passkey instead of a wallet prompt.
+            The passkey becomes a full signer of your smart account, so only add one on a device you trust with the wallet.
+          </p>
+          {passkeys.length > 0 && (
+            <div className="passkey-list">
+              {passkeys.map(passkey => (
+                <div key={passkey.id} className="passkey-item">
+                  <div className="passkey-info">
+                    <span className="passkey-label">🔑 {passkey.label}</span>
+                    <span className="passkey-meta">
+                      Added {new Date(passkey.createdAt).toLocaleDateString()}
+                      {passkey.lastUsedAt && ` · last used ${new Date(passkey.lastUsedAt).toLocaleDateString()}`}
+                      {!passkey.revokedAt && passkey.removalRequestedAt && ' · disabled, still on your smart account'}
+                    </span>
+                  </div>
+                  {passkey.revokedAt ? (
+                    <span className="passkey-meta">Revoked</span>
+                  ) : (
+                    <button
+                      className="revoke-btn"
+                      onClick={() => handleRevokePasskey(passkey)}
+                      disabled={!!passkeyBusy}
+                    >
+                      {passkeyBusy === passkey.id ? 'Revoking...' : passkey.removalRequestedAt ? 'Finish removal' : 'Revoke'}
+                    </button>
+                  )}
+                </div>
+              ))}
+            </div>
+          )}
+        </div>
+      )}
+
       {/* Quick Actions */}
       <div className="section">
         <h3 className="section-title">Quick Actions</h3>
@@ -369,15 +580,29 @@ export default function Dashboard() {
           <div className="history-panel">
             <h4 className="history-title">
               📊 Multi-Chain History
+              {[...historyData.transactions, ...historyData.automationEvents].some(item => item.source === 'demo') && (
+                <span className="demo-badge badge">Demo data</span>
+              )}
             </h4>
 
+            {historyData.error && !historyData.isLoading && (
+              <div className="history-error">
+                <span>⚠️ {historyData.error}</span>
+                <button className="retry-btn" onClick={() => loadHistoryData()}>Retry</button>
+              </div>
+            )}
+
+            {historyData.syncing && !historyData.isLoading && (
+              <div className="empty-subtitle">Indexing recent activity…</div>
+            )}
+
             {historyData.isLoading ? (
               <div className="loading-state">
                 <div className="spinner"></div>
                 Loading history across {getUserActiveChains().length} chains...
               </div>
             ) : historyData.transactions.length === 0 && historyData.automationEvents.length === 0 ? (
-              <div className="empty-history">
+              !historyData.error && <div className="empty-history">
                 <div className="empty-icon">📊</div>
                 <p>No history data yet</p>
                 <p className="empty-subtitle">
@@ -413,10 +638,13 @@ export default function Dashboard() {
                                 </span>
                               </div>
                               <span className="item-value">
-                                {formatValue(tx.value || '0')} ETH
+                                {tx.amount
+                                  ? `${tx.amount} ${tx.symbol || `${tx.token.slice(0, 8)}...`}`
+                                  : `${formatValue(tx.value || '0')} ETH`}
                               </span>
                             </div>
                             <div className="history-item-footer">
+                              {tx.recipient && <span>To {tx.recipient.slice(0, 6)}...{tx.recipient.slice(-4)}</span>}
                               <span>Block #{tx.blockNumber}</span>
                               <span>{new Date(tx.blockTimestamp).toLocaleDateString()}</span>
                             </div>
@@ -714,6 +942,20 @@ export default function Dashboard() {
           line-height: 1.4;
         }
 
+        .automation-recipient {
+          font-size: 0.75rem;
+          color: var(--color-root-500);
+          margin: -0.5rem 0 0.75rem;
+          font-family: monospace;
+        }
+
+        .recipient-warning {
+          font-size: 0.75rem;
+          color: var(--color-warning);
+          margin: -0.25rem 0 0.75rem;
+          line-height: 1.4;
+        }
+
         .automation-footer {
           display: flex;
           justify-content: space-between;
@@ -723,6 +965,94 @@ export default function Dashboard() {
           gap: 0.5rem;
         }
 
+        .sign-in-info {
+          display: flex;
+          align-items: center;
+          justify-content: space-between;
+          gap: 0.5rem;
+          margin-top: 0.75rem;
+          font-size: 0.75rem;
+          color: var(--color-root-500);
+        }
+
+        .sign-in-btn {
+          padding: 0.25rem 0.75rem;
+          background: var(--color-ocean);
+          color: white;
+          border: none;
+          border-radius: var(--radius-sm);
+          font-size: 0.75rem;
+          cursor: pointer;
+        }
+
+        .sign-in-btn:disabled {
+          opacity: 0.6;
+          cursor: not-allowed;
+        }
+
+        .pause-btn {
+          padding: 0.125rem 0.5rem;
+          background: transparent;
+          color: var(--color-root-600);
+          border: 1px solid var(--color-coral);
+          border-radius: var(--radius-sm);
+          font-size: 0.7rem;
+          cursor: pointer;
+        }
+
+        .revoke-btn {
+          padding: 0.125rem 0.5rem;
+          background: transparent;
+          color: var(--color-error);
+          border: 1px solid var(--color-error);
+          border-radius: var(--radius-sm);
+          font-size: 0.7rem;
+          cursor: pointer;
+        }
+
+        .revoke-btn:disabled {
+          opacity: 0.5;
+          cursor: not-allowed;
+        }
+
+        .passkey-hint {
+          font-size: 0.8rem;
+          color: var(--color-root-600);
+          margin: 0 0 0.75rem;
+        }
+
+        .passkey-list {
+          display: flex;
+          flex-direction: column;
+          gap: 0.5rem;
+        }
+
+        .passkey-item {
+          display: flex;
+          justify-content: space-between;
+          align-items: center;
+          padding: 0.75rem 1rem;
+          background: var(--color-white);
+          border: 1px solid var(--color-coral);
+          border-radius: var(--radius-sm);
+        }
+
+        .passkey-info {
+          display: flex;
+          flex-direction: column;
+          gap: 0.125rem;
+        }
+
+        .passkey-label {
+          font-size: 0.875rem;
+          color: var(--color-root-700);
+        }
+
+        .passkey-meta {
+          font-size: 0.75rem;
+          color: var(--color-root-600);
+        }
+
         .view-all-btn {
           width: 100%;
           padding: 1rem;
@@ -851,6 +1181,34 @@ export default function Dashboard() {
           font-size: 1.125rem;
         }
 
+        .demo-badge {
+          margin-left: 0.5rem;
+          background-color: var(--color-gray-200);
+          color: var(--color-gray-700);
+        }
+
+        .history-error {
+          display: flex;
+          align-items: center;
+          justify-content: space-between;
+          gap: 1rem;
+          padding: 0.75rem 1rem;
+          margin-bottom: 1rem;
+          border-radius: var(--radius-md);
+          border: 1px solid var(--color-error);
+          color: var(--color-error);
+          font-size: 0.875rem;
+        }
+
+        .retry-btn {
+          background: none;
+          border: 1px solid var(--color-error);
+          border-radius: var(--radius-md);
+          color: var(--color-error);
+          padding: 0.25rem 0.75rem;
+          cursor: pointer;
+        }
+
         .empty-history {
           text-align: center;
           color: var(--color-root-500);
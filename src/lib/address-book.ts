@@ -0,0 +1,61 @@
+import { getAddress } from 'viem'
+import { getStorageBackend } from './storage'
+
+/**
+ * A named contact ("Bob") a user can pay by name
+ */
+export interface AddressBookEntry {
+  id: string
+  userAddress: string
+  name: string
+  address: `0x${string}`
+  createdAt: Date
+}
+
+const ADDRESS_BOOK = 'address_book'
+
+// Addresses may arrive checksummed or lowercased
+const sameAddress = (a: string, b: string) => a.toLowerCase() === b.toLowerCase()
+const sameName = (a: string, b: string) => a.trim().toLowerCase() === b.trim().toLowerCase()
+
+export const addressBookStorage = {
+  // Get a user's contacts
+  getByUser: (userAddress: string): AddressBookEntry[] => {
+    return getStorageBackend().read<AddressBookEntry>(ADDRESS_BOOK).filter(entry => sameAddress(entry.userAddress, userAddress))
+  },
+
+  // Find a contact by name (case-insensitive)
+  findByName: (userAddress: string, name: string): AddressBookEntry | null => {
+    return addressBookStorage.getByUser(userAddress).find(entry => sameName(entry.name, name)) || null
+  },
+
+  // Add a contact, replacing any existing contact with the same name
+  save: (userAddress: string, name: string, address: string): AddressBookEntry => {
+    const entry: AddressBookEntry = {
+      id: `contact_${Date.now()}_${Math.random().toString(36).substr(2, 9)}`,
+      userAddress,
+      name: name.trim(),
+      address: getAddress(address),
+      createdAt: new Date(),
+    }
+    getStorageBackend().update<AddressBookEntry>(ADDRESS_BOOK, entries => [
+      ...entries.filter(existing => !(sameAddress(existing.userAddress, userAddress) && sameName(existing.name, name))),
+      entry,
+    ])
+    console.log(`📇 Contact "${entry.name}" saved for ${userAddress}`)
+    return entry
+  },
+
+  // Remove a contact by id
+  delete: (id: string, userAddress: string): boolean => {
+    let found = false
+    getStorageBackend().update<AddressBookEntry>(ADDRESS_BOOK, entries => {
+      const remaining = entries.filter(entry => !(entry.id === id && sameAddress(entry.userAddress, userAddress)))
+      found = remaining.length !== entries.length
+      return remaining
+    })
+    if (!found) return false
+    console.log(`🗑️ Contact ${id} deleted`)
+    return true
+  },
+}
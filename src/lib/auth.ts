@@ -0,0 +1,160 @@
+import { createHmac, timingSafeEqual } from 'crypto'
+import type { NextRequest, NextResponse } from 'next/server'
+import { getAddress, isHex } from 'viem'
+import { generateSiweNonce, parseSiweMessage, validateSiweMessage } from 'viem/siwe'
+import { getStorageBackend } from './storage'
+import { getChainClientFactory, ChainClientError } from './chain-clients'
+import { DEFAULT_CHAIN_ID } from './chains'
+
+export const SESSION_COOKIE = 'autopay_session'
+
+const SESSION_TTL_SECONDS = Number(process.env.AUTH_SESSION_TTL_HOURS || 24) * 60 * 60
+const NONCE_TTL_MS = 10 * 60 * 1000
+const AUTH_NONCES = 'auth_nonces'
+
+export interface Session {
+  address: `0x${string}`
+  issuedAt: number
+  expiresAt: number
+}
+
+interface StoredNonce {
+  nonce: string
+  expiresAt: number
+}
+
+export class AuthError extends Error {
+  // 400 for requests that are malformed, 401 for ones that fail verification
+  constructor(message: string, readonly status: 400 | 401 = 401) {
+    super(message)
+    this.name = 'AuthError'
+  }
+}
+
+function getAuthSecret(): string {
+  const secret = process.env.AUTH_SECRET
+  if (secret) return secret
+  if (process.env.NODE_ENV === 'production') {
+    throw new Error('AUTH_SECRET must be set in production')
+  }
+  console.warn('⚠️ AUTH_SECRET not set - using an insecure development secret')
+  return 'autopay-dev-secret'
+}
+
+const base64url = (input: Buffer | string) => Buffer.from(input).toString('base64url')
+
+const sign = (data: string) => createHmac('sha256', getAuthSecret()).update(data).digest()
+
+/**
+ * Issue a single-use nonce for a SIWE message
+ */
+export function createNonce(): string {
+  const now = Date.now()
+  const nonce = generateSiweNonce()
+  getStorageBackend().update<StoredNonce>(AUTH_NONCES, nonces => [
+    ...nonces.filter(entry => entry.expiresAt > now),
+    { nonce, expiresAt: now + NONCE_TTL_MS },
+  ])
+  return nonce
+}
+
+// Remove a nonce, returning whether it was valid
+function consumeNonce(nonce: string): boolean {
+  const now = Date.now()
+  let found = false
+  getStorageBackend().update<StoredNonce>(AUTH_NONCES, nonces => {
+    found = nonces.some(entry => entry.nonce === nonce && entry.expiresAt > now)
+    return nonces.filter(entry => entry.nonce !== nonce && entry.expiresAt > now)
+  })
+  return found
+}
+
+/**
+ * Verify an EIP-4361 message and its signature, returning the signer address.
+ * The signature is checked on the message's chain, so smart contract wallets
+ * (EIP-1271) and not-yet-deployed ones (EIP-6492) can sign in as well as EOAs.
+ */
+export async function verifySiweLogin(message: unknown, signature: unknown, domain: string): Promise<`0x${string}`> {
+  // Both come straight from the request body
+  if (typeof message !== 'string' || typeof signature !== 'string' || !isHex(signature)) {
+    throw new AuthError('Message must be a string and signature a hex string', 400)
+  }
+  const parsed = parseSiweMessage(message)
+
+  if (!parsed.address || !parsed.nonce) {
+    throw new AuthError('Malformed sign-in message')
+  }
+  if (!validateSiweMessage({ message: parsed, domain })) {
+    throw new AuthError('Sign-in message is expired or for another domain')
+  }
+  if (!consumeNonce(parsed.nonce)) {
+    throw new AuthError('Sign-in nonce is invalid or already used')
+  }
+
+  let publicClient
+  try {
+    publicClient = getChainClientFactory().getPublicClient(parsed.chainId ?? DEFAULT_CHAIN_ID)
+  } catch (error) {
+    if (error instanceof ChainClientError) throw new AuthError(error.message)
+    throw error
+  }
+
+  const valid = await publicClient.verifyMessage({ address: parsed.address, message, signature }).catch(() => false)
+  if (!valid) {
+    throw new AuthError('Invalid sign-in signature')
+  }
+
+  return getAddress(parsed.address)
+}
+
+/**
+ * Create an HS256 JWT for a signed-in address
+ */
+export function createSessionToken(address: string, now: number = Math.floor(Date.now() / 1000)): string {
+  const header = base64url(JSON.stringify({ alg: 'HS256', typ: 'JWT' }))
+  const payload = base64url(JSON.stringify({ sub: getAddress(address), iat: now, exp: now + SESSION_TTL_SECONDS }))
+  return `${header}.${payload}.${base64url(sign(`${header}.${payload}`))}`
+}
+
+/**
+ * Validate a session token, returning null if it is forged or expired
+ */
+export function readSessionToken(token: string | undefined): Session | null {
+  if (!token) return null
+
+  const [header, payload, signature] = token.split('.')
+  if (!header || !payload || !signature) return null
+
+  const expected = sign(`${header}.${payload}`)
+  const actual = Buffer.from(signature, 'base64url')
+  if (actual.length !== expected.length || !timingSafeEqual(actual, expected)) return null
+
+  try {
+    const claims = JSON.parse(Buffer.from(payload, 'base64url').toString('utf8'))
+    if (typeof claims.exp !== 'number' || claims.exp <= Math.floor(Date.now() / 1000)) return null
+    return { address: getAddress(claims.sub), issuedAt: claims.iat, expiresAt: claims.exp }
+  } catch {
+    return null
+  }
+}
+
+/**
+ * Address of the signed-in caller, or null if there is no valid session
+ */
+export function getSessionAddress(request: NextRequest): `0x${string}` | null {
+  return readSessionToken(request.cookies.get(SESSION_COOKIE)?.value)?.address ?? null
+}
+
+export function setSessionCookie(response: NextResponse, token: string): void {
+  response.cookies.set(SESSION_COOKIE, token, {
+    httpOnly: true,
+    sameSite: 'lax',
+    secure: process.env.NODE_ENV === 'production',
+    path: '/',
+    maxAge: SESSION_TTL_SECONDS,
+  })
+}
+
+export function clearSessionCookie(response: NextResponse): void {
+  response.cookies.set(SESSION_COOKIE, '', { httpOnly: true, path: '/', maxAge: 0 })
+}
@@ -0,0 +1,294 @@
+import { isAddress } from 'viem'
+
+/**
+ * Shared shape of each automation type's params. Every API boundary that
+ * accepts params (chat parsing, direct creation, edits, confirmation)
+ * validates them here so invalid values never reach storage or the chain.
+ */
+export const AUTOMATION_TYPES = ['recurring_payment', 'reward_claim', 'staking', 'reminder'] as const
+export type AutomationType = typeof AUTOMATION_TYPES[number]
+
+export const SUPPORTED_CURRENCIES = ['ETH', 'MON', 'USDC', 'USDT'] as const
+export type SupportedCurrency = typeof SUPPORTED_CURRENCIES[number]
+
+// Filled from the schedule for descriptions and legacy readers
+interface ScheduleParams {
+  frequency?: string
+  dayOfWeek?: string
+  time?: string
+}
+
+export interface RecurringPaymentParams extends ScheduleParams {
+  amount: string
+  currency: SupportedCurrency
+  // 0x address, ENS name or address book contact, resolved at confirmation
+  recipient: string
+}
+
+// Protocol adapters that build reward-claim and staking calls (see protocol-adapters.ts)
+export const ADAPTER_IDS = ['erc4626', 'custom'] as const
+export type AdapterId = typeof ADAPTER_IDS[number]
+
+// Contract call settings shared by reward claims and staking
+export interface ProtocolParams {
+  contractAddress?: `0x${string}`
+  // Defaults to custom claim() for reward claims and erc4626 for staking
+  adapter?: AdapterId
+  // custom: function to call, e.g. "getReward()" or "stake(uint256)"
+  functionSignature?: string
+  // custom: view returning pending rewards for the account, e.g. "earned(address)"
+  rewardsFunction?: string
+  // custom: decimals used to scale `amount` (default 18)
+  decimals?: number
+  // erc4626: assets deposited; a claim withdraws the yield above this
+  principal?: string
+}
+
+export interface RewardClaimParams extends ScheduleParams, ProtocolParams {}
+
+export interface StakingParams extends ScheduleParams, ProtocolParams {
+  // Assets to stake each run; without it a staking run compounds rewards
+  amount?: string
+}
+
+export interface ReminderParams extends ScheduleParams {
+  message: string
+}
+
+export interface AutomationParamsByType {
+  recurring_payment: RecurringPaymentParams
+  reward_claim: RewardClaimParams
+  staking: StakingParams
+  reminder: ReminderParams
+}
+
+export type AutomationParams = AutomationParamsByType[AutomationType]
+
+export interface FieldError {
+  field: string
+  message: string
+}
+
+export class AutomationValidationError extends Error {
+  constructor(public readonly errors: FieldError[]) {
+    super(`Invalid automation: ${errors.map(error => `${error.field} ${error.message}`).join('; ')}`)
+    this.name = 'AutomationValidationError'
+  }
+}
+
+interface FieldRule {
+  required?: boolean
+  // Returns a message describing what is wrong, or null if the value is valid
+  check: (value: unknown) => string | null
+}
+
+const MAX_DECIMALS = 18
+const MAX_TEXT_LENGTH = 500
+
+export const ENS_NAME = /^[a-z0-9-]+(\.[a-z0-9-]+)*\.eth$/i
+// Contract functions the custom adapter can call; address args get the account, uint256 args the amount
+export const FUNCTION_SIGNATURE = /^[A-Za-z_$][A-Za-z0-9_$]*\(((address|uint256)(,(address|uint256))*)?\)$/
+// Address book contact names such as "Bob" or "rent-account"
+export const CONTACT_NAME = /^[A-Za-z][A-Za-z0-9 _-]{0,31}$/
+
+const text = (max: number): FieldRule['check'] => value =>
+  typeof value !== 'string' || !value.trim() ? 'must be a non-empty string'
+    : value.length > max ? `must be at most ${max} characters`
+    : null
+
+const decimalAmount: FieldRule['check'] = value => {
+  if (typeof value !== 'string' || !/^\d+(\.\d+)?$/.test(value)) return 'must be a decimal string such as "0.05"'
+  if ((value.split('.')[1] || '').length > MAX_DECIMALS) return `must have at most ${MAX_DECIMALS} decimals`
+  if (!/[1-9]/.test(value)) return 'must be greater than zero'
+  return null
+}
+
+const currency: FieldRule['check'] = value =>
+  typeof value === 'string' && (SUPPORTED_CURRENCIES as readonly string[]).includes(value.toUpperCase())
+    ? null
+    : `must be one of ${SUPPORTED_CURRENCIES.join(', ')}`
+
+const recipient: FieldRule['check'] = value =>
+  typeof value === 'string' && (isAddress(value) || ENS_NAME.test(value) || CONTACT_NAME.test(value))
+    ? null
+    : 'must be a 0x address, ENS name or contact name'
+
+const address: FieldRule['check'] = value =>
+  typeof value === 'string' && isAddress(value) ? null : 'must be a 0x address'
+
+const adapter: FieldRule['check'] = value =>
+  typeof value === 'string' && (ADAPTER_IDS as readonly string[]).includes(value)
+    ? null
+    : `must be one of ${ADAPTER_IDS.join(', ')}`
+
+const functionSignature: FieldRule['check'] = value =>
+  typeof value === 'string' && FUNCTION_SIGNATURE.test(value)
+    ? null
+    : 'must be a function signature such as "claim()" or "stake(uint256)" using only address and uint256 arguments'
+
+const decimals: FieldRule['check'] = value =>
+  Number.isInteger(value) && (value as number) >= 0 && (value as number) <= 36 ? null : 'must be an integer from 0 to 36'
+
+const SCHEDULE_RULES: Record<keyof ScheduleParams, FieldRule> = {
+  frequency: { check: text(100) },
+  dayOfWeek: { check: text(20) },
+  time: { check: text(20) },
+}
+
+const PROTOCOL_RULES: Record<keyof ProtocolParams, FieldRule> = {
+  contractAddress: { check: address },
+  adapter: { check: adapter },
+  functionSignature: { check: functionSignature },
+  rewardsFunction: { check: functionSignature },
+  decimals: { check: decimals },
+  principal: { check: decimalAmount },
+}
+
+const PARAM_RULES: { [T in AutomationType]: Record<keyof AutomationParamsByType[T], FieldRule> } = {
+  recurring_payment: {
+    ...SCHEDULE_RULES,
+    amount: { required: true, check: decimalAmount },
+    currency: { required: true, check: currency },
+    recipient: { required: true, check: recipient },
+  },
+  reward_claim: {
+    ...SCHEDULE_RULES,
+    ...PROTOCOL_RULES,
+  },
+  staking: {
+    ...SCHEDULE_RULES,
+    ...PROTOCOL_RULES,
+    amount: { check: decimalAmount },
+  },
+  reminder: {
+    ...SCHEDULE_RULES,
+    message: { required: true, check: text(MAX_TEXT_LENGTH) },
+  },
+}
+
+export function isAutomationType(value: unknown): value is AutomationType {
+  return typeof value === 'string' && (AUTOMATION_TYPES as readonly string[]).includes(value)
+}
+
+/** The adapter a reward claim or staking automation uses when none was picked */
+export function getAdapterId(type: AutomationType, params: { adapter?: AdapterId }): AdapterId {
+  return params.adapter || (type === 'staking' ? 'erc4626' : 'custom')
+}
+
+// Settings that only make sense for one adapter
+const ADAPTER_ONLY_FIELDS: Record<string, AdapterId> = {
+  functionSignature: 'custom',
+  rewardsFunction: 'custom',
+  decimals: 'custom',
+  principal: 'erc4626',
+}
+
+function getProtocolErrors(type: AutomationType, values: Record<string, unknown>, name: (field: string) => string): FieldError[] {
+  if (type !== 'reward_claim' && type !== 'staking') return []
+  if (values.adapter !== undefined && adapter(values.adapter)) return []
+
+  const adapterId = getAdapterId(type, values as { adapter?: AdapterId })
+  const errors: FieldError[] = []
+  for (const [field, only] of Object.entries(ADAPTER_ONLY_FIELDS)) {
+    if (values[field] !== undefined && only !== adapterId) {
+      errors.push({ field: name(field), message: `only applies to the ${only} adapter` })
+    }
+  }
+  // Reward claims fall back to claim(); staking has no sensible default function
+  if (adapterId === 'custom' && type === 'staking' && !values.functionSignature) {
+    errors.push({ field: name('functionSignature'), message: 'is required for the custom adapter' })
+  }
+  return errors
+}
+
+/**
+ * Collect every problem with an automation's params. Field names are
+ * prefixed with `path` (e.g. "params.amount"); pass '' for top-level fields.
+ */
+export function getParamErrors(type: AutomationType, params: unknown, path: string = 'params'): FieldError[] {
+  const name = (field: string) => (path ? `${path}.${field}` : field)
+
+  if (!params || typeof params !== 'object' || Array.isArray(params)) {
+    return [{ field: path || 'params', message: 'must be an object' }]
+  }
+
+  const rules: Record<string, FieldRule> = PARAM_RULES[type]
+  const values = params as Record<string, unknown>
+  const errors: FieldError[] = []
+
+  for (const [field, rule] of Object.entries(rules)) {
+    const value = values[field]
+    if (value === undefined || value === null || value === '') {
+      if (rule.required) errors.push({ field: name(field), message: 'is required' })
+      continue
+    }
+    const message = rule.check(value)
+    if (message) errors.push({ field: name(field), message })
+  }
+
+  for (const field of Object.keys(values)) {
+    if (!(field in rules)) {
+      errors.push({ field: name(field), message: `is not a ${type} parameter` })
+    }
+  }
+
+  errors.push(...getProtocolErrors(type, values, name))
+  return errors
+}
+
+/**
+ * Validate params for an automation type, returning them typed and normalized
+ * (currency upper-cased). Throws AutomationValidationError listing every failing field.
+ */
+export function validateAutomationParams<T extends AutomationType>(
+  type: T,
+  params: unknown,
+  path: string = 'params'
+): AutomationParamsByType[T] {
+  const errors = getParamErrors(type, params, path)
+  if (errors.length) {
+    throw new AutomationValidationError(errors)
+  }
+
+  const values = params as Record<string, any>
+  return (values.currency ? { ...values, currency: values.currency.toUpperCase() } : { ...values }) as AutomationParamsByType[T]
+}
+
+/**
+ * Validate a new automation request body ({ type, description, params, chainId })
+ */
+export function validateAutomationInput(input: unknown): {
+  type: AutomationType
+  description?: string
+  params: AutomationParams
+  chainId?: number
+} {
+  const body = (input && typeof input === 'object' ? input : {}) as Record<string, unknown>
+  const errors: FieldError[] = []
+
+  if (!isAutomationType(body.type)) {
+    errors.push({ field: 'type', message: `must be one of ${AUTOMATION_TYPES.join(', ')}` })
+  }
+  if (body.description !== undefined) {
+    const message = text(MAX_TEXT_LENGTH)(body.description)
+    if (message) errors.push({ field: 'description', message })
+  }
+  if (body.chainId !== undefined && !(Number.isInteger(body.chainId) && (body.chainId as number) > 0)) {
+    errors.push({ field: 'chainId', message: 'must be a positive integer' })
+  }
+  if (isAutomationType(body.type)) {
+    errors.push(...getParamErrors(body.type, body.params ?? {}))
+  }
+
+  if (errors.length) {
+    throw new AutomationValidationError(errors)
+  }
+
+  const type = body.type as AutomationType
+  return {
+    type,
+    description: body.description as string | undefined,
+    params: validateAutomationParams(type, body.params ?? {}),
+    chainId: body.chainId as number | undefined,
+  }
+}
@@ -0,0 +1,292 @@
+import { automationStorage, eventStorage, type Automation } from './automation'
+import { planAutomationCaveats, CaveatError } from './caveats'
+import { PROTOCOL_ADAPTERS } from './protocol-adapters'
+import { getAdapterId, getParamErrors, AutomationValidationError, type AdapterId } from './automation-schema'
+import type { RecipientResolution } from './recipients'
+import {
+  calculateNextExecution,
+  describeSchedule,
+  getWeekdayName,
+  parseSchedule,
+  scheduleFromParams,
+  validateSchedule,
+  ScheduleError,
+  DEFAULT_TIMEZONE,
+  type Schedule,
+} from './schedule'
+
+/**
+ * Changes a user may make to an existing automation
+ */
+export interface AutomationUpdate {
+  amount?: string
+  currency?: string
+  recipient?: string
+  // Protocol settings of reward claims and staking
+  adapter?: AdapterId
+  contractAddress?: string
+  functionSignature?: string
+  rewardsFunction?: string
+  decimals?: number
+  principal?: string
+  frequency?: string
+  schedule?: Schedule
+  status?: 'active' | 'paused'
+}
+
+export interface AutomationUpdateResult {
+  updates: Partial<Automation>
+  changes: Record<string, { from: unknown; to: unknown }>
+  // Real delegations are bound to the old amount/recipient/schedule and must be re-signed
+  requiresReconfirmation: boolean
+}
+
+export class AutomationUpdateError extends Error {
+  constructor(message: string, public readonly field?: string, public readonly status: number = 400) {
+    super(message)
+    this.name = 'AutomationUpdateError'
+  }
+}
+
+const PAYMENT_FIELDS = ['amount', 'currency', 'recipient'] as const
+const PROTOCOL_FIELDS = ['adapter', 'contractAddress', 'functionSignature', 'rewardsFunction', 'decimals', 'principal'] as const
+const PROTOCOL_TYPES: Automation['type'][] = ['reward_claim', 'staking']
+const ADAPTER_SPECIFIC_FIELDS: Record<AdapterId, (typeof PROTOCOL_FIELDS)[number][]> = {
+  custom: ['functionSignature', 'rewardsFunction', 'decimals'],
+  erc4626: ['principal'],
+}
+const EDITABLE_STATUSES: Automation['status'][] = ['active', 'pending', 'paused']
+
+/** Fill the schedule-derived params used in descriptions and by legacy readers */
+export function withScheduleParams(params: Record<string, any>, schedule: Schedule) {
+  const { frequency, dayOfWeek, time, ...rest } = params
+  return {
+    ...rest,
+    frequency: describeSchedule(schedule),
+    ...(schedule.kind === 'weekly' ? { dayOfWeek: getWeekdayName(schedule.dayOfWeek) } : {}),
+    ...('time' in schedule && schedule.time ? { time: schedule.time } : {}),
+  }
+}
+
+/** How a reward claim or staking automation calls its protocol: "ERC-4626 vault 0x…" or "getReward() on 0x…" */
+export function describeAdapter(type: 'reward_claim' | 'staking', params: Record<string, any>): string {
+  const adapter = getAdapterId(type, params)
+  if (adapter === 'custom') {
+    return `${params.functionSignature || 'claim()'}${params.contractAddress ? ` on ${params.contractAddress}` : ''}`
+  }
+  return `${PROTOCOL_ADAPTERS[adapter].name}${params.contractAddress ? ` ${params.contractAddress}` : ''}`
+}
+
+/** One-line description shown in the chat and dashboard */
+export function describeAutomation(automation: { type: string; params: Record<string, any> }): string {
+  const { params } = automation
+  switch (automation.type) {
+    case 'recurring_payment':
+      return `Send ${params.amount} ${params.currency} to ${params.recipient} ${params.frequency}`
+    case 'reward_claim':
+      return `Claim rewards via ${describeAdapter(automation.type, params)} ${params.frequency}`
+    case 'staking':
+      return `Stake ${params.amount ? `${params.amount} ` : 'rewards '}via ${describeAdapter(automation.type, params)} ${params.frequency}`
+    case 'reminder':
+      return `Reminder: ${params.message.substring(0, 50)}...`
+    default:
+      return 'Automated on-chain action'
+  }
+}
+
+// Updates come straight from request bodies; check types before anything reads them
+function validateFieldTypes(update: AutomationUpdate) {
+  const fields = update as Record<string, unknown>
+  const notString = [...PAYMENT_FIELDS, ...PROTOCOL_FIELDS, 'frequency', 'status']
+    .filter(field => field !== 'decimals' && fields[field] !== undefined && typeof fields[field] !== 'string')
+  if (notString.length) {
+    throw new AutomationUpdateError(`${notString[0]} must be a string`, notString[0])
+  }
+  if (update.decimals !== undefined && !Number.isInteger(update.decimals)) {
+    throw new AutomationUpdateError('decimals must be a whole number', 'decimals')
+  }
+  if (update.schedule !== undefined && (!update.schedule || typeof update.schedule !== 'object' || Array.isArray(update.schedule))) {
+    throw new AutomationUpdateError('schedule must be an object', 'schedule')
+  }
+}
+
+function validateFields(automation: Automation, update: AutomationUpdate) {
+  validateFieldTypes(update)
+  const paymentEdits = PAYMENT_FIELDS
+    // Staking amounts are edited like payment amounts
+    .filter(field => !(field === 'amount' && automation.type === 'staking'))
+    .filter(field => update[field] !== undefined)
+  if (paymentEdits.length && automation.type !== 'recurring_payment') {
+    throw new AutomationUpdateError(`${paymentEdits.join(', ')} can only be changed on recurring payments`, paymentEdits[0])
+  }
+  const protocolEdits = PROTOCOL_FIELDS.filter(field => update[field] !== undefined)
+  if (protocolEdits.length && !PROTOCOL_TYPES.includes(automation.type)) {
+    throw new AutomationUpdateError(`${protocolEdits.join(', ')} can only be changed on reward claims and staking`, protocolEdits[0])
+  }
+  if (update.status !== undefined && !['active', 'paused'].includes(update.status)) {
+    throw new AutomationUpdateError(`Status can only be set to active or paused`, 'status')
+  }
+}
+
+/**
+ * Validate an update against an automation and compute the fields to store.
+ * Throws AutomationValidationError for invalid values and AutomationUpdateError
+ * for disallowed changes or transitions.
+ */
+export function applyAutomationUpdate(
+  automation: Automation,
+  update: AutomationUpdate,
+  now: Date = new Date(),
+  // Resolution of update.recipient, looked up by the caller
+  resolvedRecipient?: RecipientResolution
+): AutomationUpdateResult {
+  if (!EDITABLE_STATUSES.includes(automation.status)) {
+    throw new AutomationUpdateError(`A ${automation.status} automation cannot be changed`, 'status', 409)
+  }
+
+  validateFields(automation, update)
+
+  const changes: AutomationUpdateResult['changes'] = {}
+  const updates: Partial<Automation> = {}
+  let params: Record<string, any> = { ...automation.params }
+  let schedule = automation.schedule || scheduleFromParams(automation.params) || undefined
+
+  for (const field of [...PAYMENT_FIELDS, ...PROTOCOL_FIELDS]) {
+    const value = field === 'currency' ? update.currency?.toUpperCase() : update[field]
+    if (value !== undefined && value !== params[field]) {
+      changes[field] = { from: params[field], to: value }
+      params[field] = value
+    }
+  }
+
+  // Switching adapters drops settings that only the previous adapter understood
+  if (changes.adapter) {
+    for (const field of ADAPTER_SPECIFIC_FIELDS[getAdapterId(automation.type, automation.params)]) {
+      if (update[field] === undefined && params[field] !== undefined) {
+        changes[field] = { from: params[field], to: undefined }
+        delete params[field]
+      }
+    }
+  }
+
+  // A new schedule can be given as a structured Schedule or as text ("every Monday at 9am")
+  if (update.schedule || update.frequency) {
+    const timezone = schedule?.timezone || DEFAULT_TIMEZONE
+    const next = update.schedule || parseSchedule(update.frequency as string, timezone)
+    if (!next) {
+      throw new AutomationUpdateError(`Unrecognized schedule "${update.frequency}"`, 'frequency')
+    }
+    try {
+      validateSchedule(next)
+    } catch (error) {
+      if (error instanceof ScheduleError) {
+        throw new AutomationUpdateError(error.message, 'schedule')
+      }
+      throw error
+    }
+    if (JSON.stringify(next) !== JSON.stringify(schedule)) {
+      changes.schedule = { from: schedule ? describeSchedule(schedule) : undefined, to: describeSchedule(next) }
+      schedule = next
+      params = withScheduleParams(params, next)
+      updates.schedule = next
+    }
+  }
+
+  // Only the edited fields are checked so legacy params on old records don't block edits
+  // (a new adapter is checked against all of its settings)
+  const errors = getParamErrors(automation.type, params, '').filter(error =>
+    error.field in changes || (!!changes.adapter && (PROTOCOL_FIELDS as readonly string[]).includes(error.field))
+  )
+  if (errors.length) {
+    throw new AutomationValidationError(errors)
+  }
+
+  const paramsChanged = Object.keys(changes).length > 0
+  let recipient = automation.resolvedRecipient
+  if (changes.recipient) {
+    recipient = resolvedRecipient
+    updates.resolvedRecipient = resolvedRecipient
+    updates.recipientChange = undefined
+  }
+  if (paramsChanged) {
+    updates.params = params
+    updates.description = describeAutomation({ type: automation.type, params })
+    try {
+      updates.caveats = planAutomationCaveats({ type: automation.type, params, schedule, resolvedRecipient: recipient, chainId: automation.chainId, userAddress: automation.userAddress }, { now })
+    } catch (error) {
+      if (!(error instanceof CaveatError)) throw error
+      updates.caveats = undefined
+    }
+  }
+
+  const hasRealDelegation = !!automation.delegationId && !automation.isSimulated
+  const requiresReconfirmation = paramsChanged && hasRealDelegation
+
+  let status = automation.status
+  if (update.status && update.status !== automation.status) {
+    if (update.status === 'paused' && automation.status !== 'active') {
+      throw new AutomationUpdateError('Only active automations can be paused', 'status', 409)
+    }
+    if (update.status === 'active' && automation.status !== 'paused') {
+      throw new AutomationUpdateError('Only paused automations can be resumed', 'status', 409)
+    }
+    changes.status = { from: automation.status, to: update.status }
+    status = update.status
+  }
+
+  // Edits to a real delegation wait for a new signature before running again
+  if (requiresReconfirmation) {
+    status = 'pending'
+  }
+  if (status !== automation.status) {
+    updates.status = status
+  }
+
+  if (status === 'active' && (paramsChanged || changes.status)) {
+    updates.nextExecution = schedule ? calculateNextExecution(schedule, now) : undefined
+  } else if (status !== 'active') {
+    updates.nextExecution = undefined
+  }
+
+  if (!Object.keys(changes).length) {
+    if (update.status === automation.status) {
+      throw new AutomationUpdateError(`Automation is already ${automation.status}`, 'status', 409)
+    }
+    throw new AutomationUpdateError('Nothing to change')
+  }
+
+  return { updates, changes, requiresReconfirmation }
+}
+
+/**
+ * Apply and persist an update, recording an `updated` event with the changes
+ */
+export function updateAutomation(
+  automation: Automation,
+  update: AutomationUpdate,
+  now: Date = new Date(),
+  resolvedRecipient?: RecipientResolution
+): AutomationUpdateResult & { automation: Automation } {
+  const result = applyAutomationUpdate(automation, update, now, resolvedRecipient)
+  const updated = automationStorage.update(automation.id, result.updates)
+  if (!updated) {
+    throw new AutomationUpdateError('Automation not found', undefined, 404)
+  }
+
+  eventStorage.create({
+    automationId: updated.id,
+    userAddress: updated.userAddress,
+    type: updated.type,
+    eventType: 'updated',
+    status: updated.status,
+    chainId: updated.chainId,
+    isSimulated: updated.isSimulated,
+    params: updated.params,
+    details: {
+      changes: result.changes,
+      requiresReconfirmation: result.requiresReconfirmation,
+    }
+  })
+
+  return { ...result, automation: updated }
+}
@@ -1,8 +1,14 @@
+import { getStorageBackend } from './storage'
+import type { Schedule } from './schedule'
+import type { CaveatSpec } from './caveats'
+import type { AdapterId, AutomationType } from './automation-schema'
+import type { RecipientChange, RecipientResolution } from './recipients'
+
 export interface Automation {
   id: string
-  type: 'recurring_payment' | 'reward_claim' | 'staking' | 'reminder'
+  type: AutomationType
   description: string
-  status: 'active' | 'pending' | 'completed' | 'failed'
+  status: 'active' | 'pending' | 'paused' | 'completed' | 'failed' | 'revoked'
   params: {
     amount?: string
     currency?: string
@@ -11,17 +17,49 @@ export interface Automation {
     dayOfWeek?: string
     time?: string
     contractAddress?: string
+    adapter?: AdapterId
+    functionSignature?: string
+    rewardsFunction?: string
+    decimals?: number
+    principal?: string
+    message?: string
   }
+  schedule?: Schedule
+  caveats?: CaveatSpec[]
+  // Address the recipient label resolved to when the automation was created or confirmed
+  resolvedRecipient?: RecipientResolution
+  // Set when the label's address changed after confirmation; the automation waits for a new confirmation
+  recipientChange?: RecipientChange
   userAddress: string
   createdAt: Date
   nextExecution?: Date
   lastExecuted?: Date
   delegationId?: string
+  // Transaction that put the delegation on chain, if any; simulated hashes start with SIMULATED_TX_PREFIX
   transactionHash?: string
+  transactionBlockNumber?: number
   delegationData?: any
   onChainActive?: boolean
   chainId?: number
   isSimulated?: boolean
+  // 'scw' delegations come from smart accounts and are redeemed as UserOperations
+  walletType?: 'eoa' | 'scw'
+  // Passkey session key that approved the delegation
+  passkeyId?: string
+  consecutiveFailures?: number
+  // Held by the executor process running the automation, so other processes skip it
+  executionLease?: { owner: string; expiresAt: Date }
+  // Redemption broadcast but not yet mined; never re-sent, only polled for its receipt.
+  // Redemptions sent as a UserOperation are tracked by their UserOperation hash
+  pendingExecution?: {
+    transactionHash?: string
+    userOperationHash?: string
+    submittedAt: Date
+    scheduledFor?: Date
+    isSimulated?: boolean
+  }
+  revokedAt?: Date
+  revocationTxHash?: string
 }
 
 // Event Storage system
@@ -30,7 +68,7 @@ export interface AutomationEvent {
   automationId: string
   userAddress: string
   type: string
-  eventType: 'created' | 'executed' | 'updated' | 'completed' | 'failed'
+  eventType: 'created' | 'executed' | 'updated' | 'completed' | 'failed' | 'revoked'
   status: string
   timestamp: Date
   transactionHash?: string
@@ -41,46 +79,18 @@ export interface AutomationEvent {
   blockNumber?: number
 }
 
-// Global variables that persist in server environment
-declare global {
-  var _automations: Automation[] | undefined;
-  var _automationEvents: AutomationEvent[] | undefined;
-}
+// Addresses may arrive checksummed or lowercased
+const sameAddress = (a: string, b: string) => a.toLowerCase() === b.toLowerCase()
 
-// Persistent in-memory storage for server environment
-const getAutomations = (): Automation[] => {
-  if (typeof window === 'undefined') {
-    // Server environment - use global persistent storage
-    if (!global._automations) {
-      global._automations = [];
-      console.log('🔄 Initialized persistent automations storage');
-    }
-    return global._automations;
-  } else {
-    // Client environment - use local storage (or empty array)
-    console.log('🌐 Client environment - using empty automations array');
-    return [];
-  }
-};
-
-const getAutomationEvents = (): AutomationEvent[] => {
-  if (typeof window === 'undefined') {
-    // Server environment - use global persistent storage
-    if (!global._automationEvents) {
-      global._automationEvents = [];
-      console.log('🔄 Initialized persistent automation events storage');
-    }
-    return global._automationEvents;
-  } else {
-    // Client environment - use local storage (or empty array)
-    console.log('🌐 Client environment - using empty events array');
-    return [];
-  }
-};
+const AUTOMATIONS = 'automations'
+const AUTOMATION_EVENTS = 'automation_events'
 
-// Initialize the persistent storage
-const automations = getAutomations();
-const automationEvents = getAutomationEvents();
+// Resolved per call so tests can swap the backend with setStorageBackend()
+const storage = {
+  read: <T>(collection: string): T[] => getStorageBackend().read<T>(collection),
+  write: <T>(collection: string, records: T[]): void => getStorageBackend().write(collection, records),
+  update: <T>(collection: string, modify: (records: T[]) => T[]): T[] => getStorageBackend().update(collection, modify),
+}
 
 export const automationStorage = {
   // Create new automation
@@ -90,29 +100,34 @@ export const automationStorage = {
       id: `auto_${Date.now()}_${Math.random().toString(36).substr(2, 9)}`,
       createdAt: new Date(),
     }
-    automations.push(newAutomation)
+    const automations = storage.update<Automation>(AUTOMATIONS, records => [...records, newAutomation])
     console.log(`✅ Automation created: ${newAutomation.id} for user ${newAutomation.userAddress}. Total automations: ${automations.length}`)
     return newAutomation
   },
 
   // Get automations by user
   getByUser: (userAddress: string): Automation[] => {
-    const userAutomations = automations.filter(auto => auto.userAddress === userAddress)
+    const userAutomations = storage.read<Automation>(AUTOMATIONS).filter(auto => sameAddress(auto.userAddress, userAddress))
     console.log(`🔍 Getting automations for user ${userAddress}. Found ${userAutomations.length} automations`)
     return userAutomations
   },
 
   // Get all automations (for debugging)
   getAll: (): Automation[] => {
+    const automations = storage.read<Automation>(AUTOMATIONS)
     console.log(`📊 Total automations in storage: ${automations.length}`)
     return automations
   },
 
   // Update automation status
   updateStatus: (id: string, status: Automation['status']): Automation | null => {
-    const automation = automations.find(auto => auto.id === id)
+    let automation: Automation | undefined
+    storage.update<Automation>(AUTOMATIONS, automations => {
+      automation = automations.find(auto => auto.id === id)
+      if (automation) automation.status = status
+      return automations
+    })
     if (automation) {
-      automation.status = status
       console.log(`🔄 Automation ${id} status updated to: ${status}`)
       return automation
     }
@@ -122,9 +137,13 @@ export const automationStorage = {
 
   // Update automation with partial data
   update: (id: string, updates: Partial<Automation>): Automation | null => {
-    const automation = automations.find(auto => auto.id === id)
+    let automation: Automation | undefined
+    storage.update<Automation>(AUTOMATIONS, automations => {
+      automation = automations.find(auto => auto.id === id)
+      if (automation) Object.assign(automation, updates)
+      return automations
+    })
     if (automation) {
-      Object.assign(automation, updates)
       console.log(`🔄 Automation ${id} updated with:`, Object.keys(updates))
       return automation
     }
@@ -132,11 +151,80 @@ export const automationStorage = {
     return null
   },
 
+  // Update from the stored record, read and written in one step so concurrent
+  // writers (a pause from the API, another executor) aren't overwritten;
+  // `compute` returns null to leave the record alone
+  updateWith: (id: string, compute: (current: Automation) => Partial<Automation> | null): Automation | null => {
+    let automation: Automation | null = null
+    storage.update<Automation>(AUTOMATIONS, automations => {
+      const current = automations.find(auto => auto.id === id)
+      const updates = current && compute(current)
+      if (current && updates) {
+        automation = Object.assign(current, updates)
+      }
+      return automations
+    })
+    return automation
+  },
+
+  // Take the execution lease if the automation is due (or has a broadcast
+  // redemption to check) and no other executor holds an unexpired lease.
+  // Returns the claimed record as stored, or null if someone else has it.
+  claim: (id: string, owner: string, leaseMs: number, now: Date = new Date()): Automation | null => {
+    const claimed = automationStorage.updateWith(id, current => {
+      const lease = current.executionLease
+      if (lease && lease.owner !== owner && new Date(lease.expiresAt).getTime() > now.getTime()) return null
+      const due = current.status === 'active' &&
+        !!current.nextExecution &&
+        new Date(current.nextExecution).getTime() <= now.getTime()
+      if (!due && !current.pendingExecution) return null
+      return { executionLease: { owner, expiresAt: new Date(now.getTime() + leaseMs) } }
+    })
+    if (claimed) {
+      console.log(`🔒 Automation ${id} claimed by ${owner}`)
+    }
+    return claimed
+  },
+
+  // Mark an automation's delegation as revoked and record the event
+  revoke: (id: string, revocation: { transactionHash?: string; isSimulated?: boolean; reason?: string } = {}): Automation | null => {
+    const automation = automationStorage.update(id, {
+      status: 'revoked',
+      nextExecution: undefined,
+      onChainActive: false,
+      revokedAt: new Date(),
+      revocationTxHash: revocation.transactionHash,
+    })
+    if (!automation) return null
+
+    eventStorage.create({
+      automationId: automation.id,
+      userAddress: automation.userAddress,
+      type: automation.type,
+      eventType: 'revoked',
+      status: 'revoked',
+      transactionHash: revocation.transactionHash,
+      chainId: automation.chainId,
+      isSimulated: revocation.isSimulated ?? automation.isSimulated,
+      params: automation.params,
+      details: {
+        delegationId: automation.delegationId,
+        reason: revocation.reason || 'user_revoked',
+      }
+    })
+    console.log(`🛑 Automation ${id} revoked`)
+    return automation
+  },
+
   // Delete automation
   delete: (id: string, userAddress: string): boolean => {
-    const index = automations.findIndex(auto => auto.id === id && auto.userAddress === userAddress)
-    if (index !== -1) {
-      automations.splice(index, 1)
+    let found = false
+    const automations = storage.update<Automation>(AUTOMATIONS, records => {
+      const remaining = records.filter(auto => !(auto.id === id && sameAddress(auto.userAddress, userAddress)))
+      found = remaining.length !== records.length
+      return remaining
+    })
+    if (found) {
       console.log(`🗑️ Automation ${id} deleted. Total automations: ${automations.length}`)
       return true
     }
@@ -146,7 +234,7 @@ export const automationStorage = {
 
   // Clear all automations (for testing)
   clear: (): void => {
-    automations.length = 0
+    storage.write(AUTOMATIONS, [])
     console.log('🧹 All automations cleared')
   }
 }
@@ -159,15 +247,15 @@ export const eventStorage = {
       id: `event_${Date.now()}_${Math.random().toString(36).substr(2, 9)}`,
       timestamp: new Date(),
     }
-    automationEvents.push(newEvent)
+    const automationEvents = storage.update<AutomationEvent>(AUTOMATION_EVENTS, events => [...events, newEvent])
     console.log(`📝 Event stored: ${event.eventType} for automation ${event.automationId} on chain ${event.chainId}. Total events: ${automationEvents.length}`)
     return newEvent
   },
 
   // Get events by user
   getByUser: (userAddress: string, limit?: number): AutomationEvent[] => {
-    const events = automationEvents
-      .filter(event => event.userAddress === userAddress)
+    const events = storage.read<AutomationEvent>(AUTOMATION_EVENTS)
+      .filter(event => sameAddress(event.userAddress, userAddress))
       .sort((a, b) => new Date(b.timestamp).getTime() - new Date(a.timestamp).getTime())
     
     console.log(`🔍 Getting events for user ${userAddress}. Found ${events.length} events total`)
@@ -178,7 +266,7 @@ export const eventStorage = {
 
   // Get events by automation
   getByAutomation: (automationId: string): AutomationEvent[] => {
-    const events = automationEvents
+    const events = storage.read<AutomationEvent>(AUTOMATION_EVENTS)
       .filter(event => event.automationId === automationId)
       .sort((a, b) => new Date(b.timestamp).getTime() - new Date(a.timestamp).getTime())
     
@@ -188,7 +276,7 @@ export const eventStorage = {
 
   // Get events by chain
   getByChain: (chainId: number, limit?: number): AutomationEvent[] => {
-    const events = automationEvents
+    const events = storage.read<AutomationEvent>(AUTOMATION_EVENTS)
       .filter(event => event.chainId === chainId)
       .sort((a, b) => new Date(b.timestamp).getTime() - new Date(a.timestamp).getTime())
     
@@ -200,13 +288,14 @@ export const eventStorage = {
 
   // Get all events (for debugging)
   getAll: (): AutomationEvent[] => {
+    const automationEvents = storage.read<AutomationEvent>(AUTOMATION_EVENTS)
     console.log(`📊 Total events in storage: ${automationEvents.length}`)
     return automationEvents
   },
 
   // Clear all events (for testing)
   clear: (): void => {
-    automationEvents.length = 0
+    storage.write(AUTOMATION_EVENTS, [])
     console.log('🧹 All events cleared')
   }
 }
\ No newline at end of file
@@ -0,0 +1,251 @@
+import {
+  createCaveatBuilder,
+  type Caveat,
+  type DeleGatorEnvironment,
+} from '@metamask/delegation-utils';
+import { isAddress, pad, parseEther, type Hex } from 'viem';
+import { getMinimumIntervalSeconds, scheduleFromParams, type Schedule } from './schedule';
+import { getProtocolCall, AdapterError } from './protocol-adapters';
+import { ERC20_TRANSFER_SELECTOR, isNativeCurrency, parseTokenAmount, resolvePaymentToken, TokenError, type TokenInfo } from './tokens';
+
+/**
+ * Serializable description of a caveat. Specs are planned when an automation
+ * is created (so they can be shown before signing), stored on the Automation,
+ * and turned into enforcer caveats for the chain's DeleGator environment at
+ * signing and verification time. Amounts are base-unit decimal strings.
+ */
+export type CaveatSpec = { description: string } & (
+  | { type: 'nativeTokenPeriodTransfer'; periodAmount: string; periodDuration: number; startDate: number }
+  | { type: 'erc20PeriodTransfer'; tokenAddress: Hex; periodAmount: string; periodDuration: number; startDate: number }
+  | { type: 'nativeTokenTransferAmount'; allowance: string }
+  | { type: 'erc20TransferAmount'; tokenAddress: Hex; maxAmount: string }
+  | { type: 'allowedTargets'; targets: Hex[] }
+  | { type: 'allowedMethods'; selectors: Hex[] }
+  | { type: 'allowedCalldata'; startIndex: number; value: Hex }
+  | { type: 'valueLte'; maxValue: string }
+  | { type: 'timestamp'; after: number; before: number }
+);
+
+export class CaveatError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'CaveatError';
+  }
+}
+
+export interface CaveatPlanOptions {
+  now?: Date;
+  validitySeconds?: number;
+}
+
+const DEFAULT_VALIDITY_SECONDS = Number(process.env.DELEGATION_VALIDITY_DAYS || 365) * 24 * 60 * 60;
+
+function formatDuration(seconds: number): string {
+  const units: [number, string][] = [[86400, 'day'], [3600, 'hour'], [60, 'minute']];
+  for (const [size, name] of units) {
+    if (seconds >= size && seconds % size === 0) {
+      const count = seconds / size;
+      return count === 1 ? name : `${count} ${name}s`;
+    }
+  }
+  return `${seconds} seconds`;
+}
+
+function requireAddress(value: string | undefined, label: string): Hex {
+  if (!value || !isAddress(value)) {
+    throw new CaveatError(`${label} must be a resolved 0x address to restrict the delegation (got "${value ?? ''}")`);
+  }
+  return value as Hex;
+}
+
+/**
+ * Plan the caveats that bound an automation's delegation:
+ * an amount cap per schedule period, allowed targets/recipients,
+ * allowed method selectors and a validity window.
+ */
+export function planAutomationCaveats(
+  automation: { type: string; params?: Record<string, any>; schedule?: Schedule; resolvedRecipient?: { address: string }; chainId?: number; userAddress?: string },
+  options: CaveatPlanOptions = {}
+): CaveatSpec[] {
+  const now = options.now || new Date();
+  const startDate = Math.floor(now.getTime() / 1000);
+  const validUntil = startDate + (options.validitySeconds || DEFAULT_VALIDITY_SECONDS);
+  const params = automation.params || {};
+  const schedule = automation.schedule || scheduleFromParams(params);
+  const specs: CaveatSpec[] = [];
+
+  switch (automation.type) {
+    case 'recurring_payment': {
+      // ENS names and contacts are capped at the address they resolved to
+      const recipient = requireAddress(automation.resolvedRecipient?.address ?? params.recipient, 'Recipient');
+      const recipientLabel = recipient.toLowerCase() === String(params.recipient).toLowerCase() ? recipient : `${params.recipient} (${recipient})`;
+      const currency = (params.currency || 'ETH').toUpperCase();
+      const periodDuration = schedule ? getMinimumIntervalSeconds(schedule, now) : undefined;
+
+      if (!params.amount || !/^\d+(\.\d+)?$/.test(params.amount)) {
+        throw new CaveatError(`Invalid payment amount "${params.amount ?? ''}"`);
+      }
+
+      if (isNativeCurrency(currency, automation.chainId)) {
+        const amount = parseEther(params.amount).toString();
+        specs.push(periodDuration
+          ? {
+              type: 'nativeTokenPeriodTransfer',
+              periodAmount: amount,
+              periodDuration,
+              startDate,
+              description: `Max ${params.amount} ${currency} per ${formatDuration(periodDuration)}`,
+            }
+          : {
+              type: 'nativeTokenTransferAmount',
+              allowance: amount,
+              description: `Max ${params.amount} ${currency} in total`,
+            });
+        specs.push({
+          type: 'allowedTargets',
+          targets: [recipient],
+          description: `Only pays ${recipientLabel}`,
+        });
+      } else {
+        // Token payments are capped in the token's own base units, so the chain must be known
+        if (!automation.chainId) {
+          throw new CaveatError(`Connect to a chain to cap ${currency} payments`);
+        }
+        let token: TokenInfo | null;
+        let amount: string;
+        try {
+          token = resolvePaymentToken(currency, automation.chainId);
+          amount = token ? parseTokenAmount(params.amount, token.decimals).toString() : '';
+        } catch (error) {
+          if (error instanceof TokenError) throw new CaveatError(error.message);
+          throw error;
+        }
+        if (!token) {
+          throw new CaveatError(`${currency} is not an ERC-20 on chain ${automation.chainId}`);
+        }
+        specs.push(periodDuration
+          ? {
+              type: 'erc20PeriodTransfer',
+              tokenAddress: token.address,
+              periodAmount: amount,
+              periodDuration,
+              startDate,
+              description: `Max ${params.amount} ${token.symbol} per ${formatDuration(periodDuration)}`,
+            }
+          : {
+              type: 'erc20TransferAmount',
+              tokenAddress: token.address,
+              maxAmount: amount,
+              description: `Max ${params.amount} ${token.symbol} in total`,
+            });
+        specs.push(
+          { type: 'allowedTargets', targets: [token.address], description: `Only calls the ${token.symbol} contract (${token.address})` },
+          { type: 'allowedMethods', selectors: [ERC20_TRANSFER_SELECTOR], description: 'Only transfer()' },
+          // transfer(to, amount): the recipient is the first argument after the selector
+          { type: 'allowedCalldata', startIndex: 4, value: pad(recipient.toLowerCase() as Hex, { size: 32 }), description: `Only pays ${recipientLabel}` },
+          { type: 'valueLte', maxValue: '0', description: 'Cannot send native tokens' },
+        );
+      }
+      break;
+    }
+
+    case 'reward_claim':
+    case 'staking': {
+      // The adapter decides which function is called; account arguments are pinned to the user
+      let call;
+      let selectors: Hex[];
+      let accountOffsets: number[];
+      try {
+        call = getProtocolCall({ type: automation.type, params });
+        selectors = call.adapter.getSelectors(call.action, params);
+        accountOffsets = call.adapter.getAccountArgOffsets(call.action, params);
+      } catch (error) {
+        if (error instanceof AdapterError) throw new CaveatError(error.message);
+        throw error;
+      }
+      const contract = requireAddress(call.contractAddress, 'Protocol contract');
+      specs.push(
+        { type: 'allowedTargets', targets: [contract], description: `Only calls ${contract} (${call.adapter.name})` },
+        { type: 'allowedMethods', selectors, description: `Only ${call.action === 'claim' ? 'claims' : call.action === 'stake' ? 'stakes' : 'compounds'} via ${selectors.join(', ')}` },
+      );
+      if (accountOffsets.length) {
+        const account = requireAddress(automation.userAddress, 'Account');
+        for (const startIndex of accountOffsets) {
+          specs.push({
+            type: 'allowedCalldata',
+            startIndex,
+            value: pad(account.toLowerCase() as Hex, { size: 32 }),
+            description: `Funds stay with ${account}`,
+          });
+        }
+      }
+      specs.push({ type: 'valueLte', maxValue: '0', description: 'Cannot send native tokens' });
+      break;
+    }
+
+    default:
+      // Reminders never redeem on chain, so grant nothing spendable
+      specs.push({ type: 'valueLte', maxValue: '0', description: 'Cannot send native tokens' });
+  }
+
+  specs.push({
+    type: 'timestamp',
+    after: startDate,
+    before: validUntil,
+    description: `Valid until ${new Date(validUntil * 1000).toISOString().slice(0, 10)}`,
+  });
+
+  return specs;
+}
+
+/**
+ * Turn planned specs into enforcer caveats for a DeleGator environment
+ */
+export function buildCaveats(specs: CaveatSpec[], environment: DeleGatorEnvironment): Caveat[] {
+  const builder = createCaveatBuilder(environment);
+
+  for (const spec of specs) {
+    switch (spec.type) {
+      case 'nativeTokenPeriodTransfer':
+        builder.addCaveat('nativeTokenPeriodTransfer', BigInt(spec.periodAmount), spec.periodDuration, spec.startDate);
+        break;
+      case 'erc20PeriodTransfer':
+        builder.addCaveat('erc20PeriodTransfer', spec.tokenAddress, BigInt(spec.periodAmount), spec.periodDuration, spec.startDate);
+        break;
+      case 'nativeTokenTransferAmount':
+        builder.addCaveat('nativeTokenTransferAmount', BigInt(spec.allowance));
+        break;
+      case 'erc20TransferAmount':
+        builder.addCaveat('erc20TransferAmount', spec.tokenAddress, BigInt(spec.maxAmount));
+        break;
+      case 'allowedTargets':
+        builder.addCaveat('allowedTargets', spec.targets);
+        break;
+      case 'allowedMethods':
+        builder.addCaveat('allowedMethods', spec.selectors);
+        break;
+      case 'allowedCalldata':
+        builder.addCaveat('allowedCalldata', spec.startIndex, spec.value);
+        break;
+      case 'valueLte':
+        builder.addCaveat('valueLte', BigInt(spec.maxValue));
+        break;
+      case 'timestamp':
+        builder.addCaveat('timestamp', spec.after, spec.before);
+        break;
+    }
+  }
+
+  return builder.build();
+}
+
+/**
+ * Check that a signed delegation carries exactly the expected caveats
+ */
+export function caveatsMatch(actual: Caveat[] | undefined, expected: Caveat[]): boolean {
+  if (!actual || actual.length !== expected.length) return false;
+  return expected.every((caveat, index) =>
+    actual[index].enforcer.toLowerCase() === caveat.enforcer.toLowerCase() &&
+    actual[index].terms.toLowerCase() === caveat.terms.toLowerCase()
+  );
+}
@@ -0,0 +1,215 @@
+import {
+  createPublicClient,
+  createWalletClient,
+  fallback,
+  http,
+  type Account,
+  type Chain,
+  type EIP1193Parameters,
+  type PublicClient,
+  type Transport,
+  type WalletClient,
+} from 'viem'
+import * as viemChains from 'viem/chains'
+import { getChainConfig } from './chains'
+
+/**
+ * One place to get viem clients for a chain. RPC URLs come from config, with
+ * several URLs per chain combined into a fallback transport; clients are
+ * built once per chain and stable responses (chain id, contract code) are
+ * cached. Tests inject a factory pointing at a local node with
+ * setChainClientFactory.
+ */
+export interface ChainClientFactoryOptions {
+  // RPC URLs per chain, tried in order; overrides the environment
+  rpcUrls?: Record<number, string[]>
+  // Full transport override, e.g. http('http://127.0.0.1:8545') or a custom() stub
+  transport?: (chainId: number) => Transport | undefined
+  // How long block numbers and cached responses stay fresh (ms)
+  cacheTime?: number
+}
+
+export class ChainClientError extends Error {
+  constructor(message: string) {
+    super(message)
+    this.name = 'ChainClientError'
+  }
+}
+
+const DEFAULT_CACHE_TIME = Number(process.env.RPC_CACHE_TIME_MS || 4_000)
+
+// Responses that only change on redeploys, so serving them from cache is safe
+const CACHED_METHODS = ['eth_chainId', 'net_version', 'eth_getCode']
+
+/**
+ * RPC URLs configured for the browser, e.g.
+ * NEXT_PUBLIC_RPC_URLS={"11155111":["https://rpc-a","https://rpc-b"]}
+ */
+function loadPublicRpcUrls(): Record<number, string[]> {
+  const raw = process.env.NEXT_PUBLIC_RPC_URLS
+  if (!raw) return {}
+  try {
+    const parsed = JSON.parse(raw) as Record<string, string | string[]>
+    return Object.fromEntries(Object.entries(parsed).map(([chainId, urls]) => [
+      Number(chainId),
+      (Array.isArray(urls) ? urls : [urls]).filter(Boolean),
+    ]))
+  } catch (error) {
+    console.error('❌ Ignoring invalid NEXT_PUBLIC_RPC_URLS:', error)
+    return {}
+  }
+}
+
+const publicRpcUrls = loadPublicRpcUrls()
+
+const splitUrls = (value?: string) => (value ? value.split(',').map(url => url.trim()).filter(Boolean) : [])
+
+// Serve CACHED_METHODS from memory for `ttl` ms; failed requests are not cached
+function withResponseCache(transport: Transport, ttl: number): Transport {
+  const cache = new Map<string, { expiresAt: number; response: Promise<unknown> }>()
+  return params => {
+    const base = transport(params)
+    const request = (async (args: EIP1193Parameters) => {
+      if (!CACHED_METHODS.includes(args.method)) return base.request(args)
+      const key = `${args.method}:${JSON.stringify(args.params ?? [])}`
+      const hit = cache.get(key)
+      if (hit && hit.expiresAt > Date.now()) return hit.response
+
+      const response = base.request(args)
+      cache.set(key, { expiresAt: Date.now() + ttl, response })
+      response.catch(() => cache.delete(key))
+      return response
+    }) as typeof base.request
+    return { ...base, request }
+  }
+}
+
+export class ChainClientFactory {
+  private readonly clients = new Map<number, PublicClient>()
+
+  constructor(private readonly options: ChainClientFactoryOptions = {}) {}
+
+  // Registry chains first, then any chain viem knows about
+  getChain(chainId: number): Chain | undefined {
+    return getChainConfig(chainId)?.chain
+      || (Object.values(viemChains) as Chain[]).find(chain => chain.id === chainId)
+  }
+
+  private requireChain(chainId: number): Chain {
+    const chain = this.getChain(chainId)
+    if (!chain) {
+      throw new ChainClientError(`Unknown chain ${chainId}`)
+    }
+    return chain
+  }
+
+  /**
+   * RPC URLs for a chain, first match wins: factory options, RPC_URL_<chainId>
+   * (comma-separated), the older EXECUTOR_RPC_URL_<chainId> (ENS_RPC_URL on
+   * mainnet), NEXT_PUBLIC_RPC_URLS, then the chain's public default
+   */
+  getRpcUrls(chainId: number): string[] {
+    const configured = this.options.rpcUrls?.[chainId]
+      || splitUrls(process.env[`RPC_URL_${chainId}`])
+    if (configured.length) return configured
+
+    const legacy = splitUrls(process.env[`EXECUTOR_RPC_URL_${chainId}`]
+      || (chainId === viemChains.mainnet.id ? process.env.ENS_RPC_URL : undefined))
+    if (legacy.length) return legacy
+
+    if (publicRpcUrls[chainId]?.length) return publicRpcUrls[chainId]
+    return [...(getChainConfig(chainId)?.rpcUrls || this.getChain(chainId)?.rpcUrls.default.http || [])]
+  }
+
+  getTransport(chainId: number): Transport {
+    const cacheTime = this.options.cacheTime ?? DEFAULT_CACHE_TIME
+    const override = this.options.transport?.(chainId)
+    if (override) return withResponseCache(override, cacheTime)
+
+    const urls = this.getRpcUrls(chainId)
+    if (!urls.length) {
+      throw new ChainClientError(`No RPC URL configured for chain ${chainId}`)
+    }
+    const transports = urls.map(url => http(url))
+    return withResponseCache(transports.length === 1 ? transports[0] : fallback(transports), cacheTime)
+  }
+
+  /** Shared public client for a chain, created on first use */
+  getPublicClient(chainId: number): PublicClient {
+    const existing = this.clients.get(chainId)
+    if (existing) return existing
+
+    const client = createPublicClient({
+      chain: this.requireChain(chainId),
+      transport: this.getTransport(chainId),
+      cacheTime: this.options.cacheTime ?? DEFAULT_CACHE_TIME,
+    }) as PublicClient
+    this.clients.set(chainId, client)
+    return client
+  }
+
+  /** Wallet client for a local account (e.g. the executor) on a chain */
+  getWalletClient(chainId: number, account: Account): WalletClient {
+    return createWalletClient({ account, chain: this.requireChain(chainId), transport: this.getTransport(chainId) })
+  }
+
+  // Drop cached clients, e.g. after RPC configuration changes
+  clear(): void {
+    this.clients.clear()
+  }
+}
+
+/**
+ * First block mined at or after `timestamp` (unix seconds), or the next block
+ * to be mined if the timestamp is in the future. Interpolates on block times
+ * and falls back to bisection, so it takes a handful of block reads.
+ */
+export async function findBlockByTimestamp(client: Pick<PublicClient, 'getBlock'>, timestamp: number): Promise<number> {
+  const readTimestamp = async (blockNumber: number) =>
+    Number((await client.getBlock({ blockNumber: BigInt(blockNumber) })).timestamp)
+
+  const head = await client.getBlock()
+  let high = Number(head.number)
+  let highTimestamp = Number(head.timestamp)
+  if (highTimestamp < timestamp) return high + 1
+
+  let low = 0
+  let lowTimestamp = await readTimestamp(0)
+  if (lowTimestamp >= timestamp) return 0
+
+  // Invariant: block `low` is before the timestamp, block `high` is at or after it
+  let bisect = false
+  while (high - low > 1) {
+    const interpolated = low + Math.floor((timestamp - lowTimestamp) * (high - low) / Math.max(highTimestamp - lowTimestamp, 1))
+    const guess = bisect
+      ? Math.floor((low + high) / 2)
+      : Math.min(Math.max(interpolated, low + 1), high - 1)
+    const guessTimestamp = await readTimestamp(guess)
+    const width = high - low
+    if (guessTimestamp < timestamp) {
+      low = guess
+      lowTimestamp = guessTimestamp
+    } else {
+      high = guess
+      highTimestamp = guessTimestamp
+    }
+    // Uneven block times can make interpolation crawl; bisect the next step if it barely helped
+    bisect = !bisect && high - low > width / 2
+  }
+  return high
+}
+
+let defaultFactory: ChainClientFactory | undefined
+
+export function getChainClientFactory(): ChainClientFactory {
+  defaultFactory = defaultFactory || new ChainClientFactory()
+  return defaultFactory
+}
+
+/** Replace the shared factory, e.g. to point every module at a local node in tests */
+export function setChainClientFactory(factory: ChainClientFactory | undefined): void {
+  defaultFactory = factory
+}
+
+// Convenience export
+export const getChainPublicClient = (chainId: number) => getChainClientFactory().getPublicClient(chainId)
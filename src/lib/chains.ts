@@ -0,0 +1,160 @@
+import { defineChain, isHash, keccak256, toHex, type Chain } from 'viem'
+import {
+  arbitrum,
+  arbitrumGoerli,
+  base,
+  baseGoerli,
+  goerli,
+  mainnet,
+  optimism,
+  optimismGoerli,
+  polygon,
+  polygonMumbai,
+  sepolia,
+} from 'viem/chains'
+import { hasCustomDelegatorEnvironment } from './delegator-environments'
+
+/**
+ * Everything the app knows about a chain, in one place. The wallet config,
+ * delegation service, chain clients, HyperSync tracker and API routes all
+ * read from CHAIN_REGISTRY, so supporting a new chain is a single entry here.
+ */
+export interface ChainConfig {
+  id: number
+  // Display name, e.g. "Monad Testnet"
+  name: string
+  // Short identifier used by HyperSync and in tracked events, e.g. "monad-testnet"
+  slug: string
+  chain: Chain
+  // Public RPC endpoints; RPC_URL_<chainId> and friends override them (see chain-clients)
+  rpcUrls: readonly string[]
+  explorerUrl: string
+  hypersyncUrl?: string
+  // MetaMask DelegationManager is deployed, so real delegations can be created and redeemed.
+  // A custom deployment (NEXT_PUBLIC_DELEGATOR_ENVIRONMENTS) enables any chain.
+  supportsDelegation: boolean
+  // Simulated delegations are accepted (overridable with NEXT_PUBLIC_SIMULATION_CHAIN_IDS)
+  simulation: boolean
+  // Offered in the wallet connector
+  wallet: boolean
+}
+
+export const monadTestnet = defineChain({
+  id: 10143,
+  name: 'Monad Testnet',
+  network: 'monad-testnet',
+  nativeCurrency: {
+    decimals: 18,
+    name: 'Monad',
+    symbol: 'MON',
+  },
+  rpcUrls: {
+    default: { http: ['https://testnet-rpc.monad.xyz'] },
+    public: { http: ['https://testnet-rpc.monad.xyz'] },
+  },
+  blockExplorers: {
+    default: { name: 'Monad Explorer', url: 'https://testnet.monadexplorer.com' },
+  },
+  testnet: true,
+})
+
+type ChainEntry = Omit<ChainConfig, 'rpcUrls' | 'explorerUrl' | 'supportsDelegation' | 'simulation' | 'wallet'>
+  & Partial<Pick<ChainConfig, 'supportsDelegation' | 'simulation' | 'wallet'>>
+
+// RPC and explorer default to the viem chain definition
+const entry = ({ supportsDelegation = true, simulation = false, wallet = false, ...config }: ChainEntry): ChainConfig => ({
+  ...config,
+  rpcUrls: config.chain.rpcUrls.default.http,
+  explorerUrl: config.chain.blockExplorers?.default.url || 'https://etherscan.io',
+  supportsDelegation,
+  simulation,
+  wallet,
+})
+
+export const CHAIN_REGISTRY: readonly ChainConfig[] = [
+  // Primary focus: Monad (simulated until a DeleGator deployment is configured)
+  entry({
+    id: 10143,
+    name: 'Monad Testnet',
+    slug: 'monad-testnet',
+    chain: monadTestnet,
+    hypersyncUrl: 'https://monad-testnet.hypersync.xyz',
+    supportsDelegation: false,
+    simulation: true,
+    wallet: true,
+  }),
+
+  // Ethereum ecosystem
+  entry({ id: 1, name: 'Ethereum Mainnet', slug: 'ethereum', chain: mainnet, hypersyncUrl: 'https://eth.hypersync.xyz', wallet: true }),
+  entry({ id: 11155111, name: 'Sepolia', slug: 'sepolia', chain: sepolia, hypersyncUrl: 'https://sepolia.hypersync.xyz', wallet: true }),
+  entry({ id: 5, name: 'Goerli', slug: 'goerli', chain: goerli }),
+
+  // L2s and other supported
+  entry({ id: 137, name: 'Polygon', slug: 'polygon', chain: polygon, hypersyncUrl: 'https://polygon.hypersync.xyz' }),
+  entry({ id: 80001, name: 'Mumbai', slug: 'mumbai', chain: polygonMumbai }),
+  entry({ id: 42161, name: 'Arbitrum One', slug: 'arbitrum', chain: arbitrum, hypersyncUrl: 'https://arbitrum.hypersync.xyz' }),
+  entry({ id: 421613, name: 'Arbitrum Goerli', slug: 'arbitrum-goerli', chain: arbitrumGoerli }),
+  entry({ id: 10, name: 'Optimism', slug: 'optimism', chain: optimism, hypersyncUrl: 'https://optimism.hypersync.xyz' }),
+  entry({ id: 420, name: 'Optimism Goerli', slug: 'optimism-goerli', chain: optimismGoerli }),
+  entry({ id: 8453, name: 'Base', slug: 'base', chain: base, hypersyncUrl: 'https://base.hypersync.xyz' }),
+  entry({ id: 84531, name: 'Base Goerli', slug: 'base-goerli', chain: baseGoerli }),
+]
+
+export const DEFAULT_CHAIN_ID = monadTestnet.id
+
+// Comma-separated chain IDs replacing the registry's simulation flags, e.g. for a devnet
+const SIMULATION_CHAIN_IDS = process.env.NEXT_PUBLIC_SIMULATION_CHAIN_IDS
+  ?.split(',')
+  .map(id => Number(id.trim()))
+  .filter(Boolean)
+
+export function getChainConfig(chainId: number): ChainConfig | undefined {
+  return CHAIN_REGISTRY.find(config => config.id === chainId)
+}
+
+export function getChainName(chainId: number): string {
+  return getChainConfig(chainId)?.name || `Chain ${chainId}`
+}
+
+export function getChainSlug(chainId: number): string {
+  return getChainConfig(chainId)?.slug || `chain-${chainId}`
+}
+
+// Marks transaction hashes of simulated delegations and executions, which never reach a chain
+export const SIMULATED_TX_PREFIX = 'sim_'
+
+export function createSimulatedTransactionHash(): string {
+  return `${SIMULATED_TX_PREFIX}${keccak256(toHex(`${Date.now()}:${Math.random()}`))}`
+}
+
+export function isSimulatedTransactionHash(transactionHash: string): boolean {
+  return transactionHash.startsWith(SIMULATED_TX_PREFIX)
+}
+
+/** Explorer link for a real transaction; undefined for simulated or malformed hashes */
+export function getExplorerTxUrl(chainId: number, transactionHash: string): string | undefined {
+  if (!isHash(transactionHash)) return undefined
+  const explorerUrl = getChainConfig(chainId)?.explorerUrl || 'https://etherscan.io'
+  return `${explorerUrl}/tx/${transactionHash}`
+}
+
+export function getHyperSyncUrl(chainId: number): string | undefined {
+  return getChainConfig(chainId)?.hypersyncUrl
+}
+
+export function supportsDelegation(chainId: number): boolean {
+  return !!getChainConfig(chainId)?.supportsDelegation || hasCustomDelegatorEnvironment(chainId)
+}
+
+/** Chains where simulated delegations are accepted */
+export function isSimulationChain(chainId: number): boolean {
+  if (SIMULATION_CHAIN_IDS) return SIMULATION_CHAIN_IDS.includes(chainId)
+  return !!getChainConfig(chainId)?.simulation
+}
+
+export function getNativeCurrencySymbol(chainId: number): string | undefined {
+  return getChainConfig(chainId)?.chain.nativeCurrency.symbol
+}
+
+// Chains offered in the wallet connector
+export const WALLET_CHAINS = CHAIN_REGISTRY.filter(config => config.wallet).map(config => config.chain)
@@ -0,0 +1,155 @@
+import type { Automation } from './automation'
+import { parseSchedule, DEFAULT_TIMEZONE, type Schedule } from './schedule'
+import { getStorageBackend } from './storage'
+import { parseProtocolParams } from './protocol-adapters'
+import type { ProtocolParams } from './automation-schema'
+
+/**
+ * Partially specified automation collected over several chat turns
+ */
+export interface AutomationDraft {
+  type: Automation['type']
+  params: Record<string, any>
+  schedule?: Schedule
+}
+
+export interface ConversationSession {
+  id: string
+  userAddress: string
+  draft?: AutomationDraft
+  missingFields: string[]
+  updatedAt: Date
+}
+
+export type DraftFields = Partial<{
+  amount: string
+  currency: string
+  recipient: string
+  contractAddress: string
+  message: string
+  schedule: Schedule
+}> & Partial<Omit<ProtocolParams, 'contractAddress'>>
+
+const CONVERSATION_SESSIONS = 'conversation_sessions'
+
+// Drafts older than this are forgotten
+const SESSION_TTL_MS = Number(process.env.CONVERSATION_TTL_MINUTES || 30) * 60 * 1000
+
+// Fields that must be known before an automation of each type can be created
+const REQUIRED_FIELDS: Record<AutomationDraft['type'], string[]> = {
+  recurring_payment: ['amount', 'recipient', 'frequency'],
+  reward_claim: ['frequency'],
+  staking: ['frequency'],
+  reminder: ['message'],
+}
+
+const QUESTIONS: Record<string, string> = {
+  amount: 'How much should I send (e.g. "0.05 ETH")?',
+  recipient: 'Who should I pay? Give me an address or ENS name.',
+  frequency: 'How often should it run (e.g. "every Friday at 2 PM", "monthly")?',
+  message: 'What should I remind you about?',
+}
+
+const ADDRESS_PATTERN = /\b(0x[a-fA-F0-9]{40})\b/
+const ENS_PATTERN = /\b([a-zA-Z0-9-]+\.eth)\b/
+
+/**
+ * Missing fields of a draft, in the order they should be asked for
+ */
+export function getMissingFields(draft: AutomationDraft): string[] {
+  return REQUIRED_FIELDS[draft.type].filter(field =>
+    field === 'frequency' ? !draft.schedule : !draft.params[field]
+  )
+}
+
+export function getQuestion(field: string): string {
+  return QUESTIONS[field] || `Please provide the ${field}.`
+}
+
+/**
+ * Pull whatever automation fields a message contains. Bare values ("0.05",
+ * "0xabc…") are accepted for the fields the draft is still missing.
+ * `contact` is an address book name mentioned in the message, if any.
+ */
+export function extractDraftFields(
+  message: string,
+  draft: AutomationDraft | undefined,
+  timezone: string = DEFAULT_TIMEZONE,
+  contact?: string | null
+): DraftFields {
+  const fields: DraftFields = {}
+  const missing = draft ? getMissingFields(draft) : []
+  const text = message.trim()
+
+  const amount = text.match(/(\d+\.?\d*)\s*(ETH|USDC|USDT|MON)\b/i)
+  if (amount) {
+    fields.amount = amount[1]
+    // Staking amounts are in the vault's or contract's own asset
+    if (draft?.type !== 'staking') fields.currency = amount[2].toUpperCase()
+  } else if (missing.includes('amount') && /^\d+\.?\d*$/.test(text)) {
+    fields.amount = text
+  }
+
+  const address = text.match(ADDRESS_PATTERN)?.[1]
+  const ens = text.match(ENS_PATTERN)?.[1]
+  if (draft?.type === 'reward_claim' || draft?.type === 'staking') {
+    if (address) fields.contractAddress = address
+    const { amount: stakeAmount, ...protocol } = parseProtocolParams(text)
+    Object.assign(fields, protocol)
+    if (stakeAmount && draft.type === 'staking') fields.amount = stakeAmount
+  } else if (address || ens || contact) {
+    fields.recipient = address || ens || contact || undefined
+  }
+
+  const schedule = parseSchedule(text, timezone)
+  if (schedule) fields.schedule = schedule
+
+  if (draft?.type === 'reminder' && missing.includes('message')) {
+    fields.message = text
+  }
+
+  return fields
+}
+
+/**
+ * Merge newly extracted fields into a draft
+ */
+export function mergeDraft(draft: AutomationDraft, fields: DraftFields): AutomationDraft {
+  const { schedule, ...params } = fields
+  const defaults = draft.type === 'recurring_payment' ? { currency: 'ETH' } : {}
+  return {
+    ...draft,
+    params: { ...defaults, ...draft.params, ...params },
+    schedule: schedule || draft.schedule,
+  }
+}
+
+export const conversationStorage = {
+  // Get a user's live session
+  get: (id: string, userAddress: string): ConversationSession | null => {
+    const now = Date.now()
+    const session = getStorageBackend().read<ConversationSession>(CONVERSATION_SESSIONS)
+      .find(entry => entry.id === id && entry.userAddress.toLowerCase() === userAddress.toLowerCase())
+    if (!session || now - new Date(session.updatedAt).getTime() > SESSION_TTL_MS) return null
+    return session
+  },
+
+  // Save a session, dropping expired ones
+  save: (session: Omit<ConversationSession, 'updatedAt'>): ConversationSession => {
+    const now = Date.now()
+    const saved: ConversationSession = { ...session, updatedAt: new Date(now) }
+    getStorageBackend().update<ConversationSession>(CONVERSATION_SESSIONS, sessions => [
+      ...sessions
+        .filter(entry => !(entry.id === session.id && entry.userAddress === session.userAddress))
+        .filter(entry => now - new Date(entry.updatedAt).getTime() <= SESSION_TTL_MS),
+      saved,
+    ])
+    console.log(`💬 Conversation ${session.id} saved (missing: ${session.missingFields.join(', ') || 'none'})`)
+    return saved
+  },
+
+  // Forget the draft once an automation has been created from it
+  clearDraft: (id: string, userAddress: string): void => {
+    conversationStorage.save({ id, userAddress, draft: undefined, missingFields: [] })
+  },
+}
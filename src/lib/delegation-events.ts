@@ -0,0 +1,230 @@
+import { DelegationManager } from '@metamask/delegation-utils'
+import {
+  decodeEventLog,
+  encodeEventTopics,
+  erc20Abi,
+  formatUnits,
+  getAddress,
+  pad,
+  type Hex,
+} from 'viem'
+import { getChainTokens } from './tokens'
+
+/**
+ * Typed records for the on-chain side of automations, decoded from logs:
+ * DelegationManager events (a delegation enabled, disabled or redeemed by an
+ * executor) and the ERC-20 Transfers those redemptions move. Joining a
+ * redemption with the transfers in the same transaction gives an execution
+ * with amount, token and recipient.
+ */
+
+// A log as returned by HyperSync (topic0..topic3) or viem (topics array)
+export interface RawLog {
+  address: string
+  data: Hex
+  topics?: readonly (Hex | null)[]
+  topic0?: Hex | null
+  topic1?: Hex | null
+  topic2?: Hex | null
+  topic3?: Hex | null
+  block_number?: number | string
+  blockNumber?: number | bigint | string
+  transaction_hash?: Hex
+  transactionHash?: Hex
+  log_index?: number | string
+  logIndex?: number | string
+  block_timestamp?: number
+}
+
+interface LogRecordBase {
+  chainId: number
+  address: `0x${string}`
+  transactionHash: Hex
+  blockNumber: number
+  logIndex: number
+  // Unix seconds, when the source provides it
+  blockTimestamp?: number
+}
+
+export interface DelegationStatusRecord extends LogRecordBase {
+  kind: 'delegation_enabled' | 'delegation_disabled'
+  delegationHash: Hex
+  delegator: `0x${string}`
+  delegate: `0x${string}`
+}
+
+export interface DelegationRedeemedRecord extends LogRecordBase {
+  kind: 'delegation_redeemed'
+  // Account whose funds the redemption spends (the user)
+  rootDelegator: `0x${string}`
+  // Account that redeemed the delegation (our executor)
+  redeemer: `0x${string}`
+  delegator: `0x${string}`
+  delegate: `0x${string}`
+}
+
+export interface TokenTransferRecord extends LogRecordBase {
+  kind: 'token_transfer'
+  token: `0x${string}`
+  // Known for tokens in the token registry
+  symbol?: string
+  decimals?: number
+  from: `0x${string}`
+  to: `0x${string}`
+  amount: bigint
+}
+
+export type DelegationManagerRecord = DelegationStatusRecord | DelegationRedeemedRecord
+export type DecodedLogRecord = DelegationManagerRecord | TokenTransferRecord
+
+/** A redemption joined with the token transfer it made */
+export interface AutomationExecutionRecord {
+  chainId: number
+  transactionHash: Hex
+  blockNumber: number
+  blockTimestamp?: number
+  delegator: `0x${string}`
+  executor: `0x${string}`
+  // Missing when the redemption moved no ERC-20 (e.g. a native transfer, which emits no log)
+  token?: `0x${string}`
+  symbol?: string
+  // Human-readable when the token's decimals are known, base units otherwise
+  amount?: string
+  rawAmount?: bigint
+  recipient?: `0x${string}`
+}
+
+const topic = (eventName: 'EnabledDelegation' | 'DisabledDelegation' | 'RedeemedDelegation') =>
+  encodeEventTopics({ abi: DelegationManager.abi, eventName })[0] as Hex
+
+export const DELEGATION_EVENT_TOPICS = {
+  enabled: topic('EnabledDelegation'),
+  disabled: topic('DisabledDelegation'),
+  redeemed: topic('RedeemedDelegation'),
+}
+
+export const ERC20_TRANSFER_TOPIC = encodeEventTopics({ abi: erc20Abi, eventName: 'Transfer' })[0] as Hex
+
+// An address as an indexed topic, for log filters
+export const addressTopic = (address: string): Hex => pad(address.toLowerCase() as Hex, { size: 32 })
+
+function logTopics(log: RawLog): [Hex, ...Hex[]] | [] {
+  const topics = log.topics || [log.topic0, log.topic1, log.topic2, log.topic3]
+  const present = topics.filter((value): value is Hex => !!value)
+  return present as [Hex, ...Hex[]] | []
+}
+
+function logBase(log: RawLog, chainId: number): LogRecordBase {
+  return {
+    chainId,
+    address: getAddress(log.address),
+    transactionHash: (log.transaction_hash || log.transactionHash) as Hex,
+    blockNumber: Number(log.block_number ?? log.blockNumber),
+    logIndex: Number(log.log_index ?? log.logIndex ?? 0),
+    blockTimestamp: log.block_timestamp,
+  }
+}
+
+/** Decode a DelegationManager log, or null for other events and other contracts' logs */
+export function decodeDelegationManagerLog(log: RawLog, chainId: number): DelegationManagerRecord | null {
+  const topics = logTopics(log)
+  const signature = topics[0]
+  if (!signature || !Object.values(DELEGATION_EVENT_TOPICS).includes(signature)) return null
+
+  try {
+    const { eventName, args } = decodeEventLog({ abi: DelegationManager.abi, data: log.data, topics }) as {
+      eventName: string
+      args: Record<string, any>
+    }
+    const base = logBase(log, chainId)
+
+    if (eventName === 'RedeemedDelegation') {
+      return {
+        ...base,
+        kind: 'delegation_redeemed',
+        rootDelegator: getAddress(args.rootDelegator),
+        redeemer: getAddress(args.redeemer),
+        delegator: getAddress(args.delegation.delegator),
+        delegate: getAddress(args.delegation.delegate),
+      }
+    }
+    return {
+      ...base,
+      kind: eventName === 'EnabledDelegation' ? 'delegation_enabled' : 'delegation_disabled',
+      delegationHash: args.delegationHash,
+      delegator: getAddress(args.delegator),
+      delegate: getAddress(args.delegate),
+    }
+  } catch (error) {
+    console.warn('Could not decode DelegationManager log:', error)
+    return null
+  }
+}
+
+/** Decode an ERC-20 Transfer log, or null for anything else (including ERC-721 transfers) */
+export function decodeTransferLog(log: RawLog, chainId: number): TokenTransferRecord | null {
+  const topics = logTopics(log)
+  // ERC-721 Transfer shares the signature but indexes the token id as a fourth topic
+  if (topics[0] !== ERC20_TRANSFER_TOPIC || topics.length !== 3) return null
+
+  try {
+    const { args } = decodeEventLog({ abi: erc20Abi, eventName: 'Transfer', data: log.data, topics })
+    const base = logBase(log, chainId)
+    const token = getChainTokens(chainId).find(known => known.address.toLowerCase() === base.address.toLowerCase())
+    return {
+      ...base,
+      kind: 'token_transfer',
+      token: base.address,
+      symbol: token?.symbol,
+      decimals: token?.decimals,
+      from: getAddress(args.from),
+      to: getAddress(args.to),
+      amount: args.value,
+    }
+  } catch (error) {
+    console.warn('Could not decode Transfer log:', error)
+    return null
+  }
+}
+
+/**
+ * Decode the logs we understand, in chain order. Pass the DelegationManager
+ * address so look-alike events from other contracts are ignored.
+ */
+export function decodeLogs(logs: RawLog[], chainId: number, delegationManager?: string): DecodedLogRecord[] {
+  const manager = delegationManager?.toLowerCase()
+  return logs
+    .map(log => (!manager || log.address.toLowerCase() === manager ? decodeDelegationManagerLog(log, chainId) : null)
+      || decodeTransferLog(log, chainId))
+    .filter((record): record is DecodedLogRecord => !!record)
+    .sort((a, b) => a.blockNumber - b.blockNumber || a.logIndex - b.logIndex)
+}
+
+/**
+ * Pair each redemption with the first transfer out of the delegator's account
+ * in the same transaction
+ */
+export function toExecutionRecords(records: DecodedLogRecord[]): AutomationExecutionRecord[] {
+  const transfers = records.filter((record): record is TokenTransferRecord => record.kind === 'token_transfer')
+
+  return records
+    .filter((record): record is DelegationRedeemedRecord => record.kind === 'delegation_redeemed')
+    .map(redemption => {
+      const transfer = transfers.find(candidate =>
+        candidate.transactionHash === redemption.transactionHash && candidate.from === redemption.rootDelegator
+      )
+      return {
+        chainId: redemption.chainId,
+        transactionHash: redemption.transactionHash,
+        blockNumber: redemption.blockNumber,
+        blockTimestamp: redemption.blockTimestamp,
+        delegator: redemption.rootDelegator,
+        executor: redemption.redeemer,
+        token: transfer?.token,
+        symbol: transfer?.symbol,
+        amount: transfer && (transfer.decimals !== undefined ? formatUnits(transfer.amount, transfer.decimals) : transfer.amount.toString()),
+        rawAmount: transfer?.amount,
+        recipient: transfer?.to,
+      }
+    })
+}
@@ -1,18 +1,46 @@
 import {
-  getDeleGatorEnvironment,
   createDelegation,
   signDelegation,
   createExecution,
   getDelegationHashOffchain,
+  redeemDelegations,
+  toDelegationStruct,
+  DelegationManager,
+  SIGNABLE_DELEGATION_TYPED_DATA,
+  SINGLE_DEFAULT_MODE,
+  encodeExecutionCalldatas,
+  encodePermissionContexts,
   type Delegation,
   type ExecutionStruct,
 } from '@metamask/delegation-utils';
-import { type WalletClient, getAddress, createPublicClient, http } from 'viem';
-import { mainnet } from 'viem/chains';
+import { type WalletClient, type PublicClient, type Hex, type Transport, encodeFunctionData, getAddress, hashTypedData, isAddress, isErc6492Signature, parseErc6492Signature, parseEther } from 'viem';
+import { planAutomationCaveats, buildCaveats, CaveatError } from './caveats';
+import { validateAutomationParams } from './automation-schema';
+import { encodeErc20Transfer, parseTokenAmount, resolvePaymentToken } from './tokens';
+import { buildProtocolCalldata } from './protocol-adapters';
+import {
+  getBundlerClient,
+  getExecutorSmartAccount,
+  getExecutorSmartAccountAddress,
+  getUserOperationResult,
+  isContractAccount,
+  isUserOperationKnown,
+  sendUserOperationCall,
+  type UserOperationResult,
+} from './smart-account';
+import { signWithPasskey } from './passkey-signer';
+import { getChainClientFactory, type ChainClientFactory } from './chain-clients';
+import { DEFAULT_CHAIN_ID, createSimulatedTransactionHash, isSimulationChain, supportsDelegation } from './chains';
+import { findDelegatorEnvironment, getDelegatorEnvironment } from './delegator-environments';
+import type { Automation } from './automation';
 
 export interface DelegationResult {
   success: boolean;
   transactionHash?: string;
+  // Set when the transaction was sent as an ERC-4337 UserOperation
+  userOperationHash?: string;
+  // Block the transaction was included in, when already known
+  blockNumber?: number;
   delegationId?: string;
   error?: string;
   delegation?: Delegation;
@@ -23,23 +51,45 @@ export interface DelegationResult {
   userMessage?: string; // Changed from 'message' to 'userMessage'
 }
 
+// EIP-712 domain of the DelegationManager contract
+export const DELEGATION_DOMAIN_NAME = 'DelegationManager';
+export const DELEGATION_DOMAIN_VERSION = '1';
+
+// Account that redeems delegations on the user's behalf
+export function getPlatformExecutorAddress(): `0x${string}` | undefined {
+  const address = process.env.NEXT_PUBLIC_EXECUTOR_ADDRESS;
+  return address ? getAddress(address) : undefined;
+}
+
+// What signing needs from an automation, saved or still a draft in the chat:
+// the caveats planned for it, or the fields to plan them from
+export type DelegationDraft = Pick<Automation, 'type' | 'params' | 'schedule' | 'caveats' | 'resolvedRecipient' | 'userAddress' | 'chainId'>;
+
+export interface DelegationSigningOptions {
+  // Registered passkey to sign with instead of the wallet (smart accounts only)
+  passkeyCredentialId?: string;
+}
+
+export interface DelegationSubmissionOptions {
+  // Transaction that puts the delegation on chain, sent from the user's wallet;
+  // omitted, the one the delegation needs (if any) is built by getDelegationSubmission
+  transaction?: { to: `0x${string}`; data?: Hex; value?: bigint };
+  // Client used to wait for the receipt; defaults to the chain client
+  publicClient?: PublicClient;
+}
+
+export interface DelegationServiceOptions {
+  // Bundler RPC override for UserOperations (e.g. the local bundler stand-in)
+  bundlerTransport?: Transport;
+  // Chain clients; defaults to the shared factory
+  chainClients?: ChainClientFactory;
+}
+
 export class DelegationService {
-  private readonly supportedChains = [
-    1, // Ethereum mainnet
-    11155111, // Sepolia
-    5, // Goerli
-    137, // Polygon
-    80001, // Mumbai
-    42161, // Arbitrum One
-    421613, // Arbitrum Goerli
-    10, // Optimism
-    420, // Optimism Goerli
-    8453, // Base mainnet
-    84531, // Base Goerli
-  ];
+  constructor(private readonly options: DelegationServiceOptions = {}) {}
 
   private isChainSupported(chainId: number): boolean {
-    return this.supportedChains.includes(chainId);
+    return supportsDelegation(chainId);
   }
 
   /**
@@ -48,17 +98,10 @@ export class DelegationService {
   private async isSmartContractWallet(address: string, chainId: number): Promise<boolean> {
     try {
       console.log('🔍 Checking if wallet is smart contract...');
-      
-      // Create a public client to check bytecode (WalletClient doesn't have getBytecode)
-      const publicClient = createPublicClient({
-        chain: mainnet, // Use mainnet as fallback, or you can make this chain-specific
-        transport: http()
-      });
-      
-      // Check if the address has contract code
-      const code = await publicClient.getBytecode({ address: address as `0x${string}` });
-      const isSCW = code !== undefined && code !== '0x';
-      
+
+      // Check for contract code on the chain the delegation is for
+      const isSCW = await isContractAccount(this.getPublicClient(chainId), address);
+
       console.log(`🏷️ Wallet type: ${isSCW ? 'Smart Contract Wallet' : 'EOA (External Owned Account)'}`);
       return isSCW;
       
@@ -121,10 +164,11 @@ export class DelegationService {
    * Create and sign a delegation, or simulate one if unsupported chain (e.g., Monad)
    */
   async createSignedDelegation(
-    automation: any,
+    automation: DelegationDraft,
     walletClient: WalletClient,
     userAddress: string,
-    chainId: number
+    chainId: number,
+    signing: DelegationSigningOptions = {}
   ): Promise<DelegationResult> {
     try {
       const isSupported = this.isChainSupported(chainId);
@@ -134,35 +178,35 @@ export class DelegationService {
       if (!isSupported) {
         console.log(`🧪 Simulation mode active for unsupported chain ${chainId}`);
         const simulated = await this.createSimulatedDelegation(userAddress, chainId, 'unsupported_chain');
-        return {
-          ...simulated,
-          userMessage: this.getSimulationMessage(false, userAddress) // false = not SCW
-        };
+        return this.withUserMessage(simulated, this.getSimulationMessage(false, userAddress));
       }
 
       // 🔍 DETECT SMART CONTRACT WALLETS EARLY
       const isSCW = await this.isSmartContractWallet(userAddress, chainId);
-      const canSign = await this.canSignDelegations(walletClient, chainId);
+      // A smart account's passkey signs without the wallet, so don't prompt it for a test signature
+      const passkeyCredentialId = isSCW ? signing.passkeyCredentialId : undefined;
+      const canSign = passkeyCredentialId ? true : await this.canSignDelegations(walletClient, chainId);
+
+      // Smart accounts sign via EIP-1271 and delegate to the executor's smart account,
+      // which redeems through a bundler; without one configured they can only simulate
+      const scwUnsupported = isSCW && !getExecutorSmartAccountAddress();
 
-      if (isSCW || !canSign) {
-        console.log(`🔒 Smart contract wallet or non-signing wallet detected - using simulation mode`);
+      if (scwUnsupported || !canSign) {
+        console.log(`🔒 Unsupported smart contract wallet or non-signing wallet detected - using simulation mode`);
         console.log(`📊 Wallet details: SCW=${isSCW}, CanSign=${canSign}`);
         
         const simulated = await this.createSimulatedDelegation(
           userAddress, 
           chainId, 
-          isSCW ? 'smart_contract_wallet' : 'signing_unsupported'
+          scwUnsupported ? 'smart_contract_wallet' : 'signing_unsupported'
         );
         
-        return {
-          ...simulated,
-          userMessage: this.getSimulationMessage(isSCW, userAddress)
-        };
+        return this.withUserMessage(simulated, this.getSimulationMessage(scwUnsupported, userAddress));
       }
 
-      // ✅ REAL DELEGATION FLOW (only for EOA wallets that can sign)
-      console.log('✅ Proceeding with real delegation for EOA wallet');
-      return await this.createRealDelegation(automation, walletClient, userAddress, chainId);
+      // ✅ REAL DELEGATION FLOW
+      console.log(`✅ Proceeding with real delegation for ${isSCW ? 'smart contract wallet' : 'EOA wallet'}`);
+      return await this.createRealDelegation(automation, walletClient, userAddress, chainId, isSCW, passkeyCredentialId);
       
     } catch (error) {
       console.error('❌ Delegation signing failed:', error);
@@ -170,40 +214,72 @@ export class DelegationService {
       // Use simulation mode directly instead of recursive call
       console.log('🔄 Using simulation mode due to signing failure');
       const simulated = await this.createSimulatedDelegation(userAddress, chainId, 'error_fallback');
-      return {
-        ...simulated,
-        userMessage: 'An unexpected error occurred. Using simulation mode.'
-      };
+      return this.withUserMessage(simulated, 'An unexpected error occurred. Using simulation mode.');
     }
   }
 
   /**
-   * Real delegation flow for EOA wallets
+   * Real delegation flow. EOAs sign with ECDSA and delegate to the executor
+   * account; smart accounts sign the same typed data through EIP-1271 and
+   * delegate to the executor's smart account. A smart account's registered
+   * passkey can sign in place of the wallet.
    */
   private async createRealDelegation(
-    automation: any,
+    automation: DelegationDraft,
     walletClient: WalletClient,
     userAddress: string,
-    chainId: number
+    chainId: number,
+    isSCW: boolean = false,
+    passkeyCredentialId?: string
   ): Promise<DelegationResult> {
-    const environment = getDeleGatorEnvironment(chainId);
-    if (!environment || !environment.DelegationManager) {
+    const environment = findDelegatorEnvironment(chainId);
+    if (!environment) {
       console.warn(`⚠️ No DelegationManager found for chain ${chainId}`);
       const simulated = await this.createSimulatedDelegation(userAddress, chainId, 'no_delegation_manager');
+      return this.withUserMessage(simulated, 'Network not configured for delegations. Using simulation mode.');
+    }
+
+    console.log('🏗️ Creating base delegation structure...');
+
+    // Delegate to the platform executor so it can redeem on schedule
+    const delegate = isSCW ? getExecutorSmartAccountAddress() : getPlatformExecutorAddress();
+    if (!delegate) {
       return {
-        ...simulated,
-        userMessage: 'Network not configured for delegations. Using simulation mode.'
+        success: false,
+        error: 'Platform executor address is not configured (NEXT_PUBLIC_EXECUTOR_ADDRESS)',
+        chainId,
+        userMessage: '❌ Automations are not available: the platform executor is not configured.'
       };
     }
 
-    console.log('🏗️ Creating base delegation structure...');
+    // Bound the delegation with the caveats planned (and shown) at creation
+    let caveats;
+    try {
+      // Token caps are chain-specific, so plans made for another chain are redone for this one
+      const plannedForChain = automation.chainId === undefined || automation.chainId === chainId;
+      const specs = automation.caveats?.length && plannedForChain
+        ? automation.caveats
+        : planAutomationCaveats({ ...automation, chainId });
+      caveats = buildCaveats(specs, environment);
+      console.log(`🛡️ Applying ${caveats.length} caveats`);
+    } catch (error) {
+      if (error instanceof CaveatError) {
+        return {
+          success: false,
+          error: error.message,
+          chainId,
+          userMessage: `❌ Cannot create a restricted delegation: ${error.message}`
+        };
+      }
+      throw error;
+    }
 
     // Create delegation with proper structure
+    // Root delegation: no parent, authority resolves to ROOT_AUTHORITY
     const emptyDelegation = createDelegation({
-      to: userAddress as `0x${string}`,
+      to: delegate,
       from: userAddress as `0x${string}`,
-      parentDelegation: '0x0000000000000000000000000000000000000000000000000000000000000000' as `0x${string}`,
-      caveats: []
+      caveats
     });
 
     emptyDelegation.salt = `0x${Math.random().toString(16).substring(2, 18).padEnd(64, '0')}`;
@@ -214,19 +290,16 @@ export class DelegationService {
     if (!emptyDelegation.delegate || !emptyDelegation.authority) {
       console.error('❌ Delegation missing required address fields');
       const simulated = await this.createSimulatedDelegation(userAddress, chainId, 'invalid_delegation');
-      return {
-        ...simulated,
-        userMessage: 'Invalid delegation structure. Using simulation mode.'
-      };
+      return this.withUserMessage(simulated, 'Invalid delegation structure. Using simulation mode.');
     }
 
     console.log('🔍 Wallet client account:', walletClient.account);
 
-    if (!walletClient.account) {
+    if (!walletClient.account && !passkeyCredentialId) {
       throw new Error('Wallet client missing account information');
     }
 
-    console.log('✍️ Attempting to sign delegation...');
+    console.log(`✍️ Attempting to sign delegation${passkeyCredentialId ? ' with passkey' : ''}...`);
     console.log('🏢 DelegationManager:', environment.DelegationManager);
 
     // Add a timeout to prevent hanging
@@ -234,17 +307,29 @@ export class DelegationService {
       setTimeout(() => reject(new Error('Signing timed out after 30 seconds')), 30000);
     });
 
-    const signature = await Promise.race([
-      signDelegation({
-        signer: walletClient as any,
-        delegation: emptyDelegation,
-        delegationManager: environment.DelegationManager,
-        chainId,
-        name: 'AutoPayAI',
-        version: '1.0.0'
-      }),
-      timeoutPromise
-    ]);
+    // The smart account checks passkey signatures over the same EIP-712 hash the wallet would sign
+    const signing = passkeyCredentialId
+      ? signWithPasskey(passkeyCredentialId, hashTypedData({
+          domain: {
+            chainId,
+            name: DELEGATION_DOMAIN_NAME,
+            version: DELEGATION_DOMAIN_VERSION,
+            verifyingContract: environment.DelegationManager,
+          },
+          types: SIGNABLE_DELEGATION_TYPED_DATA,
+          primaryType: 'Delegation',
+          message: toDelegationStruct({ ...emptyDelegation, signature: '0x' }),
+        }))
+      : signDelegation({
+          signer: walletClient as any,
+          delegation: emptyDelegation,
+          delegationManager: environment.DelegationManager,
+          chainId,
+          name: DELEGATION_DOMAIN_NAME,
+          version: DELEGATION_DOMAIN_VERSION
+        });
+
+    const signature = await Promise.race([signing, timeoutPromise]);
     
     console.log('✅ Signature obtained');
 
@@ -262,17 +347,28 @@ export class DelegationService {
       delegation: signedDelegation,
       chainId,
       isSimulated: false,
-      walletType: 'eoa',
-      userMessage: '✅ Real delegation created successfully!'
+      walletType: isSCW ? 'scw' : 'eoa',
+      userMessage: passkeyCredentialId
+        ? '✅ Real delegation approved with your passkey! Executions will be sent as UserOperations.'
+        : isSCW
+        ? '✅ Real delegation created successfully! Executions will be sent as UserOperations.'
+        : '✅ Real delegation created successfully!'
     };
   }
 
+  /**
+   * Attach a user message to a simulated result, keeping failure reasons intact
+   */
+  private withUserMessage(simulated: DelegationResult, userMessage: string): DelegationResult {
+    return simulated.success ? { ...simulated, userMessage } : simulated;
+  }
+
   /**
    * Get user-friendly simulation message
    */
   private getSimulationMessage(isSCW: boolean, userAddress: string): string {
     if (isSCW) {
-      return `🔒 Smart Contract Wallet Detected\n\nYour wallet (${userAddress.slice(0, 8)}...) appears to be a smart contract wallet. \n\nSmart contract wallets currently work in simulation mode only. For real on-chain automations with actual fund movements, please use an EOA wallet like:\n\n• MetaMask\n• Rainbow\n• Trust Wallet\n• Coinbase Wallet\n\nYour automation will work in simulation mode for testing purposes.`;
+      return `🔒 Smart Contract Wallet Detected\n\nYour wallet (${userAddress.slice(0, 8)}...) appears to be a smart contract wallet. \n\nReal automations for smart contract wallets run through the platform's ERC-4337 smart account, which is not configured on this deployment.\n\nYour automation will work in simulation mode for testing purposes.`;
     } else {
       return `🔒 Signing Not Supported\n\nYour current wallet doesn't support the required signing method for on-chain delegations. \n\nPlease try with a different wallet provider that supports EIP-712 signing, or continue with simulation mode for testing.`;
     }
@@ -286,6 +382,15 @@ export class DelegationService {
     chainId: number, 
     reason: string
   ): Promise<DelegationResult> {
+    if (!isSimulationChain(chainId)) {
+      console.warn(`⚠️ Simulation is not enabled on chain ${chainId} (reason: ${reason})`);
+      return {
+        success: false,
+        error: `Real delegation unavailable (${reason}) and simulation is not enabled on chain ${chainId}`,
+        chainId,
+      };
+    }
+
     console.log(`🧪 Creating simulated delegation for chain ${chainId} (reason: ${reason})`);
     
     try {
@@ -330,36 +435,113 @@ export class DelegationService {
   }
 
   /**
-   * Submit a signed delegation or simulate submission on Monad
+   * What a signed delegation needs on chain before it can be redeemed. Smart
+   * accounts that aren't deployed yet sign with an ERC-6492 wrapper carrying
+   * their factory call, but the DelegationManager only checks EIP-1271 on a
+   * deployed account: the factory call is returned as the transaction to send
+   * and the delegation keeps the inner signature. Anything else needs nothing.
+   */
+  async getDelegationSubmission(
+    signedDelegation: Delegation,
+    publicClient: PublicClient
+  ): Promise<{ delegation: Delegation; transaction?: NonNullable<DelegationSubmissionOptions['transaction']> }> {
+    if (!isErc6492Signature(signedDelegation.signature)) {
+      return { delegation: signedDelegation };
+    }
+
+    const { address, data, signature } = parseErc6492Signature(signedDelegation.signature);
+    const delegation = { ...signedDelegation, signature };
+    // Deployed since signing (or the wallet wraps anyway): the inner signature is all we need
+    if (!address || !data || await isContractAccount(publicClient, signedDelegation.delegator)) {
+      return { delegation };
+    }
+    return { delegation, transaction: { to: address, data } };
+  }
+
+  /**
+   * Submit a signed delegation. The DelegationManager redeems signed
+   * delegations as they are, so usually nothing is sent and the result has
+   * no transaction hash. A counterfactual smart account is deployed first
+   * (see getDelegationSubmission), and callers can pass their own transaction
+   * for an on-chain record; either must be mined successfully, and its hash
+   * and block number are returned. Simulated chains get a hash marked with
+   * SIMULATED_TX_PREFIX.
    */
   async submitDelegation(
     signedDelegation: Delegation,
     walletClient: WalletClient,
     userAddress: string,
-    chainId: number
+    chainId: number,
+    submission: DelegationSubmissionOptions = {}
   ): Promise<DelegationResult> {
     try {
-      const isSupported = this.isChainSupported(chainId);
-      const mockTransactionHash = `0x${Math.random().toString(16).substring(2, 66)}`;
-
       // Calculate delegation ID from the signed delegation
       const delegationId = getDelegationHashOffchain(signedDelegation);
 
-      if (isSupported) {
-        console.log(`🔗 Submitting real delegation to chain ${chainId}`);
-        console.log('📋 Delegation ID:', delegationId);
-      } else {
-        console.log(`🧪 Simulating delegation submission on chain ${chainId} (likely Monad)`);
+      if (!this.isChainSupported(chainId)) {
+        console.log(`🧪 Simulating delegation submission on chain ${chainId}`);
         console.log('📋 Simulated Delegation ID:', delegationId);
+        return {
+          success: true,
+          transactionHash: createSimulatedTransactionHash(),
+          delegationId,
+          delegation: signedDelegation,
+          chainId,
+          isSimulated: true,
+        };
+      }
+
+      console.log('📋 Delegation ID:', delegationId);
+      const publicClient = submission.publicClient || this.getPublicClient(chainId);
+      const { delegation, transaction: required } = await this.getDelegationSubmission(signedDelegation, publicClient);
+      const transaction = submission.transaction || required;
+      if (!transaction) {
+        console.log(`✍️ Delegation signed off chain for chain ${chainId}; nothing to submit`);
+        return {
+          success: true,
+          delegationId,
+          delegation,
+          chainId,
+          isSimulated: false,
+        };
+      }
+
+      if (!walletClient.account) {
+        throw new Error('Wallet client missing account information');
       }
 
+      console.log(`🔗 Submitting ${required && !submission.transaction ? 'smart account deployment' : 'delegation transaction'} to chain ${chainId} from ${userAddress}`);
+      const { to, data, value } = transaction;
+      const transactionHash = await walletClient.sendTransaction({
+        account: walletClient.account,
+        chain: walletClient.chain,
+        to,
+        data,
+        value,
+      });
+
+      const receipt = await publicClient.waitForTransactionReceipt({ hash: transactionHash });
+      const blockNumber = Number(receipt.blockNumber);
+      if (receipt.status !== 'success') {
+        return {
+          success: false,
+          error: `Delegation transaction ${transactionHash} reverted`,
+          transactionHash,
+          blockNumber,
+          delegationId,
+          chainId,
+        };
+      }
+
+      console.log(`✅ Delegation transaction ${transactionHash} included in block ${blockNumber}`);
       return {
         success: true,
-        transactionHash: mockTransactionHash,
-        delegationId: delegationId,
-        delegation: signedDelegation,
+        transactionHash,
+        blockNumber,
+        delegationId,
+        delegation,
         chainId,
-        isSimulated: !isSupported,
+        isSimulated: false,
       };
     } catch (error) {
       console.error('❌ Delegation submission failed:', error);
@@ -375,10 +557,12 @@ export class DelegationService {
    * High-level setup flow: create → sign → submit
    */
   async setupAutomationDelegation(
-    automation: any,
+    automation: DelegationDraft,
     walletClient: WalletClient,
     userAddress: string,
-    chainId: number
+    chainId: number,
+    signing: DelegationSigningOptions = {},
+    submission: DelegationSubmissionOptions = {}
   ): Promise<DelegationResult> {
     try {
       // Validate inputs
@@ -387,11 +571,11 @@ export class DelegationService {
       }
 
       console.log('🚀 Starting automation delegation setup...');
-      console.log('📋 Automation type:', automation?.type);
+      console.log('📋 Automation type:', automation.type);
       console.log('👤 User:', userAddress);
       console.log('🔗 Chain:', chainId);
 
-      const signingResult = await this.createSignedDelegation(automation, walletClient, userAddress, chainId);
+      const signingResult = await this.createSignedDelegation(automation, walletClient, userAddress, chainId, signing);
       
       if (!signingResult.success) {
         console.error('❌ Delegation signing failed');
@@ -409,17 +593,24 @@ export class DelegationService {
 
       console.log('📋 Delegation ID from signing:', signingResult.delegationId);
 
-      const submissionResult = await this.submitDelegation(
-        signingResult.delegation,
-        walletClient,
-        userAddress,
-        chainId
-      );
+      // Simulated delegations never go on chain, even on supported chains
+      const submissionResult = signingResult.isSimulated
+        ? { ...signingResult, transactionHash: createSimulatedTransactionHash() }
+        : await this.submitDelegation(signingResult.delegation, walletClient, userAddress, chainId, submission);
+
+      if (!submissionResult.success) {
+        return submissionResult;
+      }
       
       console.log('🎉 Automation delegation setup completed successfully');
       console.log('📋 Final Delegation ID:', submissionResult.delegationId);
       
-      return submissionResult;
+      // Keep what signing learned about the wallet
+      return {
+        ...submissionResult,
+        walletType: signingResult.walletType,
+        userMessage: signingResult.userMessage,
+      };
     } catch (error) {
       console.error('❌ Delegation setup failed:', error);
       return {
@@ -431,39 +622,302 @@ export class DelegationService {
   }
 
   /**
-   * Mocked delegation status checker
+   * Public client for reading DelegationManager state on a chain
    */
-  async checkDelegationStatus(delegationId: string, chainId: number): Promise<boolean> {
-    const isSupported = this.isChainSupported(chainId);
-    console.log(
-      isSupported
-        ? `🔍 Checking real delegation status on chain ${chainId}`
-        : `🧪 Simulating delegation status check on chain ${chainId}`
-    );
-    return true;
+  private getPublicClient(chainId: number): PublicClient {
+    return (this.options.chainClients || getChainClientFactory()).getPublicClient(chainId);
   }
 
   /**
-   * Execution builder for supported automation types
+   * Check whether a delegation is still usable, i.e. not disabled in the
+   * DelegationManager. Simulated chains have no on-chain state, so their
+   * revocation is tracked on the automation record instead.
    */
-  private createExecutionForAutomation(automation: any): ExecutionStruct {
+  async checkDelegationStatus(delegationId: string, chainId: number, publicClient?: PublicClient): Promise<boolean> {
+    if (!this.isChainSupported(chainId)) {
+      console.log(`🧪 Simulating delegation status check on chain ${chainId}`);
+      return true;
+    }
+
+    console.log(`🔍 Checking real delegation status on chain ${chainId}`);
+    const environment = getDelegatorEnvironment(chainId);
+    const client = publicClient || this.getPublicClient(chainId);
+
+    const disabled = await client.readContract({
+      address: environment.DelegationManager,
+      abi: DelegationManager.abi,
+      functionName: 'disabledDelegations',
+      args: [delegationId as Hex],
+    });
+
+    console.log(`📋 Delegation ${delegationId.slice(0, 10)}... is ${disabled ? 'disabled' : 'active'}`);
+    return !disabled;
+  }
+
+  /**
+   * Revoke an automation's delegation by disabling it in the DelegationManager.
+   * The transaction must come from the delegator's wallet. Simulated delegations
+   * are revoked without touching the chain.
+   */
+  async revokeDelegation(
+    automation: Automation,
+    walletClient?: WalletClient,
+    publicClient?: PublicClient
+  ): Promise<DelegationResult> {
+    const chainId = automation.chainId ?? DEFAULT_CHAIN_ID;
+
+    if (automation.isSimulated || !this.isChainSupported(chainId)) {
+      console.log(`🧪 Simulating delegation revocation for ${automation.id} on chain ${chainId}`);
+      return {
+        success: true,
+        transactionHash: createSimulatedTransactionHash(),
+        delegationId: automation.delegationId,
+        chainId,
+        isSimulated: true,
+        userMessage: '🧪 Simulated delegation revoked'
+      };
+    }
+
+    const delegation = automation.delegationData as Delegation | undefined;
+    if (!delegation?.signature) {
+      return {
+        success: false,
+        error: `Automation ${automation.id} has no signed delegation`,
+        chainId,
+      };
+    }
+
+    if (!walletClient?.account) {
+      return {
+        success: false,
+        error: 'Connect the delegator wallet to revoke this delegation',
+        chainId,
+      };
+    }
+
+    if (getAddress(walletClient.account.address) !== getAddress(delegation.delegator)) {
+      return {
+        success: false,
+        error: 'Only the delegator wallet can revoke this delegation',
+        chainId,
+      };
+    }
+
+    try {
+      const environment = getDelegatorEnvironment(chainId);
+      console.log(`🛑 Disabling delegation ${automation.delegationId} via ${environment.DelegationManager}`);
+
+      const transactionHash = await walletClient.writeContract({
+        account: walletClient.account,
+        chain: walletClient.chain,
+        address: environment.DelegationManager,
+        abi: DelegationManager.abi,
+        functionName: 'disableDelegation',
+        args: [toDelegationStruct(delegation)],
+      });
+
+      if (publicClient) {
+        const receipt = await publicClient.waitForTransactionReceipt({ hash: transactionHash });
+        if (receipt.status !== 'success') {
+          throw new Error(`Transaction ${transactionHash} reverted`);
+        }
+      }
+
+      return {
+        success: true,
+        transactionHash,
+        delegationId: automation.delegationId,
+        chainId,
+        isSimulated: false,
+        userMessage: '✅ Delegation revoked on chain'
+      };
+    } catch (error) {
+      console.error('❌ Delegation revocation failed:', error);
+      return {
+        success: false,
+        error: error instanceof Error ? error.message : 'Delegation revocation failed',
+        chainId,
+      };
+    }
+  }
+
+  /**
+   * Redeem an automation's stored delegation through the DelegationManager,
+   * or simulate the redemption on chains without delegation support (e.g. Monad)
+   */
+  async redeemAutomationDelegation(
+    automation: Automation,
+    walletClient?: WalletClient,
+    publicClient?: PublicClient
+  ): Promise<DelegationResult> {
+    const chainId = automation.chainId ?? DEFAULT_CHAIN_ID;
+
+    if (automation.isSimulated || !this.isChainSupported(chainId)) {
+      console.log(`🧪 Simulating delegation redemption for ${automation.id} on chain ${chainId}`);
+      return {
+        success: true,
+        transactionHash: createSimulatedTransactionHash(),
+        delegationId: automation.delegationId,
+        chainId,
+        isSimulated: true,
+      };
+    }
+
+    if (!walletClient || !publicClient) {
+      return {
+        success: false,
+        error: 'Executor wallet and public clients are required for on-chain redemption',
+        chainId,
+      };
+    }
+
+    const delegation = automation.delegationData as Delegation | undefined;
+    if (!delegation?.signature) {
+      return {
+        success: false,
+        error: `Automation ${automation.id} has no signed delegation`,
+        chainId,
+      };
+    }
+
+    try {
+      const execution = await this.createExecutionForAutomation(automation, chainId, publicClient);
+      const environment = getDelegatorEnvironment(chainId);
+      console.log(`🔗 Redeeming delegation ${automation.delegationId} via ${environment.DelegationManager}`);
+
+      // Delegations from smart accounts are held by the executor's smart account
+      const executorSmartAccount = getExecutorSmartAccountAddress();
+      if (executorSmartAccount && getAddress(delegation.delegate) === executorSmartAccount) {
+        return await this.redeemWithUserOperation(automation, chainId, delegation, execution, environment.DelegationManager, walletClient, publicClient);
+      }
+
+      const transactionHash = await redeemDelegations(
+        walletClient,
+        publicClient,
+        environment.DelegationManager,
+        [{
+          permissionContext: [delegation],
+          executions: [execution],
+          mode: SINGLE_DEFAULT_MODE,
+        }]
+      );
+
+      return {
+        success: true,
+        transactionHash,
+        delegationId: automation.delegationId,
+        delegation,
+        chainId,
+        isSimulated: false,
+      };
+    } catch (error) {
+      console.error('❌ Delegation redemption failed:', error);
+      return {
+        success: false,
+        error: error instanceof Error ? error.message : 'Delegation redemption failed',
+        chainId,
+      };
+    }
+  }
+
+  /**
+   * Redeem through the executor's smart account: the redeemDelegations call is
+   * wrapped in a UserOperation signed by the executor key and sent to the
+   * chain's bundler. Resolves with its hash as soon as the bundler accepts it;
+   * the caller settles it with getUserOperationResult and never sends it again.
+   */
+  private async redeemWithUserOperation(
+    automation: Pick<Automation, 'delegationId'>,
+    chainId: number,
+    delegation: Delegation,
+    execution: ExecutionStruct,
+    delegationManager: `0x${string}`,
+    walletClient: WalletClient,
+    publicClient: PublicClient
+  ): Promise<DelegationResult> {
+    if (!walletClient.account) {
+      throw new Error('Executor wallet client has no account');
+    }
+
+    const account = await getExecutorSmartAccount(publicClient, walletClient.account);
+    const bundlerClient = getBundlerClient(publicClient, chainId, this.options.bundlerTransport);
+    const data = encodeFunctionData({
+      abi: DelegationManager.abi,
+      functionName: 'redeemDelegations',
+      args: [
+        encodePermissionContexts([[delegation]]),
+        [SINGLE_DEFAULT_MODE],
+        encodeExecutionCalldatas([[execution]]),
+      ],
+    });
+
+    console.log(`📦 Redeeming delegation ${automation.delegationId} as a UserOperation from ${account.address}`);
+    const userOperationHash = await sendUserOperationCall(bundlerClient, account, { to: delegationManager, data });
+
+    return {
+      success: true,
+      userOperationHash,
+      delegationId: automation.delegationId,
+      delegation,
+      chainId,
+      isSimulated: false,
+    };
+  }
+
+  /**
+   * Outcome of a redemption sent as a UserOperation: waited for right after
+   * sending, looked up once on later executor ticks. Throws while the bundler
+   * has no receipt for it.
+   */
+  async getUserOperationResult(chainId: number, userOperationHash: Hex, publicClient: PublicClient, wait: boolean = false): Promise<UserOperationResult> {
+    const bundlerClient = getBundlerClient(publicClient, chainId, this.options.bundlerTransport);
+    return getUserOperationResult(bundlerClient, userOperationHash, wait);
+  }
+
+  // Whether the chain's bundler still knows a sent UserOperation
+  async isUserOperationKnown(chainId: number, userOperationHash: Hex, publicClient: PublicClient): Promise<boolean> {
+    const bundlerClient = getBundlerClient(publicClient, chainId, this.options.bundlerTransport);
+    return isUserOperationKnown(bundlerClient, userOperationHash);
+  }
+
+  /**
+   * Execution builder for supported automation types. Reward claims and
+   * staking are built by the automation's protocol adapter, which may read
+   * the chain (vault decimals, pending yield) through `publicClient`.
+   */
+  async createExecutionForAutomation(
+    automation: Pick<Automation, 'type' | 'params' | 'resolvedRecipient' | 'userAddress'>,
+    chainId: number,
+    publicClient?: PublicClient
+  ): Promise<ExecutionStruct> {
     switch (automation.type) {
       case 'recurring_payment': {
-        const amountWei = BigInt(Math.floor(parseFloat(automation.params.amount || '0') * 1e18));
-        return createExecution(
-          automation.params.recipient as `0x${string}`,
-          amountWei,
-          '0x'
-        );
+        const params = validateAutomationParams('recurring_payment', automation.params);
+        const recipient = automation.resolvedRecipient?.address ?? params.recipient;
+        if (!isAddress(recipient)) {
+          throw new Error(`Recipient ${params.recipient} must be resolved to an address before execution`);
+        }
+        // ERC-20 payments call token.transfer(recipient, amount) scaled by the token's decimals
+        const token = resolvePaymentToken(params.currency, chainId);
+        if (token) {
+          return createExecution(
+            token.address,
+            BigInt(0),
+            encodeErc20Transfer(recipient, parseTokenAmount(params.amount, token.decimals))
+          );
+        }
+        return createExecution(recipient, parseEther(params.amount), '0x');
       }
 
-      case 'reward_claim': {
-        const claimRewardsData = '0x4e71d92d';
-        return createExecution(
-          (automation.params.contractAddress || '0xStakingContract') as `0x${string}`,
-          BigInt(0),
-          claimRewardsData as `0x${string}`
+      case 'reward_claim':
+      case 'staking': {
+        const params = validateAutomationParams(automation.type, automation.params);
+        const { target, callData } = await buildProtocolCalldata(
+          { type: automation.type, params },
+          getAddress(automation.userAddress),
+          publicClient
         );
+        return createExecution(target, BigInt(0), callData);
       }
 
       default:
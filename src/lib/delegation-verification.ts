@@ -0,0 +1,237 @@
+import {
+  DelegationManager,
+  getDelegationHashOffchain,
+  toDelegationStruct,
+  ROOT_AUTHORITY,
+  SIGNABLE_DELEGATION_TYPED_DATA,
+  type Delegation,
+} from '@metamask/delegation-utils';
+import { getAddress, hashTypedData, isAddress, isHash, isHex, recoverTypedDataAddress, type Hex, type PublicClient } from 'viem';
+import {
+  DELEGATION_DOMAIN_NAME,
+  DELEGATION_DOMAIN_VERSION,
+  getPlatformExecutorAddress,
+} from './delegation-service';
+import { isSimulatedTransactionHash, isSimulationChain } from './chains';
+import { findDelegatorEnvironment } from './delegator-environments';
+import { getExecutorSmartAccountAddress, isValidErc1271Signature } from './smart-account';
+import { getChainClientFactory, ChainClientError } from './chain-clients';
+import { decodePasskeySignature, passkeyStorage, verifyPasskeyAssertion, type RelyingParty } from './passkeys';
+
+export class DelegationVerificationError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'DelegationVerificationError';
+  }
+}
+
+export interface VerifiedDelegation {
+  delegationId: Hex;
+  delegation: Delegation;
+  isSimulated: boolean;
+  // How the delegator signed: an EOA key, a smart account via EIP-1271, or a passkey on the smart account
+  signatureType?: 'ecdsa' | 'erc1271' | 'passkey';
+  // Registered passkey that approved the delegation
+  passkeyId?: string;
+}
+
+interface VerifyDelegationInput {
+  signedDelegation: any;
+  userAddress: string;
+  chainId: number;
+  isSimulated?: boolean;
+  // Reads smart account signatures (EIP-1271) and disabled delegations; defaults to the shared chain client
+  publicClient?: Pick<PublicClient, 'readContract'>;
+  // Site passkey assertions must be bound to; passkey signatures are rejected without it
+  relyingParty?: RelyingParty;
+}
+
+interface VerifyTransactionInput {
+  transactionHash: string;
+  userAddress: string;
+  chainId: number;
+  // Defaults to the shared chain client
+  publicClient?: Pick<PublicClient, 'getTransactionReceipt'>;
+}
+
+const isZeroSignature = (signature: Hex) => /^0x0*$/.test(signature);
+
+function assertDelegationShape(delegation: any): asserts delegation is Delegation {
+  const missing = ['delegate', 'delegator', 'authority', 'caveats', 'salt', 'signature']
+    .filter(field => delegation?.[field] === undefined);
+  if (missing.length) {
+    throw new DelegationVerificationError(`Signed delegation is missing ${missing.join(', ')}`);
+  }
+  if (!isAddress(delegation.delegate) || !isAddress(delegation.delegator)) {
+    throw new DelegationVerificationError('Delegation delegate and delegator must be addresses');
+  }
+  if (!isHex(delegation.signature) || !Array.isArray(delegation.caveats)) {
+    throw new DelegationVerificationError('Malformed delegation signature or caveats');
+  }
+}
+
+function getChainClient(chainId: number): PublicClient {
+  try {
+    return getChainClientFactory().getPublicClient(chainId);
+  } catch (error) {
+    if (error instanceof ChainClientError) throw new DelegationVerificationError(error.message);
+    throw error;
+  }
+}
+
+/**
+ * Verify a delegation submitted by the browser before an automation is activated:
+ * recompute its hash, recover the EIP-712 signer against the chain's
+ * DelegationManager domain, and check delegator and delegate. Signatures that
+ * don't recover to the delegator are checked with the delegator's EIP-1271
+ * isValidSignature, as the DelegationManager does for smart accounts.
+ * Passkey signatures must also come from one of the user's registered,
+ * unrevoked passkeys and carry a valid WebAuthn assertion for this site.
+ * Delegations the delegator has disabled on the DelegationManager are rejected.
+ * Simulated delegations are only accepted on chains configured for simulation.
+ */
+export async function verifySignedDelegation({
+  signedDelegation,
+  userAddress,
+  chainId,
+  isSimulated,
+  publicClient,
+  relyingParty,
+}: VerifyDelegationInput): Promise<VerifiedDelegation> {
+  if (!chainId) {
+    throw new DelegationVerificationError('Chain ID is required');
+  }
+
+  assertDelegationShape(signedDelegation);
+  const delegation = signedDelegation;
+  const delegationId = getDelegationHashOffchain(delegation);
+
+  if (getAddress(delegation.delegator) !== getAddress(userAddress)) {
+    throw new DelegationVerificationError('Delegation delegator does not match the connected user');
+  }
+
+  if (isSimulated) {
+    if (!isSimulationChain(chainId)) {
+      throw new DelegationVerificationError(`Simulated delegations are not accepted on chain ${chainId}`);
+    }
+    return { delegationId, delegation, isSimulated: true };
+  }
+
+  if (isZeroSignature(delegation.signature)) {
+    throw new DelegationVerificationError('Delegation is not signed');
+  }
+
+  // EOAs delegate to the executor account, smart accounts to the executor's smart account
+  const executors = [getPlatformExecutorAddress(), getExecutorSmartAccountAddress()].filter(Boolean);
+  if (!executors.length) {
+    throw new DelegationVerificationError('Platform executor address is not configured');
+  }
+  if (!executors.includes(getAddress(delegation.delegate))) {
+    throw new DelegationVerificationError('Delegation must be granted to the platform executor');
+  }
+
+  if (delegation.authority.toLowerCase() !== ROOT_AUTHORITY) {
+    throw new DelegationVerificationError('Only root delegations are accepted');
+  }
+
+  const delegationManager = findDelegatorEnvironment(chainId)?.DelegationManager;
+  if (!delegationManager) {
+    throw new DelegationVerificationError(`No DelegationManager deployed on chain ${chainId}`);
+  }
+
+  // A disabled delegation can't be redeemed, and re-enabling would need a new signature anyway
+  const client = publicClient || getChainClient(chainId);
+  const disabled = await client.readContract({
+    address: delegationManager,
+    abi: DelegationManager.abi,
+    functionName: 'disabledDelegations',
+    args: [delegationId],
+  });
+  if (disabled) {
+    throw new DelegationVerificationError('Delegation has been disabled on chain; sign a new one');
+  }
+
+  const typedData = {
+    domain: {
+      chainId,
+      name: DELEGATION_DOMAIN_NAME,
+      version: DELEGATION_DOMAIN_VERSION,
+      verifyingContract: delegationManager,
+    },
+    types: SIGNABLE_DELEGATION_TYPED_DATA,
+    primaryType: 'Delegation',
+    message: toDelegationStruct({ ...delegation, signature: '0x' }),
+  } as const;
+
+  // Smart account signatures usually don't recover to anything meaningful
+  const signer = await recoverTypedDataAddress({ ...typedData, signature: delegation.signature })
+    .catch(() => undefined);
+  if (signer && getAddress(signer) === getAddress(delegation.delegator)) {
+    return { delegationId, delegation, isSimulated: false, signatureType: 'ecdsa' };
+  }
+
+  const hash = hashTypedData(typedData);
+
+  // A smart account passkey signature embeds the WebAuthn assertion over the typed data hash
+  let passkeyId: string | undefined;
+  const passkeySignature = decodePasskeySignature(delegation.signature, hash);
+  if (passkeySignature) {
+    const passkey = passkeyStorage.findByKeyIdHash(delegation.delegator, passkeySignature.keyIdHash);
+    if (!passkey || passkey.revokedAt || passkey.removalRequestedAt) {
+      throw new DelegationVerificationError('Delegation was signed with an unknown or revoked passkey');
+    }
+    if (!relyingParty || !await verifyPasskeyAssertion(passkey.publicKey, hash, passkeySignature.assertion, relyingParty)) {
+      throw new DelegationVerificationError('Passkey assertion could not be verified');
+    }
+    passkeyId = passkey.id;
+  }
+
+  // The account must accept the signature too, or redemption would fail on chain
+  const validErc1271 = await isValidErc1271Signature(client, {
+    address: delegation.delegator,
+    hash,
+    signature: delegation.signature,
+  });
+  if (!validErc1271) {
+    throw new DelegationVerificationError('Delegation signature was not produced by the delegator');
+  }
+
+  return passkeyId
+    ? { delegationId, delegation, isSimulated: false, signatureType: 'passkey', passkeyId }
+    : { delegationId, delegation, isSimulated: false, signatureType: 'erc1271' };
+}
+
+/**
+ * Check a delegation transaction reported by the browser before storing it:
+ * a real hash (not a simulated one), mined successfully and sent by the user.
+ * Smart wallets send through a bundler, so a transaction that emitted logs
+ * from the user's account (e.g. deploying it) counts as theirs too.
+ * Returns the block it was included in.
+ */
+export async function verifyDelegationTransaction({
+  transactionHash,
+  userAddress,
+  chainId,
+  publicClient,
+}: VerifyTransactionInput): Promise<{ transactionHash: Hex; blockNumber: number }> {
+  if (isSimulatedTransactionHash(transactionHash) || !isHash(transactionHash)) {
+    throw new DelegationVerificationError('Real delegations need a real transaction hash');
+  }
+
+  const receipt = await (publicClient || getChainClient(chainId))
+    .getTransactionReceipt({ hash: transactionHash })
+    .catch(() => undefined);
+  if (!receipt) {
+    throw new DelegationVerificationError(`Delegation transaction ${transactionHash} was not found on chain ${chainId}`);
+  }
+  if (receipt.status !== 'success') {
+    throw new DelegationVerificationError(`Delegation transaction ${transactionHash} reverted`);
+  }
+  const user = getAddress(userAddress);
+  const touchedAccount = receipt.logs.some(log => getAddress(log.address) === user);
+  if (getAddress(receipt.from) !== user && !touchedAccount) {
+    throw new DelegationVerificationError('Delegation transaction was not sent by the connected user');
+  }
+
+  return { transactionHash, blockNumber: Number(receipt.blockNumber) };
+}
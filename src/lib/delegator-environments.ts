@@ -0,0 +1,94 @@
+import {
+  getDeleGatorEnvironment,
+  getDeleGatorEnvironment_v1,
+  type DeleGatorEnvironment,
+} from '@metamask/delegation-utils'
+import { isAddress, type Hex } from 'viem'
+
+/**
+ * DeleGator contract addresses per chain. MetaMask's deployments cover the
+ * chains they support; operators can register their own deployment for any
+ * other chain (e.g. Monad testnet or a local devnet) through
+ * NEXT_PUBLIC_DELEGATOR_ENVIRONMENTS, which takes precedence. Each entry is
+ * either a full environment or a flat contract-name → address map, such as the
+ * one printed by scripts/deploy-delegator-environment.ts:
+ *
+ *   NEXT_PUBLIC_DELEGATOR_ENVIRONMENTS={"10143":{"DelegationManager":"0x...","SimpleFactory":"0x...",...}}
+ */
+export type DelegatorEnvironmentConfig = DeleGatorEnvironment | Record<string, Hex>
+
+export class DelegatorEnvironmentError extends Error {
+  constructor(message: string) {
+    super(message)
+    this.name = 'DelegatorEnvironmentError'
+  }
+}
+
+const isFullEnvironment = (config: DelegatorEnvironmentConfig): config is DeleGatorEnvironment =>
+  typeof (config as DeleGatorEnvironment).caveatEnforcers === 'object'
+
+function toEnvironment(chainId: number, config: DelegatorEnvironmentConfig): DeleGatorEnvironment {
+  const environment = isFullEnvironment(config) ? config : getDeleGatorEnvironment_v1(config as Record<string, Hex>)
+  if (!environment.DelegationManager || !isAddress(environment.DelegationManager)) {
+    throw new DelegatorEnvironmentError(`DeleGator environment for chain ${chainId} has no valid DelegationManager address`)
+  }
+  return environment
+}
+
+function loadConfiguredEnvironments(): Map<number, DeleGatorEnvironment> {
+  const environments = new Map<number, DeleGatorEnvironment>()
+  const raw = process.env.NEXT_PUBLIC_DELEGATOR_ENVIRONMENTS
+  if (!raw) return environments
+
+  let parsed: Record<string, DelegatorEnvironmentConfig>
+  try {
+    parsed = JSON.parse(raw)
+  } catch (error) {
+    console.error('❌ Ignoring invalid NEXT_PUBLIC_DELEGATOR_ENVIRONMENTS:', error)
+    return environments
+  }
+
+  for (const [chainId, config] of Object.entries(parsed)) {
+    try {
+      environments.set(Number(chainId), toEnvironment(Number(chainId), config))
+    } catch (error) {
+      console.error(`❌ Ignoring DeleGator environment for chain ${chainId}:`, error)
+    }
+  }
+  return environments
+}
+
+const customEnvironments = loadConfiguredEnvironments()
+
+/** Use a custom deployment on a chain, e.g. right after deploying to a devnet */
+export function registerDelegatorEnvironment(chainId: number, config: DelegatorEnvironmentConfig): DeleGatorEnvironment {
+  const environment = toEnvironment(chainId, config)
+  customEnvironments.set(chainId, environment)
+  console.log(`🏗️ Using custom DeleGator environment on chain ${chainId} (DelegationManager ${environment.DelegationManager})`)
+  return environment
+}
+
+export function hasCustomDelegatorEnvironment(chainId: number): boolean {
+  return customEnvironments.has(chainId)
+}
+
+/** The chain's DeleGator contracts, or undefined if none are deployed or configured */
+export function findDelegatorEnvironment(chainId: number): DeleGatorEnvironment | undefined {
+  const custom = customEnvironments.get(chainId)
+  if (custom) return custom
+  try {
+    return getDeleGatorEnvironment(chainId)
+  } catch {
+    return undefined
+  }
+}
+
+export function getDelegatorEnvironment(chainId: number): DeleGatorEnvironment {
+  const environment = findDelegatorEnvironment(chainId)
+  if (!environment) {
+    throw new DelegatorEnvironmentError(
+      `No DeleGator contracts for chain ${chainId}; deploy them and add the addresses to NEXT_PUBLIC_DELEGATOR_ENVIRONMENTS`
+    )
+  }
+  return environment
+}
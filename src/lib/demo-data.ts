@@ -0,0 +1,119 @@
+import { keccak256, toHex, type Hex } from 'viem'
+import { getChainSlug } from './chains'
+
+/**
+ * Sample history for demos, screenshots and offline development. It is only
+ * produced when demo mode is on (NEXT_PUBLIC_DEMO_MODE=true), every record is
+ * tagged `source: 'demo'`, and it is seeded from the user, the chain and
+ * NEXT_PUBLIC_DEMO_SEED with timestamps counted back from a fixed anchor, so
+ * the same inputs always give the same records.
+ */
+export interface DemoDataOptions {
+  seed?: string
+  // Timestamps count back from here (default: DEMO_ANCHOR)
+  now?: Date | number
+}
+
+const DAY_MS = 24 * 60 * 60 * 1000
+
+// Fixed so demo records don't move from one day to the next
+export const DEMO_ANCHOR = Date.UTC(2025, 0, 1)
+// Size of a user's demo transaction history; requests get its newest records
+const DEMO_TRANSACTION_COUNT = 60
+
+const AUTOMATION_TYPES = ['recurring_payment', 'reward_claim', 'staking', 'reminder']
+const AUTOMATION_STATUSES = ['active', 'completed', 'failed']
+const TRANSACTION_TYPES = ['payment_sent', 'delegation_created', 'reward_claimed', 'contract_interaction']
+
+export function isDemoMode(): boolean {
+  return process.env.NEXT_PUBLIC_DEMO_MODE === 'true'
+}
+
+export function getDemoDataOptions(): DemoDataOptions {
+  return { seed: process.env.NEXT_PUBLIC_DEMO_SEED }
+}
+
+// mulberry32, seeded from a hash of the inputs
+function createRandom(...parts: Array<string | number>): () => number {
+  let state = parseInt(keccak256(toHex(parts.join(':'))).slice(2, 10), 16)
+  return () => {
+    state = (state + 0x6d2b79f5) | 0
+    let t = Math.imul(state ^ (state >>> 15), 1 | state)
+    t = (t + Math.imul(t ^ (t >>> 7), 61 | t)) ^ t
+    return ((t ^ (t >>> 14)) >>> 0) / 4294967296
+  }
+}
+
+const pick = <T>(random: () => number, items: T[]): T => items[Math.floor(random() * items.length)]
+
+const demoHash = (...parts: Array<string | number>): Hex => keccak256(toHex(['demo', ...parts].join(':')))
+
+const demoAddress = (...parts: Array<string | number>) => `0x${demoHash(...parts).slice(26)}` as `0x${string}`
+
+const anchorTime = (now?: Date | number) =>
+  now !== undefined ? new Date(now).getTime() : DEMO_ANCHOR
+
+export function createDemoAutomationEvents(
+  userAddress: string,
+  chainId: number,
+  limit: number = 10,
+  options: DemoDataOptions = {}
+): any[] {
+  const seed = options.seed || 'autopay'
+  const user = userAddress.toLowerCase()
+  const random = createRandom(seed, user, chainId, 'automations')
+  const anchor = anchorTime(options.now)
+
+  return Array.from({ length: limit }, (_, i) => ({
+    automationId: `demo_${demoHash(seed, user, chainId, 'automation', i).slice(2, 14)}`,
+    userAddress: user,
+    type: pick(random, AUTOMATION_TYPES),
+    status: pick(random, AUTOMATION_STATUSES),
+    timestamp: new Date(anchor - Math.floor(random() * 7 * DAY_MS)).toISOString(),
+    transactionHash: demoHash(seed, user, chainId, 'automation-tx', i),
+    blockNumber: 1_000_000 + Math.floor(random() * 1_000_000),
+    chainId,
+    chainName: getChainSlug(chainId),
+    isSimulated: true,
+    source: 'demo',
+    params: {
+      amount: '0.1',
+      currency: 'ETH',
+      frequency: 'weekly'
+    },
+    eventType: pick(random, ['created', 'executed'])
+  })).sort((a, b) => new Date(b.timestamp).getTime() - new Date(a.timestamp).getTime())
+}
+
+export function createDemoTransactions(
+  userAddress: string,
+  chainIds: number[],
+  limit: number = 20,
+  options: DemoDataOptions = {}
+): any[] {
+  const seed = options.seed || 'autopay'
+  const user = userAddress.toLowerCase()
+  const random = createRandom(seed, user, chainIds.join(','), 'transactions')
+  const anchor = anchorTime(options.now)
+
+  return Array.from({ length: DEMO_TRANSACTION_COUNT }, (_, i) => {
+    const chainId = chainIds[i % chainIds.length]
+    return {
+      hash: demoHash(seed, user, chainId, 'tx', i),
+      from: user,
+      to: demoAddress(seed, 'recipient', Math.floor(random() * 5)),
+      // Wei, up to 0.5
+      value: (BigInt(Math.floor(random() * 500_000)) * BigInt(1e12)).toString(),
+      blockNumber: 1_000_000 + i,
+      blockTimestamp: new Date(anchor - Math.floor(random() * 30 * DAY_MS)).toISOString(),
+      status: 'success',
+      type: pick(random, TRANSACTION_TYPES),
+      chainId,
+      chainName: getChainSlug(chainId),
+      isSimulated: true,
+      source: 'demo'
+    }
+  })
+    .sort((a, b) => new Date(b.blockTimestamp).getTime() - new Date(a.blockTimestamp).getTime())
+    .slice(0, limit)
+}
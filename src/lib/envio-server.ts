@@ -0,0 +1,193 @@
+import { isAddress, isHex } from 'viem'
+import { eventStorage } from './automation'
+import { getHyperSyncUrl } from './chains'
+import { addressTopic } from './delegation-events'
+import {
+  DEFAULT_FIELD_SELECTION,
+  EnvioTracker,
+  type AutomationEvent,
+  type EnvioTransport,
+  type HyperSyncResponse,
+  type HyperSyncWireQuery,
+  type TransactionEvent,
+} from './envio-tracker'
+import { historyCacheStorage } from './history-cache'
+
+/**
+ * Server side of the Envio tracker: HyperSync is queried directly with the
+ * server-only ENVIO_API_KEY and events come straight from the event store, so
+ * API routes, the executor and scripts get the same history the Dashboard
+ * sees. History is indexed in the local history cache and synced
+ * incrementally. Also backs the /api/hypersync proxy the browser uses, which
+ * only forwards queries scoped to the signed-in user (scopeProxyQuery).
+ */
+export class HyperSyncError extends Error {
+  constructor(message: string, readonly status: number = 500) {
+    super(message)
+    this.name = 'HyperSyncError'
+  }
+}
+
+let warnedLegacyKey = false
+
+/** ENVIO_API_KEY, or the older NEXT_PUBLIC_ENVIO_API_KEY (which ships to the browser) */
+export function getEnvioApiKey(): string | undefined {
+  if (process.env.ENVIO_API_KEY) return process.env.ENVIO_API_KEY
+
+  const legacy = process.env.NEXT_PUBLIC_ENVIO_API_KEY
+  if (legacy && !warnedLegacyKey) {
+    warnedLegacyKey = true
+    console.warn('⚠️ NEXT_PUBLIC_ENVIO_API_KEY is exposed to the browser; rename it to ENVIO_API_KEY')
+  }
+  return legacy || undefined
+}
+
+/** Send a query (HyperSync wire format) to a chain's HyperSync endpoint */
+export async function queryHyperSync(chainId: number, query: HyperSyncWireQuery): Promise<HyperSyncResponse> {
+  const url = getHyperSyncUrl(chainId)
+  if (!url) {
+    throw new HyperSyncError(`Unsupported chain ID: ${chainId}`, 400)
+  }
+
+  const apiKey = getEnvioApiKey()
+  if (!apiKey) {
+    throw new HyperSyncError('Envio API key not configured', 503)
+  }
+
+  const response = await fetch(`${url}/query`, {
+    method: 'POST',
+    headers: {
+      'Content-Type': 'application/json',
+      'Authorization': `Bearer ${apiKey}`,
+    },
+    body: JSON.stringify(query),
+  })
+
+  if (!response.ok) {
+    const errorText = await response.text().catch(() => '')
+    console.error(`❌ HyperSync error on chain ${chainId}: ${response.status} - ${errorText}`)
+    throw new HyperSyncError(`HyperSync API error: ${response.status}`, response.status)
+  }
+  return response.json()
+}
+
+const isRecord = (value: unknown): value is Record<string, unknown> =>
+  typeof value === 'object' && value !== null && !Array.isArray(value)
+
+const isStringList = (value: unknown): value is string[] =>
+  Array.isArray(value) && value.every(item => typeof item === 'string')
+
+const isBlockNumber = (value: unknown): value is number =>
+  typeof value === 'number' && Number.isInteger(value) && value >= 0
+
+function refuse(message: string): never {
+  throw new HyperSyncError(`Query not allowed: ${message}`, 400)
+}
+
+function checkKeys(value: Record<string, unknown>, allowed: string[], what: string) {
+  const unknown = Object.keys(value).filter(key => !allowed.includes(key))
+  if (unknown.length) refuse(`unsupported ${what} field ${unknown.join(', ')}`)
+}
+
+/**
+ * Check a query sent through the /api/hypersync proxy and rebuild it from the
+ * parts the tracker uses: transaction selections may only match the user's
+ * address, every log selection must filter on the user's address as an
+ * indexed topic, and only the tracker's fields may be selected. Anything else
+ * is refused (HyperSyncError 400), so the proxy can't spend the API key on
+ * other queries.
+ */
+export function scopeProxyQuery(query: unknown, userAddress: string): HyperSyncWireQuery {
+  if (!isRecord(query)) refuse('query must be an object')
+  checkKeys(query, ['from_block', 'to_block', 'transactions', 'logs', 'field_selection'], 'query')
+
+  const user = userAddress.toLowerCase()
+  const userTopic = addressTopic(user)
+
+  if (!isBlockNumber(query.from_block)) refuse('from_block must be a block number')
+  if (query.to_block !== undefined && !isBlockNumber(query.to_block)) refuse('to_block must be a block number')
+
+  if (query.transactions !== undefined && !Array.isArray(query.transactions)) refuse('transactions must be a list')
+  const transactions = ((query.transactions as unknown[] | undefined) || []).map(selection => {
+    if (!isRecord(selection)) refuse('transaction selections must be objects')
+    checkKeys(selection, ['from', 'to'], 'transaction selection')
+    const lists = [selection.from, selection.to].filter(list => list !== undefined)
+    if (!lists.length) refuse('transaction selections must filter on your address')
+    for (const list of lists) {
+      if (!isStringList(list) || !list.length || list.some(address => address.toLowerCase() !== user)) {
+        refuse('transaction selections may only match your address')
+      }
+    }
+    return {
+      ...(selection.from !== undefined && { from: [user] }),
+      ...(selection.to !== undefined && { to: [user] }),
+    }
+  })
+
+  if (query.logs !== undefined && !Array.isArray(query.logs)) refuse('logs must be a list')
+  const logs = ((query.logs as unknown[] | undefined) || []).map(selection => {
+    if (!isRecord(selection)) refuse('log selections must be objects')
+    checkKeys(selection, ['address', 'topics'], 'log selection')
+    const { address, topics } = selection
+    if (address !== undefined && (!isStringList(address) || !address.every(item => isAddress(item)))) {
+      refuse('log addresses must be addresses')
+    }
+    if (!Array.isArray(topics) || topics.length > 4 || !topics.every(topic => isStringList(topic) && topic.every(item => isHex(item)))) {
+      refuse('log topics must be up to four lists of hex values')
+    }
+    const scoped = (topics as string[][]).some((topic, position) =>
+      position > 0 && topic.length === 1 && topic[0].toLowerCase() === userTopic)
+    if (!scoped) refuse('log selections must filter on your address')
+    return {
+      ...(address !== undefined && { address: (address as string[]).map(item => item.toLowerCase()) }),
+      topics: (topics as string[][]).map(topic => topic.map(item => item.toLowerCase())),
+    }
+  })
+
+  if (!transactions.length && !logs.length) refuse('select your transactions or logs')
+
+  const selection = query.field_selection === undefined ? DEFAULT_FIELD_SELECTION : query.field_selection
+  if (!isRecord(selection)) refuse('field_selection must be an object')
+  checkKeys(selection, ['block', 'transaction', 'log'], 'field_selection')
+  const fields = (kind: 'block' | 'transaction' | 'log'): string[] | undefined => {
+    const requested = selection[kind]
+    if (requested === undefined) return undefined
+    if (!isStringList(requested) || requested.some(field => !DEFAULT_FIELD_SELECTION[kind].includes(field))) {
+      refuse(`unsupported ${kind} fields`)
+    }
+    return requested as string[]
+  }
+
+  return {
+    from_block: query.from_block,
+    to_block: query.to_block as number | undefined,
+    transactions: transactions.length ? transactions : undefined,
+    logs: logs.length ? logs : undefined,
+    field_selection: { block: fields('block'), transaction: fields('transaction'), log: fields('log') },
+  }
+}
+
+export class ServerEnvioTransport implements EnvioTransport {
+  readonly mode = 'server' as const
+
+  get isEnabled(): boolean {
+    return !!getEnvioApiKey()
+  }
+
+  query(chainId: number, query: HyperSyncWireQuery): Promise<HyperSyncResponse> {
+    return queryHyperSync(chainId, query)
+  }
+
+  async getEvents(userAddress: string, chainId: number): Promise<any[]> {
+    return eventStorage.getByUser(userAddress).filter(event => event.chainId === chainId)
+  }
+}
+
+export const serverEnvioTracker = new EnvioTracker(new ServerEnvioTransport(), { cache: historyCacheStorage })
+
+// Convenience exports
+export const trackAutomationInEnvio = (event: AutomationEvent) =>
+  serverEnvioTracker.trackAutomation(event)
+
+export const trackTransactionInEnvio = (event: TransactionEvent) =>
+  serverEnvioTracker.trackTransaction(event)
@@ -1,4 +1,33 @@
-interface AutomationEvent {
+import { findBlockByTimestamp, getChainClientFactory, type ChainClientFactory } from './chain-clients';
+import {
+  CHAIN_REGISTRY,
+  DEFAULT_CHAIN_ID,
+  getChainName as getChainDisplayName,
+  getChainSlug,
+  getHyperSyncUrl,
+  supportsDelegation,
+} from './chains';
+import {
+  DELEGATION_EVENT_TOPICS,
+  ERC20_TRANSFER_TOPIC,
+  addressTopic,
+  decodeLogs,
+  toExecutionRecords,
+  type DecodedLogRecord,
+  type DelegationStatusRecord,
+  type RawLog,
+} from './delegation-events';
+import { findDelegatorEnvironment } from './delegator-environments';
+import { getNativeSymbol, parseTokenAmount, resolvePaymentToken, TokenError } from './tokens';
+import {
+  createDemoAutomationEvents,
+  createDemoTransactions,
+  getDemoDataOptions,
+  isDemoMode,
+  type DemoDataOptions,
+} from './demo-data';
+
+export interface AutomationEvent {
   automationId: string;
   userAddress: string;
   delegationData: any;
@@ -10,7 +39,7 @@ interface AutomationEvent {
   isSimulated?: boolean;
 }
 
-interface TransactionEvent {
+export interface TransactionEvent {
   automationId: string;
   userAddress: string;
   transactionHash: string;
@@ -22,374 +51,632 @@ interface TransactionEvent {
   isSimulated?: boolean;
 }
 
-export class EnvioTracker {
-  private apiKey: string;
-  private isEnabled: boolean;
+// Selection for a HyperSync query, in this module's camelCase; sent in HyperSync's wire format
+export interface HyperSyncQuery {
+  transactions?: Array<{ from?: string[]; to?: string[] }>;
+  logs?: Array<{ address?: string[]; topics?: string[][] }>;
+  fieldSelection?: { block?: string[]; transaction?: string[]; log?: string[] };
+}
 
-  // Chain ID to HyperSync URL mapping
-  private readonly chainConfigs = [
-    // Primary focus: Monad
-    { chainId: 10143, url: 'https://monad-testnet.hypersync.xyz', name: 'monad-testnet' },
-    
-    // Ethereum ecosystem
-    { chainId: 1, url: 'https://eth.hypersync.xyz', name: 'ethereum' },
-    { chainId: 11155111, url: 'https://sepolia.hypersync.xyz', name: 'sepolia' },
-    
-    // L2s and other supported
-    { chainId: 137, url: 'https://polygon.hypersync.xyz', name: 'polygon' },
-    { chainId: 42161, url: 'https://arbitrum.hypersync.xyz', name: 'arbitrum' },
-    { chainId: 10, url: 'https://optimism.hypersync.xyz', name: 'optimism' },
-    { chainId: 8453, url: 'https://base.hypersync.xyz', name: 'base' },
-  ];
-
-  // Real chains that support MetaMask delegation (non-simulated)
-  private readonly realChains = [
-    1, // Ethereum mainnet
-    11155111, // Sepolia
-    5, // Goerli
-    137, // Polygon
-    80001, // Mumbai
-    42161, // Arbitrum One
-    421613, // Arbitrum Goerli
-    10, // Optimism
-    420, // Optimism Goerli
-    8453, // Base mainnet
-    84531, // Base Goerli
-  ];
-
-  constructor() {
-    this.apiKey = process.env.NEXT_PUBLIC_ENVIO_API_KEY || '';
-    this.isEnabled = !!this.apiKey;
-    
-    if (!this.isEnabled) {
+// A query in HyperSync's wire format, as sent to HyperSync (and the proxy)
+export interface HyperSyncWireQuery {
+  from_block: number;
+  to_block?: number;
+  transactions?: HyperSyncQuery['transactions'];
+  logs?: HyperSyncQuery['logs'];
+  field_selection: NonNullable<HyperSyncQuery['fieldSelection']>;
+}
+
+/**
+ * Block range to query. `since` (a Date or ms timestamp, e.g. "last 30 days")
+ * is converted to the first block at or after it; `toBlock` is exclusive and
+ * defaults to the chain head.
+ */
+export interface HyperSyncWindow {
+  fromBlock?: number;
+  toBlock?: number;
+  since?: Date | number;
+  // Safety cap on continuation requests (default MAX_HYPERSYNC_PAGES)
+  maxPages?: number;
+}
+
+// Fields read from HyperSync responses (see DEFAULT_FIELD_SELECTION); quantities
+// may arrive as numbers or hex strings, so they are read through Number() and BigInt()
+export interface HyperSyncBlock {
+  number: number | string;
+  timestamp: number | string;
+  hash?: string;
+}
+
+export interface HyperSyncTransaction {
+  hash: string;
+  from: string;
+  to?: string | null;
+  value?: string;
+  input?: string;
+  block_number: number | string;
+  // Seconds; attached from the transaction's block by toPage
+  block_timestamp?: number;
+}
+
+export type HyperSyncLog = RawLog;
+
+export interface HyperSyncBatch {
+  blocks?: HyperSyncBlock[];
+  transactions?: HyperSyncTransaction[];
+  logs?: HyperSyncLog[];
+}
+
+export interface HyperSyncResponse {
+  data?: HyperSyncBatch | HyperSyncBatch[];
+  next_block?: number;
+  archive_height?: number | null;
+}
+
+// One HyperSync response; transactions carry their block's timestamp
+export interface HyperSyncPage {
+  fromBlock: number;
+  nextBlock: number;
+  archiveHeight?: number;
+  blocks: HyperSyncBlock[];
+  transactions: HyperSyncTransaction[];
+  logs: HyperSyncLog[];
+}
+
+// A transaction as listed in history, whether read from HyperSync, the event store or demo data
+export interface TransactionRecord {
+  hash: string;
+  from: string;
+  to?: string | null;
+  value?: string;
+  // Missing on simulated events that never reached a block
+  blockNumber?: number;
+  blockTimestamp?: string;
+  status: 'success';
+  chainId: number;
+  chainName: string;
+  type: string;
+  isSimulated: boolean;
+  source: 'hypersync' | 'event_storage' | 'demo';
+  // Executions: the ERC-20 transfer the redemption made, if any
+  amount?: string;
+  token?: string;
+  symbol?: string;
+  recipient?: string;
+  executor?: string;
+  // Delegation status changes
+  delegationHash?: string;
+  delegate?: string;
+}
+
+// A transaction record as stored in the history cache. Stored timestamps are
+// revived as Dates when the cache is read back from disk.
+export interface HistoryRecord extends Omit<TransactionRecord, 'blockTimestamp'> {
+  // `${chainId}:${hash}:${type}`
+  id: string;
+  userAddress: string;
+  blockTimestamp?: string | Date;
+}
+
+/**
+ * Runs the tracker's queries. The tracker itself only builds HyperSync queries
+ * and shapes results, so the same core works in the browser (through the
+ * /api/hypersync proxy and /api/events, scoped to the signed-in user) and on
+ * the server (HyperSync directly with the server-only ENVIO_API_KEY and the
+ * event store; see envio-server.ts).
+ */
+export interface EnvioTransport {
+  readonly mode: 'browser' | 'server';
+  // Whether tracking and history queries should run at all
+  readonly isEnabled: boolean;
+  // Send a query in HyperSync's wire format; resolves to HyperSync's response
+  query(chainId: number, query: HyperSyncWireQuery): Promise<HyperSyncResponse>;
+  // Stored automation events (simulated chains) for a user on a chain
+  getEvents(userAddress: string, chainId: number): Promise<any[]>;
+}
+
+/**
+ * Browser transport: HyperSync through the proxy route, which holds the API
+ * key, and events for the session's user from /api/events
+ */
+export class BrowserEnvioTransport implements EnvioTransport {
+  readonly mode = 'browser' as const;
+  // The key lives on the server; the proxy reports when it is missing
+  readonly isEnabled = true;
+
+  async query(chainId: number, query: HyperSyncWireQuery): Promise<HyperSyncResponse> {
+    const response = await fetch('/api/hypersync', {
+      method: 'POST',
+      headers: {
+        'Content-Type': 'application/json',
+      },
+      body: JSON.stringify({ chainId, query }),
+    });
+
+    if (!response.ok) {
+      const errorData = await response.json().catch(() => ({}));
+      throw new Error(`HyperSync proxy error: ${response.status} - ${errorData.error || 'Unknown error'}`);
+    }
+
+    const result = await response.json();
+    if (!result.success) {
+      throw new Error(`HyperSync proxy returned error: ${result.error}`);
+    }
+    return result.data;
+  }
+
+  async getEvents(_userAddress: string, chainId: number): Promise<any[]> {
+    const apiUrl = `/api/events?chainId=${chainId}`;
+    console.log(`🌐 Fetching events from: ${apiUrl}`);
+
+    const response = await fetch(apiUrl);
+    const data = await response.json().catch(() => ({}));
+    if (!response.ok || !data.success) {
+      throw new Error(`Events API error: ${response.status} - ${data.error || 'Unknown error'}`);
+    }
+    return data.events || [];
+  }
+}
+
+// History could not be loaded; surfaced to callers instead of substituting sample data
+export class EnvioQueryError extends Error {
+  constructor(message: string, readonly cause?: unknown) {
+    super(message);
+    this.name = 'EnvioQueryError';
+  }
+}
+
+// Last block indexed for a user on a chain; its hash detects reorgs on the next sync
+export interface HistoryCheckpoint {
+  userAddress: string;
+  chainId: number;
+  lastSyncedBlock: number;
+  blockHash: string;
+  syncedAt: string;
+}
+
+export interface HistoryPageOptions {
+  limit: number;
+  offset?: number;
+  // By block time; newest first by default
+  order?: 'asc' | 'desc';
+}
+
+export interface HistoryCacheQuery extends HistoryPageOptions {
+  userAddress: string;
+  chainIds: number[];
+  // Record types to include (all by default)
+  types?: string[];
+  since?: Date | number;
+  fromBlock?: number;
+  toBlock?: number;
+}
+
+export interface HistorySummary {
+  totalTransactions: number;
+  firstTransaction: HistoryRecord | null;
+  latestTransaction: HistoryRecord | null;
+  totalValue: string;
+}
+
+/**
+ * Locally indexed history per user and chain (see history-cache.ts). With a
+ * cache the tracker syncs incrementally from each checkpoint and serves
+ * history, paging and analytics from it instead of re-querying HyperSync.
+ */
+export interface HistoryCache {
+  getCheckpoint(userAddress: string, chainId: number): HistoryCheckpoint | undefined;
+  saveCheckpoint(checkpoint: HistoryCheckpoint): void;
+  // Insert records, replacing any with the same chain, hash and type
+  putRecords(userAddress: string, chainId: number, records: TransactionRecord[]): void;
+  // Drop records from a block onwards, or all of them (and the checkpoint) without one
+  removeRecords(userAddress: string, chainId: number, fromBlock?: number): void;
+  query(query: HistoryCacheQuery): { records: HistoryRecord[]; total: number };
+  summarize(userAddress: string, chainId: number): HistorySummary;
+}
+
+export interface EnvioTrackerOptions {
+  // Defaults to the shared factory, read at call time so tests can swap it
+  chainClients?: ChainClientFactory;
+  // History is sample data tagged source: 'demo' (NEXT_PUBLIC_DEMO_MODE by default); null turns it off
+  demo?: DemoDataOptions | null;
+  cache?: HistoryCache;
+}
+
+const MAX_HYPERSYNC_PAGES = 100;
+// Blocks re-indexed when the checkpoint block's hash changed
+const REORG_ROLLBACK_BLOCKS = Number(process.env.HISTORY_REORG_BLOCKS || 64);
+const DEFAULT_HISTORY_WINDOW_MS = 30 * 24 * 60 * 60 * 1000;
+// Records loaded for an oldest-first page without a cache, which has to see the whole window
+const UNCACHED_HISTORY_LIMIT = 1000;
+// Cached history younger than this is served without starting a sync
+const HISTORY_SYNC_INTERVAL_MS = Number(process.env.HISTORY_SYNC_INTERVAL_MS || 30_000);
+
+// Indexed record types that make up automation history
+const DELEGATION_ACTIVITY_TYPES = ['automation_executed', 'delegation_enabled', 'delegation_disabled'];
+
+export const DEFAULT_FIELD_SELECTION = {
+  block: ['number', 'timestamp', 'hash'],
+  transaction: ['block_number', 'hash', 'from', 'to', 'value', 'input'],
+  log: ['block_number', 'transaction_hash', 'log_index', 'address', 'data', 'topic0', 'topic1', 'topic2', 'topic3'],
+};
+
+// Delegation activity only needs logs and their blocks' timestamps
+const LOG_FIELD_SELECTION = { block: DEFAULT_FIELD_SELECTION.block, log: DEFAULT_FIELD_SELECTION.log };
+
+export class EnvioTracker {
+  private readonly chainClients?: ChainClientFactory;
+  private readonly demo: DemoDataOptions | null;
+  private readonly cache?: HistoryCache;
+  // Background syncs in flight, per user and chain
+  private readonly syncs = new Map<string, Promise<HistoryCheckpoint | undefined>>();
+  // Why the last sync for a user and chain failed, until one succeeds
+  private readonly syncErrors = new Map<string, unknown>();
+
+  constructor(private readonly transport: EnvioTransport = new BrowserEnvioTransport(), options: EnvioTrackerOptions = {}) {
+    this.chainClients = options.chainClients;
+    this.demo = options.demo !== undefined ? options.demo : isDemoMode() ? getDemoDataOptions() : null;
+    this.cache = options.cache;
+
+    if (this.demo) {
+      console.log('🎭 Envio demo mode: history is sample data');
+    } else if (!this.isEnabled) {
       console.warn('Envio tracking is disabled - missing API key');
     } else {
-      console.log('Envio HyperSync tracking enabled (HTTP mode only)');
+      console.log(`Envio HyperSync tracking enabled (${transport.mode} transport)`);
     }
   }
 
+  private get isEnabled(): boolean {
+    return this.transport.isEnabled;
+  }
+
   private getChainUrl(chainId?: number): string | null {
-    if (!chainId) chainId = 10143;
-    
-    const config = this.chainConfigs.find(c => c.chainId === chainId);
-    return config?.url || null;
+    return getHyperSyncUrl(chainId || DEFAULT_CHAIN_ID) || null;
   }
 
   private getChainName(chainId?: number): string {
-    if (!chainId) return 'monad-testnet';
-    
-    const config = this.chainConfigs.find(c => c.chainId === chainId);
-    return config?.name || `chain-${chainId}`;
+    return getChainSlug(chainId || DEFAULT_CHAIN_ID);
   }
 
+  // Real chains have the MetaMask DelegationManager; the rest use simulated delegations
   private isRealChain(chainId: number): boolean {
-    return this.realChains.includes(chainId);
+    return supportsDelegation(chainId);
+  }
+
+  private getPublicClient(chainId: number) {
+    return (this.chainClients || getChainClientFactory()).getPublicClient(chainId);
+  }
+
+  // Upper bound for HyperSync queries (exclusive): the chain head, or undefined to let HyperSync use its own
+  private async getQueryEndBlock(chainId: number): Promise<number | undefined> {
+    try {
+      const client = this.getPublicClient(chainId);
+      return Number(await client.getBlockNumber()) + 1;
+    } catch (error) {
+      console.warn(`Could not read the latest block on chain ${chainId}:`, error);
+      return undefined;
+    }
   }
 
-  // Make HTTP request to HyperSync endpoint
-  private async makeHyperSyncRequest(chainId: number, query: any): Promise<any> {
+  // Send a query through the transport (the proxy in the browser, HyperSync directly on the server)
+  private async makeHyperSyncRequest(chainId: number, query: HyperSyncQuery & { fromBlock: number; toBlock?: number }): Promise<HyperSyncResponse> {
     const url = this.getChainUrl(chainId);
     if (!url) {
       throw new Error(`No HyperSync URL for chain ${chainId}`);
     }
 
     try {
-      console.log(`🌐 Making HyperSync HTTP request to ${this.getChainName(chainId)}`);
-
-      const response = await fetch('/api/hypersync', {
-        method: 'POST',
-        headers: {
-          'Content-Type': 'application/json',
-        },
-        body: JSON.stringify({
-          chainId,
-          query: this.createQuery(query)
-        }),
-      });
-
-      if (!response.ok) {
-        const errorData = await response.json().catch(() => ({}));
-        throw new Error(`HyperSync proxy error: ${response.status} - ${errorData.error || 'Unknown error'}`);
-      }
-
-      const result = await response.json();
-      
-      if (result.success) {
-        console.log(`✅ HyperSync request successful for chain ${chainId}`);
-        return result.data;
-      } else {
-        throw new Error(`HyperSync proxy returned error: ${result.error}`);
-      }
-
+      console.log(`🌐 Making HyperSync request to ${this.getChainName(chainId)} (${this.transport.mode})`);
+      const data = await this.transport.query(chainId, this.createQuery(query));
+      console.log(`✅ HyperSync request successful for chain ${chainId}`);
+      return data;
     } catch (error) {
       console.error('HyperSync request failed:', error);
       throw error;
     }
   }
 
-  // Create query object with proper field selection
-  private createQuery(baseQuery: any): any {
+  // Translate a query to HyperSync's wire format
+  private createQuery(query: HyperSyncQuery & { fromBlock: number; toBlock?: number }): HyperSyncWireQuery {
     return {
-      ...baseQuery,
-      fieldSelection: {
-        block: ['number', 'timestamp', 'hash'],
-        transaction: ['hash', 'from', 'to', 'value', 'input', 'gas', 'gasPrice'],
-        log: ['data', 'topics', 'address']
-      },
+      from_block: query.fromBlock,
+      to_block: query.toBlock,
+      transactions: query.transactions,
+      logs: query.logs,
+      field_selection: query.fieldSelection || DEFAULT_FIELD_SELECTION,
     };
   }
 
-  // Get MetaMask DelegationManager address for a chain
-  private async getDelegationManagerAddress(chainId: number): Promise<string | null> {
-    try {
-      const { getDeleGatorEnvironment } = await import('@metamask/delegation-utils');
-      const environment = getDeleGatorEnvironment(chainId);
-      return environment?.DelegationManager || null;
-    } catch (error) {
-      console.warn(`Failed to get DelegationManager for chain ${chainId}:`, error);
-      return null;
+  // HyperSync returns one or more data batches; flatten them and attach block timestamps to transactions and logs
+  private toPage(fromBlock: number, response: HyperSyncResponse): HyperSyncPage {
+    const batches = Array.isArray(response.data) ? response.data : [response.data || {}];
+    const blocks = batches.flatMap(batch => batch.blocks || []);
+    const timestamps = new Map(blocks.map(block => [Number(block.number), Number(block.timestamp)]));
+    const withTimestamp = <T extends { block_number?: number | string; block_timestamp?: number }>(item: T): T => ({
+      ...item,
+      block_timestamp: item.block_timestamp ?? timestamps.get(Number(item.block_number)),
+    });
+
+    return {
+      fromBlock,
+      nextBlock: Number(response.next_block ?? fromBlock),
+      archiveHeight: response.archive_height != null ? Number(response.archive_height) : undefined,
+      blocks,
+      transactions: batches.flatMap(batch => batch.transactions || []).map(withTimestamp),
+      logs: batches.flatMap(batch => batch.logs || []).map(withTimestamp),
+    };
+  }
+
+  // Resolve a window to a block range; a time bound becomes the first block at or after it
+  private async resolveWindow(chainId: number, window: HyperSyncWindow): Promise<{ fromBlock: number; toBlock?: number }> {
+    const toBlock = window.toBlock ?? await this.getQueryEndBlock(chainId);
+    if (window.fromBlock !== undefined || window.since === undefined) {
+      return { fromBlock: window.fromBlock ?? 0, toBlock };
     }
+
+    const since = Math.floor(new Date(window.since).getTime() / 1000);
+    const client = this.getPublicClient(chainId);
+    return { fromBlock: await findBlockByTimestamp(client, since), toBlock };
   }
 
-  // Query real blockchain for delegation transactions
-  private async queryRealAutomationHistory(userAddress: string, chainId: number, limit: number): Promise<any[]> {
-    try {
-      const delegationManager = await this.getDelegationManagerAddress(chainId);
-      
-      if (!delegationManager) {
-        console.warn(`No DelegationManager found for chain ${chainId}, using event storage`);
-        return await this.queryEventStorageHistory(userAddress, chainId, limit);
-      }
+  /**
+   * Run a HyperSync query over a window, following `next_block` until the end
+   * of the range (or the indexed height when the chain head is unknown) and
+   * yielding each page as it arrives.
+   */
+  async *streamQuery(chainId: number, query: HyperSyncQuery, window: HyperSyncWindow = {}): AsyncGenerator<HyperSyncPage> {
+    const { fromBlock, toBlock } = await this.resolveWindow(chainId, window);
+    const maxPages = window.maxPages ?? MAX_HYPERSYNC_PAGES;
+    let cursor = fromBlock;
+
+    for (let pages = 0; pages < maxPages; pages++) {
+      const page = this.toPage(cursor, await this.makeHyperSyncRequest(chainId, { ...query, fromBlock: cursor, toBlock }));
+      yield page;
+
+      const end = toBlock ?? page.archiveHeight;
+      if (end === undefined || page.nextBlock <= cursor || page.nextBlock >= end) return;
+      cursor = page.nextBlock;
+    }
+    console.warn(`HyperSync query on ${this.getChainName(chainId)} stopped after ${maxPages} pages at block ${cursor}`);
+  }
 
-      console.log(`🔗 Querying MetaMask DelegationManager: ${delegationManager} on chain ${chainId}`);
+  /**
+   * Stream a user's transactions on a real chain page by page, newest page
+   * last. Defaults to the last 30 days.
+   */
+  async *streamUserTransactions(userAddress: string, chainId: number, window: HyperSyncWindow = {}): AsyncGenerator<any[]> {
+    const delegationManager = (await this.getDelegationManagerAddress(chainId))?.toLowerCase();
+    const query: HyperSyncQuery = { transactions: [{ from: [userAddress.toLowerCase()] }] };
+
+    for await (const page of this.streamQuery(chainId, query, this.withDefaultWindow(window))) {
+      yield page.transactions.map(tx => this.formatTransaction(
+        tx,
+        chainId,
+        tx.to?.toLowerCase() === delegationManager ? 'delegation_created' : this.inferTransactionType(tx)
+      ));
+    }
+  }
 
-      const baseQuery = {
-        fromBlock: 0,
-        toBlock: 10000000,
-        transactions: [{
-          from: [userAddress.toLowerCase() as `0x${string}`],
-          to: [delegationManager as `0x${string}`]
-        }],
-        fieldSelection: {
-          block: ['number', 'timestamp', 'hash'],
-          transaction: ['hash', 'from', 'to', 'value', 'input'],
-        }
-      };
+  /**
+   * Stream decoded delegation activity for a user page by page: delegations
+   * they enabled or disabled, redemptions of their delegations (executions by
+   * the executor) and their outgoing ERC-20 transfers. Defaults to the last 30 days.
+   */
+  async *streamDelegationEvents(userAddress: string, chainId: number, window: HyperSyncWindow = {}): AsyncGenerator<DecodedLogRecord[]> {
+    const delegationManager = (await this.getDelegationManagerAddress(chainId))?.toLowerCase();
+    if (!delegationManager) return;
+
+    const query: HyperSyncQuery = {
+      logs: this.delegationLogSelection(userAddress, delegationManager),
+      fieldSelection: LOG_FIELD_SELECTION,
+    };
 
-      const data = await this.makeHyperSyncRequest(chainId, baseQuery);
-      
-      const automationEvents: any[] = [];
-      
-      if (data && data.transactions) {
-        console.log(`📊 Found ${data.transactions.length} delegation transactions`);
-        
-        data.transactions.forEach((tx: any) => {
-          automationEvents.push({
-            automationId: `delegation_${tx.hash}`,
-            userAddress: userAddress.toLowerCase(),
-            type: 'delegation_created',
-            status: 'success',
-            timestamp: new Date(tx.block_timestamp * 1000).toISOString(),
-            transactionHash: tx.hash,
-            blockNumber: tx.block_number,
-            chainId: chainId,
-            chainName: this.getChainName(chainId),
-            isSimulated: false,
-            to: tx.to,
-            value: tx.value,
-            details: {
-              contract: delegationManager,
-              description: 'Delegation created via MetaMask DelegationManager'
-            }
-          });
-        });
-        
-        console.log(`✅ Processed ${automationEvents.length} delegation events`);
-      }
+    for await (const page of this.streamQuery(chainId, query, this.withDefaultWindow(window))) {
+      yield decodeLogs(page.logs, chainId, delegationManager);
+    }
+  }
 
-      return automationEvents.slice(0, limit);
+  private delegationLogSelection(userAddress: string, delegationManager: string): HyperSyncQuery['logs'] {
+    const user = addressTopic(userAddress);
+    return [
+      // RedeemedDelegation(rootDelegator indexed, redeemer indexed, delegation)
+      { address: [delegationManager], topics: [[DELEGATION_EVENT_TOPICS.redeemed], [user]] },
+      // Enabled/DisabledDelegation(delegationHash indexed, delegator indexed, delegate indexed, delegation)
+      { address: [delegationManager], topics: [[DELEGATION_EVENT_TOPICS.enabled, DELEGATION_EVENT_TOPICS.disabled], [], [user]] },
+      // Transfer(from indexed, to indexed, value), joined with redemptions in the same transaction
+      { topics: [[ERC20_TRANSFER_TOPIC], [user]] },
+    ];
+  }
 
-    } catch (error) {
-      console.error(`Failed to query real delegation history for chain ${chainId}:`, error);
-      return await this.queryEventStorageHistory(userAddress, chainId, limit);
+  // The newest `limit` executions and delegation status changes, as transaction records, newest first
+  private async collectDelegationActivity(userAddress: string, chainId: number, window: HyperSyncWindow, limit: number): Promise<any[]> {
+    let recent: any[] = [];
+    for await (const records of this.streamDelegationEvents(userAddress, chainId, window)) {
+      recent = recent.concat(this.toDelegationActivity(records, chainId)).slice(-limit);
     }
+    return recent.reverse();
   }
 
-  // Query event storage for simulated chains
-  private async queryEventStorageHistory(userAddress: string, chainId: number, limit: number): Promise<any[]> {
-    console.log(`🧪 Querying event storage for chain ${chainId} via API`);
-    
+  // Executions and delegation status changes as transaction records, in chain order.
+  // A transaction's logs arrive in one page, so redemptions join with their transfers here.
+  private toDelegationActivity(records: DecodedLogRecord[], chainId: number): any[] {
+    const executions = toExecutionRecords(records).map(execution => ({
+      ...this.formatTransaction({
+        hash: execution.transactionHash,
+        from: execution.delegator,
+        to: execution.recipient,
+        value: '0',
+        block_number: execution.blockNumber,
+        block_timestamp: execution.blockTimestamp,
+      }, chainId, 'automation_executed'),
+      amount: execution.amount,
+      token: execution.token,
+      symbol: execution.symbol,
+      recipient: execution.recipient,
+      executor: execution.executor,
+    }));
+    const statusChanges = records
+      .filter((record): record is DelegationStatusRecord => record.kind === 'delegation_enabled' || record.kind === 'delegation_disabled')
+      .map(record => ({
+        ...this.formatTransaction({
+          hash: record.transactionHash,
+          from: record.delegator,
+          to: record.address,
+          value: '0',
+          block_number: record.blockNumber,
+          block_timestamp: record.blockTimestamp,
+        }, chainId, record.kind),
+        delegationHash: record.delegationHash,
+        delegate: record.delegate,
+      }));
+
+    return [...executions, ...statusChanges].sort((a, b) => (a.blockNumber ?? 0) - (b.blockNumber ?? 0));
+  }
+
+  private withDefaultWindow(window: HyperSyncWindow): HyperSyncWindow {
+    return window.fromBlock === undefined && window.since === undefined
+      ? { ...window, since: Date.now() - DEFAULT_HISTORY_WINDOW_MS }
+      : window;
+  }
+
+  private formatTransaction(tx: HyperSyncTransaction, chainId: number, type: string): TransactionRecord {
+    return {
+      hash: tx.hash,
+      from: tx.from,
+      to: tx.to,
+      value: tx.value,
+      blockNumber: Number(tx.block_number),
+      blockTimestamp: tx.block_timestamp !== undefined ? new Date(tx.block_timestamp * 1000).toISOString() : undefined,
+      status: 'success',
+      chainId: chainId,
+      chainName: this.getChainName(chainId),
+      type,
+      isSimulated: false,
+      source: 'hypersync'
+    };
+  }
+
+  // Get MetaMask DelegationManager address for a chain
+  private async getDelegationManagerAddress(chainId: number): Promise<string | null> {
     try {
-      // Use API route to get events from server memory
-      const apiUrl = `/api/events?userAddress=${userAddress}&chainId=${chainId}`;
-      console.log(`🌐 Fetching events from: ${apiUrl}`);
-      
-      const response = await fetch(apiUrl);
-      
-      if (response.ok) {
-        const data = await response.json();
-        
-        if (data.success && data.events) {
-          const events = data.events;
-          
-          const formattedEvents = events.map((event: any) => ({
-            automationId: event.automationId,
-            userAddress: event.userAddress,
-            type: event.type,
-            status: event.status,
-            timestamp: event.timestamp,
-            transactionHash: event.transactionHash,
-            blockNumber: event.blockNumber || Math.floor(Math.random() * 1000000),
-            chainId: event.chainId,
-            chainName: this.getChainName(chainId),
-            isSimulated: event.isSimulated !== false,
-            params: event.params,
-            eventType: event.eventType,
-            details: event.details
-          })).slice(0, limit);
-
-          console.log(`✅ Found ${formattedEvents.length} events for chain ${chainId} from API`);
-          return formattedEvents;
-        } else {
-          console.warn('API returned error:', data.error);
-          return [];
-        }
-      } else {
-        console.warn(`API request failed with status: ${response.status}`);
-        return [];
-      }
+      return findDelegatorEnvironment(chainId)?.DelegationManager || null;
     } catch (error) {
-      console.warn('Event storage API failed:', error);
-      return this.generateMockAutomationEvents(userAddress, chainId, limit);
+      console.warn(`Failed to get DelegationManager for chain ${chainId}:`, error);
+      return null;
     }
   }
 
-  // Generate mock automation events as fallback
-  private generateMockAutomationEvents(userAddress: string, chainId?: number, limit: number = 10): any[] {
-    const events = [];
-    const types = ['recurring_payment', 'reward_claim', 'staking', 'reminder'];
-    const statuses = ['active', 'completed', 'failed'];
+  // Query real blockchain for delegation transactions
+  private async queryRealAutomationHistory(userAddress: string, chainId: number, limit: number, window: HyperSyncWindow = {}): Promise<any[]> {
+    const delegationManager = await this.getDelegationManagerAddress(chainId);
     
-    for (let i = 0; i < limit; i++) {
-      const type = types[Math.floor(Math.random() * types.length)];
-      const status = statuses[Math.floor(Math.random() * statuses.length)];
-      
-      events.push({
-        automationId: `auto_${Date.now() - i * 86400000}_${Math.random().toString(36).substr(2, 6)}`,
-        userAddress: userAddress.toLowerCase(),
-        type: type,
-        status: status,
-        timestamp: new Date(Date.now() - Math.random() * 7 * 24 * 60 * 60 * 1000).toISOString(),
-        transactionHash: `0x${Math.random().toString(16).substr(2, 64)}`,
-        blockNumber: Math.floor(Math.random() * 1000000),
-        chainId: chainId || 10143,
-        chainName: this.getChainName(chainId),
-        isSimulated: true,
-        params: {
-          amount: '0.1',
-          currency: 'ETH',
-          frequency: 'weekly'
-        },
-        eventType: ['created', 'executed'][Math.floor(Math.random() * 2)]
-      });
+    if (!delegationManager) {
+      console.warn(`No DelegationManager found for chain ${chainId}, using event storage`);
+      return await this.queryEventStorageHistory(userAddress, chainId, limit);
     }
-    
-    return events.sort((a, b) => new Date(b.timestamp).getTime() - new Date(a.timestamp).getTime());
+
+    console.log(`🔗 Querying MetaMask DelegationManager: ${delegationManager} on chain ${chainId}`);
+
+    const activity = this.cache
+      ? await this.getIndexedDelegationActivity(userAddress, chainId, limit, window)
+      : await this.collectDelegationActivity(userAddress, chainId, window, limit);
+    console.log(`📊 Found ${activity.length} delegation events`);
+
+    const automationEvents = activity.map((tx: any) => ({
+      automationId: `delegation_${tx.hash}`,
+      userAddress: userAddress.toLowerCase(),
+      type: tx.type,
+      status: 'success',
+      timestamp: tx.blockTimestamp,
+      transactionHash: tx.hash,
+      blockNumber: tx.blockNumber,
+      chainId: chainId,
+      chainName: this.getChainName(chainId),
+      isSimulated: false,
+      source: 'hypersync',
+      details: {
+        contract: delegationManager,
+        description: this.describeDelegationActivity(tx),
+        amount: tx.amount,
+        token: tx.token,
+        symbol: tx.symbol,
+        recipient: tx.recipient,
+        executor: tx.executor,
+        delegationHash: tx.delegationHash,
+      }
+    }));
+
+    return automationEvents;
   }
 
-  // Get delegation transactions from real chains
-  private async getDelegationTransactions(userAddress: string, chainId: number, limit: number): Promise<any[]> {
-    try {
-      const delegationManager = await this.getDelegationManagerAddress(chainId);
-      if (!delegationManager) return [];
+  // The newest `limit` executions and delegation status changes from the cache, newest first
+  private async getIndexedDelegationActivity(userAddress: string, chainId: number, limit: number, window: HyperSyncWindow): Promise<any[]> {
+    const cache = this.cache as HistoryCache;
+    await this.refreshHistory(userAddress, chainId);
+    return cache.query({
+      userAddress,
+      chainIds: [chainId],
+      types: DELEGATION_ACTIVITY_TYPES,
+      limit,
+      since: window.since,
+      fromBlock: window.fromBlock,
+      toBlock: window.toBlock,
+    }).records;
+  }
 
-      const baseQuery = {
-        fromBlock: 0,
-        toBlock: 10000000,
-        transactions: [{
-          from: [userAddress.toLowerCase() as `0x${string}`],
-          to: [delegationManager as `0x${string}`]
-        }],
-        fieldSelection: {
-          block: ['number', 'timestamp', 'hash'],
-          transaction: ['hash', 'from', 'to', 'value', 'input'],
-        }
-      };
+  // Query event storage for simulated chains
+  private async queryEventStorageHistory(userAddress: string, chainId: number, limit: number): Promise<any[]> {
+    console.log(`🧪 Querying event storage for chain ${chainId} (${this.transport.mode})`);
+    
+    const events = await this.transport.getEvents(userAddress, chainId);
+
+    const formattedEvents = events.map((event: any) => ({
+      automationId: event.automationId,
+      userAddress: event.userAddress,
+      type: event.type,
+      status: event.status,
+      timestamp: event.timestamp,
+      transactionHash: event.transactionHash,
+      blockNumber: event.blockNumber,
+      chainId: event.chainId,
+      chainName: this.getChainName(chainId),
+      isSimulated: event.isSimulated !== false,
+      source: 'event_storage',
+      params: event.params,
+      eventType: event.eventType,
+      details: event.details
+    })).slice(0, limit);
+
+    console.log(`✅ Found ${formattedEvents.length} events for chain ${chainId}`);
+    return formattedEvents;
+  }
 
-      const data = await this.makeHyperSyncRequest(chainId, baseQuery);
-      
-      if (data && data.transactions) {
-        return data.transactions.map((tx: any) => ({
-          hash: tx.hash,
-          from: tx.from,
-          to: tx.to,
-          value: tx.value,
-          blockNumber: tx.block_number,
-          blockTimestamp: new Date(tx.block_timestamp * 1000).toISOString(),
-          status: 'success',
-          chainId: chainId,
-          chainName: this.getChainName(chainId),
-          type: 'delegation_created',
-          isSimulated: false
-        })).slice(0, limit);
-      }
-      
-      return [];
-    } catch (error) {
-      console.warn(`Failed to get delegation transactions for chain ${chainId}:`, error);
-      return [];
-    }
+  private describeDelegationActivity(tx: any): string {
+    if (tx.type === 'delegation_enabled') return 'Delegation enabled via MetaMask DelegationManager';
+    if (tx.type === 'delegation_disabled') return 'Delegation disabled via MetaMask DelegationManager';
+    if (!tx.amount) return 'Automation executed via delegation';
+    return `Automation sent ${tx.amount} ${tx.symbol || tx.token} to ${tx.recipient}`;
   }
 
-  // Get regular transactions (non-delegation)
-  private async getRegularTransactions(userAddress: string, chainId: number, limit: number): Promise<any[]> {
-    try {
-      const baseQuery = {
-        fromBlock: 0,
-        toBlock: 10000000,
-        transactions: [{
-          from: [userAddress.toLowerCase() as `0x${string}`]
-        }],
-        fieldSelection: {
-          block: ['number', 'timestamp', 'hash'],
-          transaction: ['hash', 'from', 'to', 'value', 'input'],
-        }
-      };
+  // Get delegation activity (executions and status changes) from real chains, newest first
+  private async getDelegationTransactions(userAddress: string, chainId: number, limit: number, window: HyperSyncWindow = {}): Promise<any[]> {
+    return this.collectDelegationActivity(userAddress, chainId, window, limit);
+  }
 
-      const data = await this.makeHyperSyncRequest(chainId, baseQuery);
-      
-      if (data && data.transactions) {
-        return data.transactions
-          .filter((tx: any) => {
-            // Filter out delegation transactions (we get those separately)
-            const delegationManager = this.getDelegationManagerAddress(chainId);
-            return tx.to !== delegationManager;
-          })
-          .map((tx: any) => ({
-            hash: tx.hash,
-            from: tx.from,
-            to: tx.to,
-            value: tx.value,
-            blockNumber: tx.block_number,
-            blockTimestamp: new Date(tx.block_timestamp * 1000).toISOString(),
-            status: 'success',
-            chainId: chainId,
-            chainName: this.getChainName(chainId),
-            type: this.inferTransactionType(tx),
-            isSimulated: false
-          }))
-          .slice(0, limit);
-      }
-      
-      return [];
-    } catch (error) {
-      console.warn(`Failed to get regular transactions for chain ${chainId}:`, error);
-      return [];
+  // Get regular transactions (non-delegation), newest first
+  private async getRegularTransactions(userAddress: string, chainId: number, limit: number, window: HyperSyncWindow = {}): Promise<any[]> {
+    // Delegation transactions are fetched separately
+    const delegationManager = (await this.getDelegationManagerAddress(chainId))?.toLowerCase();
+    let recent: any[] = [];
+    for await (const batch of this.streamUserTransactions(userAddress, chainId, window)) {
+      recent = recent.concat(batch.filter(tx => tx.to?.toLowerCase() !== delegationManager)).slice(-limit);
     }
+    return recent.reverse();
   }
 
   // Helper to infer transaction type
-  private inferTransactionType(tx: any): string {
+  private inferTransactionType(tx: HyperSyncTransaction): string {
     if (!tx.to) return 'contract_creation';
     if (tx.value && BigInt(tx.value) > 0) return 'payment_sent';
     if (tx.input && tx.input !== '0x') return 'contract_interaction';
@@ -397,68 +684,37 @@ export class EnvioTracker {
   }
 
   // Get simulated transactions from event storage
-  private async getSimulatedTransactions(userAddress: string, chainId: number, limit: number): Promise<any[]> {
-    try {
-      // Use API route
-      const apiUrl = `/api/events?userAddress=${userAddress}&chainId=${chainId}`;
-      const response = await fetch(apiUrl);
-      
-      if (response.ok) {
-        const data = await response.json();
-        
-        if (data.success && data.events) {
-          const events = data.events
-            .filter((event: any) => event.transactionHash)
-            .slice(0, limit);
-          
-          return events.map((event: any) => ({
-            hash: event.transactionHash,
-            from: userAddress.toLowerCase(),
-            to: `0x${Math.random().toString(16).substr(2, 40)}`,
-            value: (event.params?.amount ? (parseFloat(event.params.amount) * 1e18).toString() : '0'),
-            blockNumber: event.blockNumber || Math.floor(Math.random() * 1000000),
-            blockTimestamp: event.timestamp,
-            status: 'success',
-            chainId: chainId,
-            chainName: this.getChainName(chainId),
-            type: this.eventTypeToTransactionType(event.eventType, event.type),
-            isSimulated: true
-          }));
-        }
-      }
-      
-      throw new Error('API request failed');
-    } catch (error) {
-      console.warn('Failed to get simulated transactions from API:', error);
-      return this.generateMockTransactions(userAddress, [chainId], limit);
-    }
+  private async getSimulatedTransactions(userAddress: string, chainId: number, limit: number): Promise<TransactionRecord[]> {
+    const events = (await this.transport.getEvents(userAddress, chainId))
+      .filter((event: any) => event.transactionHash)
+      .slice(0, limit);
+
+    return events.map((event: any) => ({
+      hash: event.transactionHash,
+      from: userAddress.toLowerCase(),
+      to: event.params?.recipient,
+      value: this.getEventValue(event.params, chainId),
+      blockNumber: event.blockNumber,
+      blockTimestamp: event.timestamp,
+      status: 'success',
+      chainId: chainId,
+      chainName: this.getChainName(chainId),
+      type: this.eventTypeToTransactionType(event.eventType, event.type),
+      isSimulated: true,
+      source: 'event_storage'
+    }));
   }
 
-  // Generate mock transactions as fallback
-  private generateMockTransactions(userAddress: string, chainIds?: number[], limit: number = 20): any[] {
-    const targetChains = chainIds && chainIds.length > 0 ? chainIds : [10143];
-    const transactions = [];
-    
-    for (let i = 0; i < limit; i++) {
-      const chainId = targetChains[i % targetChains.length];
-      const types = ['payment_sent', 'delegation_created', 'reward_claimed', 'contract_interaction'];
-      
-      transactions.push({
-        hash: `0x${Math.random().toString(16).substr(2, 64)}`,
-        from: userAddress.toLowerCase(),
-        to: `0x${Math.random().toString(16).substr(2, 40)}`,
-        value: (Math.random() * 0.5).toFixed(6),
-        blockNumber: 1000000 + i,
-        blockTimestamp: new Date(Date.now() - Math.random() * 30 * 24 * 60 * 60 * 1000).toISOString(),
-        status: 'success',
-        type: types[Math.floor(Math.random() * types.length)],
-        chainId: chainId,
-        chainName: this.getChainName(chainId),
-        isSimulated: true
-      });
+  // Amount an event paid in base units of its currency; '0' when it has none or it can't be parsed
+  private getEventValue(params: { amount?: string; currency?: string } | undefined, chainId: number): string {
+    if (!params?.amount) return '0';
+    try {
+      const token = resolvePaymentToken(params.currency || getNativeSymbol(chainId), chainId);
+      return parseTokenAmount(String(params.amount), token?.decimals).toString();
+    } catch (error) {
+      if (error instanceof TokenError) return '0';
+      throw error;
     }
-    
-    return transactions.sort((a, b) => new Date(b.blockTimestamp).getTime() - new Date(a.blockTimestamp).getTime());
   }
 
   // Map event types to transaction types
@@ -478,7 +734,7 @@ export class EnvioTracker {
     }
 
     try {
-      const chainId = event.chainId || 10143;
+      const chainId = event.chainId || DEFAULT_CHAIN_ID;
       
       console.log(`📊 HyperSync: Tracking automation on ${this.getChainName(chainId)} (chain ${chainId})`, {
         automationId: event.automationId,
@@ -508,7 +764,7 @@ export class EnvioTracker {
     }
 
     try {
-      const chainId = event.chainId || 10143;
+      const chainId = event.chainId || DEFAULT_CHAIN_ID;
 
       if (event.transactionHash) {
         console.log(`📊 HyperSync: Tracking transaction on ${this.getChainName(chainId)}`, {
@@ -536,22 +792,25 @@ export class EnvioTracker {
     }
   }
 
-  // Get automation history from specific chain
-  async getAutomationHistory(userAddress: string, chainId?: number, limit: number = 10): Promise<any[]> {
+  // Get automation history from specific chain; throws EnvioQueryError when it can't be loaded
+  async getAutomationHistory(userAddress: string, chainId?: number, limit: number = 10, window: HyperSyncWindow = {}): Promise<any[]> {
+    const targetChainId = chainId || DEFAULT_CHAIN_ID;
+    if (this.demo) {
+      return createDemoAutomationEvents(userAddress, targetChainId, limit, this.demo);
+    }
+
     if (!this.isEnabled) {
       console.warn('Envio not configured - returning empty automation history');
       return [];
     }
 
     try {
-      const targetChainId = chainId || 10143;
-      
       // Strategy: Check if this is a real chain or simulated
       const isRealChain = this.isRealChain(targetChainId);
       
       if (isRealChain) {
-        // Real chains: Query MetaMask DelegationManager transactions
-        return await this.queryRealAutomationHistory(userAddress, targetChainId, limit);
+        // Real chains: Query MetaMask DelegationManager events
+        return await this.queryRealAutomationHistory(userAddress, targetChainId, limit, window);
       } else {
         // Simulated chains: Use event storage
         return await this.queryEventStorageHistory(userAddress, targetChainId, limit);
@@ -559,51 +818,232 @@ export class EnvioTracker {
 
     } catch (error) {
       console.error('Automation history query failed:', error);
-      return this.generateMockAutomationEvents(userAddress, chainId, limit);
+      if (error instanceof EnvioQueryError) throw error;
+      throw new EnvioQueryError(`Could not load automation history on ${getChainDisplayName(targetChainId)}`, error);
     }
   }
 
-  // Get cross-chain transaction history
-  async getTransactionHistory(userAddress: string, chainIds?: number[], limit: number = 20): Promise<any[]> {
+  /**
+   * Get cross-chain transaction history. Throws EnvioQueryError naming the
+   * chains that failed, so partial history is never shown as complete.
+   */
+  async getTransactionHistory(userAddress: string, chainIds?: number[], limit: number = 20, window: HyperSyncWindow = {}): Promise<any[]> {
+    const targetChains = chainIds && chainIds.length > 0 ? chainIds : [DEFAULT_CHAIN_ID];
+    if (this.demo) {
+      return createDemoTransactions(userAddress, targetChains, limit, this.demo);
+    }
+
     if (!this.isEnabled) {
       console.warn('Envio not configured - returning empty transaction history');
       return [];
     }
 
-    try {
-      const targetChains = chainIds && chainIds.length > 0 ? chainIds : [10143];
-      const allTransactions: any[] = [];
-
-      for (const chainId of targetChains) {
-        try {
-          const isRealChain = this.isRealChain(chainId);
-          
-          if (isRealChain) {
-            // For real chains, get both delegation and regular transactions
-            const delegationTxs = await this.getDelegationTransactions(userAddress, chainId, Math.ceil(limit / 2));
-            const regularTxs = await this.getRegularTransactions(userAddress, chainId, Math.ceil(limit / 2));
-            allTransactions.push(...delegationTxs, ...regularTxs);
-          } else {
-            // For simulated chains, use event storage
-            const simulatedTxs = await this.getSimulatedTransactions(userAddress, chainId, Math.ceil(limit / targetChains.length));
-            allTransactions.push(...simulatedTxs);
-          }
-        } catch (error) {
-          console.warn(`Failed to get transactions for chain ${chainId}:`, error);
+    if (this.cache) {
+      return (await this.getIndexedTransactionHistory(userAddress, targetChains, { limit }, window)).transactions;
+    }
+
+    const allTransactions: any[] = [];
+    const failedChains: number[] = [];
+    let lastError: unknown;
+
+    for (const chainId of targetChains) {
+      try {
+        const isRealChain = this.isRealChain(chainId);
+        
+        if (isRealChain) {
+          // For real chains, get both delegation and regular transactions
+          const delegationTxs = await this.getDelegationTransactions(userAddress, chainId, Math.ceil(limit / 2), window);
+          const regularTxs = await this.getRegularTransactions(userAddress, chainId, Math.ceil(limit / 2), window);
+          allTransactions.push(...delegationTxs, ...regularTxs);
+        } else {
+          // For simulated chains, use event storage
+          const simulatedTxs = await this.getSimulatedTransactions(userAddress, chainId, Math.ceil(limit / targetChains.length));
+          allTransactions.push(...simulatedTxs);
         }
+      } catch (error) {
+        console.warn(`Failed to get transactions for chain ${chainId}:`, error);
+        failedChains.push(chainId);
+        lastError = error;
+      }
+    }
+
+    if (failedChains.length) {
+      throw new EnvioQueryError(`Could not load transactions on ${failedChains.map(getChainDisplayName).join(', ')}`, lastError);
+    }
+
+    return allTransactions
+      .sort((a, b) => new Date(b.blockTimestamp).getTime() - new Date(a.blockTimestamp).getTime())
+      .slice(0, limit);
+  }
+
+  /**
+   * Transaction history served from the cache, with paging and sorting done by
+   * the cache. Stale chains sync in the background (see refreshHistory);
+   * `syncing` says the page may still grow. Without a cache, the newest
+   * `offset + limit` are queried live and paged here; oldest-first pages load
+   * the window (up to UNCACHED_HISTORY_LIMIT records) and page from its end.
+   */
+  async getIndexedTransactionHistory(
+    userAddress: string,
+    chainIds: number[],
+    page: HistoryPageOptions,
+    window: HyperSyncWindow = {}
+  ): Promise<{ transactions: any[]; total: number; syncing: boolean }> {
+    const offset = page.offset || 0;
+    if (this.demo || !this.cache) {
+      const ascending = page.order === 'asc';
+      const transactions = await this.getTransactionHistory(userAddress, chainIds, ascending ? UNCACHED_HISTORY_LIMIT : offset + page.limit, window);
+      const ordered = ascending ? [...transactions].reverse() : transactions;
+      return { transactions: ordered.slice(offset, offset + page.limit), total: transactions.length, syncing: false };
+    }
+
+    const failedChains: number[] = [];
+    let lastError: unknown;
+    let syncing = false;
+    for (const chainId of chainIds) {
+      try {
+        syncing = (await this.refreshHistory(userAddress, chainId)) || syncing;
+      } catch (error) {
+        console.warn(`Failed to sync history for chain ${chainId}:`, error);
+        failedChains.push(chainId);
+        lastError = error;
       }
+    }
+    if (failedChains.length) {
+      throw new EnvioQueryError(`Could not load transactions on ${failedChains.map(getChainDisplayName).join(', ')}`, lastError);
+    }
 
-      return allTransactions
-        .sort((a, b) => new Date(b.blockTimestamp).getTime() - new Date(a.blockTimestamp).getTime())
-        .slice(0, limit);
+    const { records, total } = this.cache.query({
+      userAddress,
+      chainIds,
+      ...page,
+      since: window.since,
+      fromBlock: window.fromBlock,
+      toBlock: window.toBlock,
+    });
+    return { transactions: records, total, syncing };
+  }
 
-    } catch (error) {
-      console.error('Transaction history query failed:', error);
-      return this.generateMockTransactions(userAddress, chainIds, limit);
+  /**
+   * Start syncing a user's history on a real chain in the background when its
+   * checkpoint is older than HISTORY_SYNC_INTERVAL_MS, so requests are served
+   * from the cache instead of waiting on HyperSync. At most one sync runs per
+   * user and chain. Simulated chains only mirror the event store and sync
+   * inline. Returns whether a sync is still running, and throws
+   * EnvioQueryError while the last sync failed so a stale index isn't shown
+   * as complete.
+   */
+  private async refreshHistory(userAddress: string, chainId: number): Promise<boolean> {
+    if (!this.isRealChain(chainId)) {
+      await this.syncHistory(userAddress, chainId);
+      return false;
+    }
+
+    const key = `${chainId}:${userAddress.toLowerCase()}`;
+    const checkpoint = this.cache?.getCheckpoint(userAddress, chainId);
+    const fresh = !!checkpoint && Date.now() - new Date(checkpoint.syncedAt).getTime() < HISTORY_SYNC_INTERVAL_MS;
+    if (!fresh && !this.syncs.has(key)) {
+      const running = this.syncHistory(userAddress, chainId)
+        .then(synced => {
+          this.syncErrors.delete(key);
+          return synced;
+        })
+        .catch(error => {
+          console.warn(`Failed to sync history for chain ${chainId}:`, error);
+          this.syncErrors.set(key, error);
+          return undefined;
+        })
+        .finally(() => this.syncs.delete(key));
+      this.syncs.set(key, running);
+    }
+
+    if (this.syncErrors.has(key)) {
+      throw new EnvioQueryError(`Could not sync history on ${getChainDisplayName(chainId)}`, this.syncErrors.get(key));
+    }
+    return this.syncs.has(key);
+  }
+
+  /**
+   * Bring a user's cached history on a chain up to the head. Real chains are
+   * indexed from the checkpoint (the default 30-day window on first sync) in
+   * one paged query for the user's transactions and delegation logs; if the
+   * checkpoint block's hash changed, the last REORG_ROLLBACK_BLOCKS blocks are
+   * dropped and indexed again. Simulated chains mirror the event store.
+   */
+  async syncHistory(userAddress: string, chainId: number): Promise<HistoryCheckpoint | undefined> {
+    const cache = this.cache;
+    if (!cache) return undefined;
+    const user = userAddress.toLowerCase();
+
+    if (!this.isRealChain(chainId)) {
+      const transactions = await this.getSimulatedTransactions(user, chainId, Infinity);
+      cache.removeRecords(user, chainId);
+      cache.putRecords(user, chainId, transactions);
+      return undefined;
+    }
+
+    const client = this.getPublicClient(chainId);
+    const head = await client.getBlock();
+    const headNumber = Number(head.number);
+    const checkpoint = cache.getCheckpoint(user, chainId);
+    let fromBlock: number | undefined;
+
+    if (checkpoint) {
+      fromBlock = checkpoint.lastSyncedBlock + 1;
+      const synced = checkpoint.lastSyncedBlock <= headNumber
+        ? await client.getBlock({ blockNumber: BigInt(checkpoint.lastSyncedBlock) })
+        : undefined;
+      if (synced?.hash !== checkpoint.blockHash) {
+        fromBlock = Math.max(checkpoint.lastSyncedBlock - REORG_ROLLBACK_BLOCKS + 1, 0);
+        console.warn(`↩️ Reorg on ${this.getChainName(chainId)} at block ${checkpoint.lastSyncedBlock}; re-indexing from block ${fromBlock}`);
+        cache.removeRecords(user, chainId, fromBlock);
+      }
+      if (fromBlock > headNumber) {
+        const current = { ...checkpoint, syncedAt: new Date().toISOString() };
+        cache.saveCheckpoint(current);
+        return current;
+      }
     }
+
+    const delegationManager = (await this.getDelegationManagerAddress(chainId))?.toLowerCase();
+    const query: HyperSyncQuery = {
+      transactions: [{ from: [user] }],
+      logs: delegationManager ? this.delegationLogSelection(user, delegationManager) : undefined,
+    };
+    const window = fromBlock !== undefined
+      ? { fromBlock, toBlock: headNumber + 1 }
+      : this.withDefaultWindow({ toBlock: headNumber + 1 });
+
+    // Written once at the end so a sync rewrites the user's records a single time
+    const indexed: TransactionRecord[] = [];
+    let syncedTo = -1;
+    for await (const page of this.streamQuery(chainId, query, window)) {
+      // Logs also pull in their transactions (e.g. the executor's); only the user's own are history
+      const transactions = page.transactions
+        .filter(tx => tx.from?.toLowerCase() === user && tx.to?.toLowerCase() !== delegationManager)
+        .map(tx => this.formatTransaction(tx, chainId, this.inferTransactionType(tx)));
+      const activity = this.toDelegationActivity(decodeLogs(page.logs, chainId, delegationManager), chainId);
+      indexed.push(...transactions, ...activity);
+      // HyperSync may stop short of the head while its archive catches up
+      syncedTo = Math.min(page.nextBlock, headNumber + 1) - 1;
+    }
+    if (syncedTo < 0) return checkpoint;
+    cache.putRecords(user, chainId, indexed);
+
+    const syncedBlock = syncedTo === headNumber ? head : await client.getBlock({ blockNumber: BigInt(syncedTo) });
+    const next: HistoryCheckpoint = {
+      userAddress: user,
+      chainId,
+      lastSyncedBlock: syncedTo,
+      blockHash: syncedBlock.hash as string,
+      syncedAt: new Date().toISOString(),
+    };
+    cache.saveCheckpoint(next);
+    console.log(`🗂️ Indexed ${this.getChainName(chainId)} history for ${user} up to block ${syncedTo}`);
+    return next;
   }
 
-  // Get user's transaction count and activity
+  // Get user's transaction count and activity; throws EnvioQueryError when it can't be loaded
   async getUserActivity(userAddress: string, chainId?: number): Promise<any> {
     if (!this.isEnabled) {
       console.warn('Envio not configured - returning empty user activity');
@@ -612,13 +1052,23 @@ export class EnvioTracker {
         firstTransaction: null,
         latestTransaction: null,
         totalValue: "0",
-        chainId: chainId || 10143,
+        chainId: chainId || DEFAULT_CHAIN_ID,
         chainName: this.getChainName(chainId),
       };
     }
 
     try {
-      const targetChainId = chainId || 10143;
+      const targetChainId = chainId || DEFAULT_CHAIN_ID;
+
+      // Indexed history is summarized by the cache
+      if (this.cache && !this.demo) {
+        await this.refreshHistory(userAddress, targetChainId);
+        return {
+          ...this.cache.summarize(userAddress, targetChainId),
+          chainId: targetChainId,
+          chainName: this.getChainName(targetChainId),
+        };
+      }
       
       // Get transaction history for analytics
       const transactions = await this.getTransactionHistory(userAddress, [targetChainId], 1000);
@@ -634,33 +1084,29 @@ export class EnvioTracker {
 
     } catch (error) {
       console.error('HyperSync user activity query failed:', error);
-      return {
-        totalTransactions: 0,
-        firstTransaction: null,
-        latestTransaction: null,
-        totalValue: "0",
-        chainId: chainId || 10143,
-        chainName: this.getChainName(chainId),
-      };
+      if (error instanceof EnvioQueryError) throw error;
+      throw new EnvioQueryError(`Could not load activity on ${getChainDisplayName(chainId || DEFAULT_CHAIN_ID)}`, error);
     }
   }
 
   // Get supported chains
   getSupportedChains(): Array<{ chainId: number; name: string; url: string }> {
-    return this.chainConfigs;
+    return CHAIN_REGISTRY
+      .filter(config => config.hypersyncUrl)
+      .map(config => ({ chainId: config.id, name: config.slug, url: config.hypersyncUrl as string }));
   }
 
   // Check if a chain is supported
   isChainSupported(chainId: number): boolean {
-    return this.chainConfigs.some(config => config.chainId === chainId);
+    return !!getHyperSyncUrl(chainId);
   }
 
   // Monad-specific analytics
   async getMonadAnalytics(userAddress: string): Promise<any> {
-    return this.getChainAnalytics(userAddress, 10143);
+    return this.getChainAnalytics(userAddress, DEFAULT_CHAIN_ID);
   }
 
-  // Generic chain analytics
+  // Generic chain analytics; throws EnvioQueryError when they can't be loaded
   async getChainAnalytics(userAddress: string, chainId: number): Promise<any> {
     if (!this.isEnabled) {
       console.warn('Envio not configured - returning empty analytics');
@@ -676,16 +1122,16 @@ export class EnvioTracker {
     }
 
     try {
-      const [activity, automations] = await Promise.all([
+      const [activity, totalAutomations] = await Promise.all([
         this.getUserActivity(userAddress, chainId),
-        this.getAutomationHistory(userAddress, chainId, 20)
+        this.countAutomations(userAddress, chainId)
       ]);
 
       return {
         chainId,
         chainName: this.getChainName(chainId),
         totalTransactions: activity.totalTransactions,
-        totalAutomations: automations.length,
+        totalAutomations,
         firstActivity: activity.firstTransaction?.blockTimestamp || null,
         latestActivity: activity.latestTransaction?.blockTimestamp || null,
         totalValue: activity.totalValue,
@@ -693,16 +1139,18 @@ export class EnvioTracker {
 
     } catch (error) {
       console.error(`HyperSync analytics failed for chain ${chainId}:`, error);
-      return {
-        chainId,
-        chainName: this.getChainName(chainId),
-        totalTransactions: 0,
-        totalAutomations: 0,
-        firstActivity: null,
-        latestActivity: null,
-        totalValue: "0",
-      };
+      if (error instanceof EnvioQueryError) throw error;
+      throw new EnvioQueryError(`Could not load analytics on ${getChainDisplayName(chainId)}`, error);
+    }
+  }
+
+  // Indexed automation activity is counted by the cache; otherwise the newest 20 events are
+  private async countAutomations(userAddress: string, chainId: number): Promise<number> {
+    if (this.cache && !this.demo && this.isRealChain(chainId)) {
+      await this.refreshHistory(userAddress, chainId);
+      return this.cache.query({ userAddress, chainIds: [chainId], types: DELEGATION_ACTIVITY_TYPES, limit: 0 }).total;
     }
+    return (await this.getAutomationHistory(userAddress, chainId, 20)).length;
   }
 
   // Check if native client is available
@@ -717,7 +1165,7 @@ export class EnvioTracker {
     }
 
     try {
-      const targetChainId = chainId || 10143;
+      const targetChainId = chainId || DEFAULT_CHAIN_ID;
       
       console.log(`🧪 Testing HyperSync connection to ${this.getChainName(targetChainId)}...`);
 
@@ -740,20 +1188,21 @@ export class EnvioTracker {
   }
 }
 
+// Browser tracker; server code uses serverEnvioTracker from envio-server
 export const envioTracker = new EnvioTracker();
 
 // Convenience exports
-export const trackAutomationInEnvio = (event: AutomationEvent) => 
-  envioTracker.trackAutomation(event);
+export const getAutomationHistoryFromEnvio = (userAddress: string, chainId?: number, limit?: number, window?: HyperSyncWindow) => 
+  envioTracker.getAutomationHistory(userAddress, chainId, limit, window);
 
-export const trackTransactionInEnvio = (event: TransactionEvent) => 
-  envioTracker.trackTransaction(event);
+export const getTransactionHistoryFromEnvio = (userAddress: string, chainIds?: number[], limit?: number, window?: HyperSyncWindow) => 
+  envioTracker.getTransactionHistory(userAddress, chainIds, limit, window);
 
-export const getAutomationHistoryFromEnvio = (userAddress: string, chainId?: number, limit?: number) => 
-  envioTracker.getAutomationHistory(userAddress, chainId, limit);
+export const streamTransactionsFromEnvio = (userAddress: string, chainId: number, window?: HyperSyncWindow) => 
+  envioTracker.streamUserTransactions(userAddress, chainId, window);
 
-export const getTransactionHistoryFromEnvio = (userAddress: string, chainIds?: number[], limit?: number) => 
-  envioTracker.getTransactionHistory(userAddress, chainIds, limit);
+export const streamDelegationEventsFromEnvio = (userAddress: string, chainId: number, window?: HyperSyncWindow) => 
+  envioTracker.streamDelegationEvents(userAddress, chainId, window);
 
 export const getMonadAnalyticsFromEnvio = (userAddress: string) => 
   envioTracker.getMonadAnalytics(userAddress);
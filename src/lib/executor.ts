@@ -0,0 +1,489 @@
+import { getAddress, TransactionReceiptNotFoundError, type Hex, type PublicClient } from 'viem';
+import { UserOperationReceiptNotFoundError } from 'viem/account-abstraction';
+import { privateKeyToAccount } from 'viem/accounts';
+import { automationStorage, eventStorage, type Automation } from './automation';
+import { DelegationService, type DelegationResult } from './delegation-service';
+import { calculateNextExecution, isOneOffSchedule, scheduleFromParams } from './schedule';
+import { trackTransactionInEnvio } from './envio-server';
+import { planAutomationCaveats, CaveatError, type CaveatSpec } from './caveats';
+import { recheckRecipient, type RecipientChange, type RecipientResolution } from './recipients';
+import { readPendingRewards } from './protocol-adapters';
+import { validateAutomationParams } from './automation-schema';
+import { getChainClientFactory, type ChainClientFactory } from './chain-clients';
+
+export interface ExecutionOutcome {
+  automationId: string;
+  success: boolean;
+  transactionHash?: string;
+  userOperationHash?: string;
+  blockNumber?: number;
+  isSimulated?: boolean;
+  error?: string;
+  // Set when the run was skipped without a transaction
+  skippedReason?: string;
+  // Redemption broadcast but its receipt isn't available yet; checked again next tick
+  pending?: boolean;
+}
+
+export interface TickResult {
+  startedAt: string;
+  finishedAt: string;
+  due: number;
+  executed: number;
+  failed: number;
+  pending: number;
+  skipped: boolean;
+  outcomes: ExecutionOutcome[];
+}
+
+type PendingExecution = NonNullable<Automation['pendingExecution']>;
+
+// Failed executions are retried after this delay, up to MAX_CONSECUTIVE_FAILURES times
+const RETRY_DELAY_MS = Number(process.env.EXECUTOR_RETRY_DELAY_MS || 15 * 60 * 1000);
+const MAX_CONSECUTIVE_FAILURES = Number(process.env.EXECUTOR_MAX_FAILURES || 3);
+// How long a claimed automation stays reserved for this process; a crashed
+// executor's claims lapse after this
+const LEASE_MS = Number(process.env.EXECUTOR_LEASE_MS || 10 * 60 * 1000);
+// A broadcast redemption the chain has never heard of after this long is
+// marked failed (without retrying) for the user to look at
+const PENDING_TIMEOUT_MS = Number(process.env.EXECUTOR_PENDING_TIMEOUT_MS || 24 * 60 * 60 * 1000);
+
+// Skip overlapping ticks in the same process (interval + API trigger);
+// across processes each automation is claimed with a lease in storage
+declare global {
+  var _executorTickRunning: boolean | undefined;
+}
+
+/**
+ * Scans active automations and runs the ones whose nextExecution has passed.
+ * Used by both the standalone worker (scripts/executor.ts) and /api/executor/tick.
+ */
+export class AutomationExecutor {
+  // Identifies this process's execution leases
+  private readonly owner = `executor_${process.pid}_${Math.random().toString(36).substr(2, 9)}`;
+
+  constructor(
+    private readonly delegationService: DelegationService = new DelegationService(),
+    // Defaults to the shared factory, read at call time so tests can swap it
+    private readonly chainClients?: ChainClientFactory
+  ) {}
+
+  private getChainClients(): ChainClientFactory {
+    return this.chainClients || getChainClientFactory();
+  }
+
+  private getExecutorAccount() {
+    const privateKey = process.env.EXECUTOR_PRIVATE_KEY;
+    if (!privateKey) {
+      throw new Error('Executor private key not configured (EXECUTOR_PRIVATE_KEY)');
+    }
+    return privateKeyToAccount(privateKey as Hex);
+  }
+
+  // Active automations whose nextExecution is at or before `now`, plus any
+  // with a broadcast redemption still waiting for its receipt
+  getDueAutomations(now: Date = new Date()): Automation[] {
+    return automationStorage.getAll().filter(auto =>
+      !!auto.pendingExecution || (
+        auto.status === 'active' &&
+        !!auto.nextExecution &&
+        new Date(auto.nextExecution).getTime() <= now.getTime()
+      )
+    );
+  }
+
+  // Run a single automation and record the outcome
+  async executeAutomation(automation: Automation, now: Date = new Date()): Promise<ExecutionOutcome> {
+    console.log(`⚡ Executing automation ${automation.id} (${automation.type}) on chain ${automation.chainId}`);
+
+    let result: DelegationResult;
+
+    try {
+      // ENS names and contacts can be repointed after confirmation; never follow them silently
+      const resolved = automation.resolvedRecipient;
+      if (automation.type === 'recurring_payment' && resolved && resolved.source !== 'address') {
+        const { resolution, change } = await recheckRecipient(resolved, automation.userAddress);
+        if (change) {
+          this.flagRecipientChange(automation, resolution, change);
+          return {
+            automationId: automation.id,
+            success: false,
+            error: `Recipient ${change.label} now resolves to ${change.to}; waiting for confirmation`,
+          };
+        }
+      }
+
+      if (automation.type === 'reminder') {
+        // Reminders have nothing to redeem on chain
+        result = { success: true, chainId: automation.chainId, isSimulated: automation.isSimulated };
+      } else if (automation.isSimulated) {
+        result = await this.delegationService.redeemAutomationDelegation(automation);
+      } else {
+        const chainId = automation.chainId as number;
+        const publicClient = this.getChainClients().getPublicClient(chainId);
+        const walletClient = this.getChainClients().getWalletClient(chainId, this.getExecutorAccount());
+
+        // Skip (and record) delegations the user disabled outside the app
+        const active = await this.delegationService.checkDelegationStatus(automation.delegationId as string, chainId, publicClient);
+        if (!active) {
+          automationStorage.revoke(automation.id, { isSimulated: false, reason: 'disabled_on_chain' });
+          return {
+            automationId: automation.id,
+            success: false,
+            error: 'Delegation disabled on chain',
+          };
+        }
+
+        // Don't spend gas on a claim with nothing to collect; try again at the next scheduled run
+        if (automation.type === 'reward_claim') {
+          const params = validateAutomationParams('reward_claim', automation.params);
+          const pending = await readPendingRewards({ type: 'reward_claim', params }, getAddress(automation.userAddress), publicClient);
+          if (pending === BigInt(0)) {
+            this.recordNothingToClaim(automation, now);
+            return {
+              automationId: automation.id,
+              success: true,
+              skippedReason: 'No pending rewards',
+            };
+          }
+        }
+
+        result = await this.delegationService.redeemAutomationDelegation(automation, walletClient, publicClient);
+
+        if (result.success && (result.transactionHash || result.userOperationHash)) {
+          // From here on a retry would pay twice: remember the hash before waiting
+          const pending = this.recordPendingExecution(automation, result, now);
+          return this.settlePendingExecution(pending, now, true);
+        }
+      }
+    } catch (error) {
+      result = {
+        success: false,
+        error: error instanceof Error ? error.message : 'Execution failed',
+        chainId: automation.chainId,
+      };
+    }
+
+    if (result.success) {
+      this.recordSuccess(automation, result, now);
+    } else {
+      this.recordFailure(automation, result, now);
+    }
+
+    return {
+      automationId: automation.id,
+      success: result.success,
+      transactionHash: result.transactionHash,
+      isSimulated: result.isSimulated,
+      error: result.error,
+    };
+  }
+
+  private recordPendingExecution(automation: Automation, result: DelegationResult, now: Date): Automation {
+    const pendingExecution = {
+      transactionHash: result.transactionHash,
+      userOperationHash: result.userOperationHash,
+      submittedAt: now,
+      scheduledFor: automation.nextExecution,
+      isSimulated: result.isSimulated,
+    };
+    const sent = pendingExecution.userOperationHash ? `UserOperation ${pendingExecution.userOperationHash}` : pendingExecution.transactionHash;
+    console.log(`📤 Automation ${automation.id} redemption broadcast: ${sent}`);
+    return automationStorage.updateWith(automation.id, () => ({ pendingExecution }))
+      || { ...automation, pendingExecution };
+  }
+
+  /**
+   * Wait for (right after broadcasting) or look up (on later ticks) the
+   * receipt of a broadcast redemption: the transaction receipt, or the
+   * bundler's receipt for a UserOperation. Until it is found the automation
+   * stays pending: an RPC error or timeout never leads to a second redemption.
+   */
+  async settlePendingExecution(automation: Automation, now: Date = new Date(), wait: boolean = false): Promise<ExecutionOutcome> {
+    const pending = automation.pendingExecution;
+    if (!pending) {
+      throw new Error(`Automation ${automation.id} has no pending execution`);
+    }
+    const sent = pending.userOperationHash ? `UserOperation ${pending.userOperationHash}` : `Transaction ${pending.transactionHash}`;
+    const client = this.getChainClients().getPublicClient(automation.chainId as number);
+    const outcome: ExecutionOutcome = {
+      automationId: automation.id,
+      success: false,
+      transactionHash: pending.transactionHash,
+      userOperationHash: pending.userOperationHash,
+      isSimulated: pending.isSimulated,
+    };
+
+    try {
+      const included = await this.findInclusion(automation, pending, client, wait);
+      const result: DelegationResult = {
+        success: included.success,
+        transactionHash: included.transactionHash,
+        userOperationHash: pending.userOperationHash,
+        chainId: automation.chainId,
+        isSimulated: pending.isSimulated,
+        error: included.success ? undefined : `${sent} reverted${included.reason ? `: ${included.reason}` : ''}`,
+      };
+
+      if (included.success) {
+        this.recordSuccess(automation, result, now, included.blockNumber);
+      } else {
+        // The redemption was mined and failed, so nothing was paid; a retry is safe
+        this.recordFailure(automation, result, now);
+      }
+      return {
+        ...outcome,
+        success: included.success,
+        transactionHash: included.transactionHash,
+        blockNumber: included.blockNumber,
+        error: result.error,
+      };
+    } catch (error) {
+      const message = error instanceof Error ? error.message : 'Receipt lookup failed';
+      const notFound = error instanceof TransactionReceiptNotFoundError || error instanceof UserOperationReceiptNotFoundError;
+
+      if (notFound && await this.isDropped(automation, pending, client, now)) {
+        const dropped = `${sent} was not included within ${PENDING_TIMEOUT_MS / 1000}s; not retrying automatically`;
+        this.recordFailure(automation, {
+          success: false,
+          transactionHash: pending.transactionHash,
+          chainId: automation.chainId,
+          isSimulated: pending.isSimulated,
+          error: dropped,
+        }, now, false);
+        return { ...outcome, error: dropped };
+      }
+
+      automationStorage.updateWith(automation.id, () => ({ executionLease: undefined }));
+      console.warn(`⏳ Automation ${automation.id} still waiting for ${sent}: ${message}`);
+      return { ...outcome, pending: true, error: message };
+    }
+  }
+
+  // Where a broadcast redemption was included; throws while it isn't yet
+  private async findInclusion(
+    automation: Automation,
+    pending: PendingExecution,
+    client: PublicClient,
+    wait: boolean
+  ): Promise<{ success: boolean; transactionHash: string; blockNumber: number; reason?: string }> {
+    if (pending.userOperationHash) {
+      return this.delegationService.getUserOperationResult(automation.chainId as number, pending.userOperationHash as Hex, client, wait);
+    }
+
+    const hash = pending.transactionHash as Hex;
+    const receipt = wait
+      ? await client.waitForTransactionReceipt({ hash })
+      : await client.getTransactionReceipt({ hash });
+    return { success: receipt.status === 'success', transactionHash: hash, blockNumber: Number(receipt.blockNumber) };
+  }
+
+  // Unknown to the node (or the bundler, for UserOperations) and past the pending timeout
+  private async isDropped(automation: Automation, pending: PendingExecution, publicClient: PublicClient, now: Date): Promise<boolean> {
+    if (now.getTime() - new Date(pending.submittedAt).getTime() < PENDING_TIMEOUT_MS) return false;
+    if (pending.userOperationHash) {
+      return !await this.delegationService.isUserOperationKnown(automation.chainId as number, pending.userOperationHash as Hex, publicClient);
+    }
+    try {
+      await publicClient.getTransaction({ hash: pending.transactionHash as Hex });
+      return false;
+    } catch {
+      return true;
+    }
+  }
+
+  // Schedule bookkeeping only applies while the automation is still active:
+  // a pause or revoke made during the run must not be undone
+  private recordSuccess(automation: Automation, result: DelegationResult, now: Date, blockNumber?: number) {
+    const schedule = automation.schedule || scheduleFromParams(automation.params);
+    const nextExecution = schedule && !isOneOffSchedule(schedule)
+      ? calculateNextExecution(schedule, now)
+      : undefined;
+    // One-off and exhausted schedules have no further runs
+    const completed = !nextExecution;
+
+    eventStorage.create({
+      automationId: automation.id,
+      userAddress: automation.userAddress,
+      type: automation.type,
+      eventType: 'executed',
+      status: 'success',
+      transactionHash: result.transactionHash,
+      chainId: automation.chainId,
+      isSimulated: result.isSimulated,
+      params: automation.params,
+      blockNumber,
+      details: {
+        delegationId: automation.delegationId,
+        userOperationHash: result.userOperationHash,
+        scheduledFor: automation.pendingExecution?.scheduledFor ?? automation.nextExecution,
+      }
+    });
+
+    automationStorage.updateWith(automation.id, current => ({
+      ...(current.status === 'active' && {
+        status: completed ? 'completed' : 'active',
+        nextExecution,
+        consecutiveFailures: 0,
+      }),
+      lastExecuted: now,
+      pendingExecution: undefined,
+      executionLease: undefined,
+    }));
+
+    console.log(`✅ Automation ${automation.id} executed${result.transactionHash ? `: ${result.transactionHash}` : ''}`);
+
+    if (result.transactionHash) {
+      trackTransactionInEnvio({
+        automationId: automation.id,
+        userAddress: automation.userAddress,
+        transactionHash: result.transactionHash,
+        type: automation.type === 'reward_claim' ? 'reward_claimed' : 'automation_executed',
+        status: 'success',
+        timestamp: now.toISOString(),
+        details: { delegationId: automation.delegationId },
+        chainId: automation.chainId,
+        isSimulated: result.isSimulated,
+      }).catch(error => console.warn('Envio transaction tracking failed, but continuing:', error));
+    }
+  }
+
+  private recordNothingToClaim(automation: Automation, now: Date) {
+    const schedule = automation.schedule || scheduleFromParams(automation.params);
+    const nextExecution = schedule && !isOneOffSchedule(schedule)
+      ? calculateNextExecution(schedule, now)
+      : undefined;
+
+    automationStorage.updateWith(automation.id, current => ({
+      ...(current.status === 'active' && {
+        status: nextExecution ? 'active' : 'completed',
+        nextExecution,
+        consecutiveFailures: 0,
+      }),
+      executionLease: undefined,
+    }));
+
+    console.log(`⏭️ Automation ${automation.id} has no pending rewards; next run ${nextExecution?.toISOString() ?? 'none'}`);
+  }
+
+  // Hold the automation until the user confirms the new address with a new delegation
+  private flagRecipientChange(automation: Automation, resolution: RecipientResolution, change: RecipientChange) {
+    let caveats: CaveatSpec[] | undefined;
+    try {
+      caveats = planAutomationCaveats({ ...automation, resolvedRecipient: resolution });
+    } catch (error) {
+      if (!(error instanceof CaveatError)) throw error;
+    }
+
+    automationStorage.updateWith(automation.id, current => ({
+      ...(current.status === 'active' && {
+        status: 'pending',
+        nextExecution: undefined,
+      }),
+      resolvedRecipient: resolution,
+      recipientChange: change,
+      caveats,
+      executionLease: undefined,
+    }));
+
+    eventStorage.create({
+      automationId: automation.id,
+      userAddress: automation.userAddress,
+      type: automation.type,
+      eventType: 'updated',
+      status: 'pending',
+      chainId: automation.chainId,
+      isSimulated: automation.isSimulated,
+      params: automation.params,
+      details: {
+        recipientChange: change,
+        requiresReconfirmation: true,
+      }
+    });
+
+    console.warn(`⚠️ Automation ${automation.id} held for confirmation: ${change.label} moved from ${change.from} to ${change.to}`);
+  }
+
+  // Only called when nothing was paid, unless `retry` is false
+  private recordFailure(automation: Automation, result: DelegationResult, now: Date, retry: boolean = true) {
+    const failures = (automation.consecutiveFailures || 0) + 1;
+    const exhausted = !retry || failures >= MAX_CONSECUTIVE_FAILURES;
+
+    eventStorage.create({
+      automationId: automation.id,
+      userAddress: automation.userAddress,
+      type: automation.type,
+      eventType: 'failed',
+      status: 'failed',
+      transactionHash: result.transactionHash,
+      chainId: automation.chainId,
+      isSimulated: result.isSimulated,
+      params: automation.params,
+      details: {
+        error: result.error,
+        attempt: failures,
+        scheduledFor: automation.pendingExecution?.scheduledFor ?? automation.nextExecution,
+      }
+    });
+
+    automationStorage.updateWith(automation.id, current => ({
+      ...(current.status === 'active' && {
+        status: exhausted ? 'failed' : 'active',
+        nextExecution: exhausted ? undefined : new Date(now.getTime() + RETRY_DELAY_MS),
+        consecutiveFailures: failures,
+      }),
+      pendingExecution: undefined,
+      executionLease: undefined,
+    }));
+
+    console.error(`❌ Automation ${automation.id} failed (attempt ${failures}/${MAX_CONSECUTIVE_FAILURES}):`, result.error);
+  }
+
+  // Execute every due automation once
+  async tick(now: Date = new Date()): Promise<TickResult> {
+    const startedAt = new Date().toISOString();
+
+    if (global._executorTickRunning) {
+      console.log('⏳ Executor tick already running - skipping');
+      return { startedAt, finishedAt: startedAt, due: 0, executed: 0, failed: 0, pending: 0, skipped: true, outcomes: [] };
+    }
+
+    global._executorTickRunning = true;
+    try {
+      const due = this.getDueAutomations(now);
+      console.log(`🕒 Executor tick: ${due.length} automations due`);
+
+      const outcomes: ExecutionOutcome[] = [];
+      for (const candidate of due) {
+        // Another executor may have taken it, or the user paused it, since the scan
+        const automation = automationStorage.claim(candidate.id, this.owner, LEASE_MS, now);
+        if (!automation) {
+          console.log(`⏭️ Automation ${candidate.id} claimed elsewhere or no longer due - skipping`);
+          continue;
+        }
+        outcomes.push(automation.pendingExecution
+          ? await this.settlePendingExecution(automation, now)
+          : await this.executeAutomation(automation, now));
+      }
+
+      return {
+        startedAt,
+        finishedAt: new Date().toISOString(),
+        due: due.length,
+        executed: outcomes.filter(outcome => outcome.success && !outcome.skippedReason).length,
+        failed: outcomes.filter(outcome => !outcome.success && !outcome.pending).length,
+        pending: outcomes.filter(outcome => outcome.pending).length,
+        skipped: false,
+        outcomes,
+      };
+    } finally {
+      global._executorTickRunning = false;
+    }
+  }
+}
+
+export const automationExecutor = new AutomationExecutor();
+
+// Convenience exports
+export const runExecutorTick = (now?: Date) =>
+  automationExecutor.tick(now);
@@ -0,0 +1,113 @@
+import { getStorageBackend } from './storage'
+import type { HistoryCache, HistoryCacheQuery, HistoryCheckpoint, HistoryRecord, HistorySummary, TransactionRecord } from './envio-tracker'
+
+// Records used to share one `history_records` collection; the checkpoints moved
+// with them so old checkpoints don't skip blocks whose records aren't indexed
+const HISTORY_CHECKPOINTS = 'history_sync_checkpoints'
+// Users and chains with a records collection, so clear() can find them
+const HISTORY_INDEX = 'history_index'
+
+interface HistoryIndexEntry {
+  userAddress: string
+  chainId: number
+}
+
+// Addresses may arrive checksummed or lowercased
+const sameAddress = (a: string, b: string) => a.toLowerCase() === b.toLowerCase()
+
+const recordsCollection = (userAddress: string, chainId: number) => `history_records_${chainId}_${userAddress.toLowerCase()}`
+
+const recordId = (chainId: number, record: TransactionRecord) => `${chainId}:${record.hash}:${record.type}`
+
+const blockTime = (record: HistoryRecord) => (record.blockTimestamp ? new Date(record.blockTimestamp).getTime() : 0)
+
+const belongsTo = (record: { userAddress: string; chainId: number }, userAddress: string, chainId: number) =>
+  record.chainId === chainId && sameAddress(record.userAddress, userAddress)
+
+/**
+ * Per-user chain history indexed by the server tracker: transaction records
+ * (regular transactions, executions, delegation status changes and simulated
+ * events) plus a checkpoint per user and chain with the last synced block and
+ * its hash. Each user's records on a chain are their own collection, so a sync
+ * only rewrites that user's file. Filtering, sorting and paging happen here so
+ * callers only get the page they asked for.
+ */
+export const historyCacheStorage: HistoryCache & { clear: () => void } = {
+  getCheckpoint: (userAddress: string, chainId: number): HistoryCheckpoint | undefined => {
+    return getStorageBackend().read<HistoryCheckpoint>(HISTORY_CHECKPOINTS).find(checkpoint => belongsTo(checkpoint, userAddress, chainId))
+  },
+
+  saveCheckpoint: (checkpoint: HistoryCheckpoint): void => {
+    getStorageBackend().update<HistoryCheckpoint>(HISTORY_CHECKPOINTS, checkpoints => [
+      ...checkpoints.filter(existing => !belongsTo(existing, checkpoint.userAddress, checkpoint.chainId)),
+      checkpoint,
+    ])
+  },
+
+  putRecords: (userAddress: string, chainId: number, records: TransactionRecord[]): void => {
+    if (!records.length) return
+    const incoming = records.map((record): HistoryRecord => ({
+      ...record,
+      id: recordId(chainId, record),
+      userAddress: userAddress.toLowerCase(),
+      chainId,
+    }))
+    const ids = new Set(incoming.map(record => record.id))
+    const backend = getStorageBackend()
+    backend.update<HistoryRecord>(recordsCollection(userAddress, chainId), existing => [
+      ...existing.filter(record => !ids.has(record.id)),
+      ...incoming,
+    ])
+    backend.update<HistoryIndexEntry>(HISTORY_INDEX, entries =>
+      entries.some(entry => belongsTo(entry, userAddress, chainId))
+        ? entries
+        : [...entries, { userAddress: userAddress.toLowerCase(), chainId }])
+  },
+
+  removeRecords: (userAddress: string, chainId: number, fromBlock?: number): void => {
+    const backend = getStorageBackend()
+    backend.update<HistoryRecord>(recordsCollection(userAddress, chainId), records => records.filter(record =>
+      fromBlock !== undefined && (record.blockNumber ?? 0) < fromBlock
+    ))
+    if (fromBlock === undefined) {
+      backend.update<HistoryCheckpoint>(HISTORY_CHECKPOINTS, checkpoints =>
+        checkpoints.filter(checkpoint => !belongsTo(checkpoint, userAddress, chainId)))
+    }
+  },
+
+  query: ({ userAddress, chainIds, types, limit, offset = 0, order = 'desc', since, fromBlock, toBlock }: HistoryCacheQuery) => {
+    const sinceTime = since !== undefined ? new Date(since).getTime() : undefined
+    const direction = order === 'asc' ? 1 : -1
+    const backend = getStorageBackend()
+    const matching = chainIds
+      .flatMap(chainId => backend.read<HistoryRecord>(recordsCollection(userAddress, chainId)))
+      .filter(record => !types || types.includes(record.type))
+      .filter(record => sinceTime === undefined || blockTime(record) >= sinceTime)
+      .filter(record => fromBlock === undefined || (record.blockNumber ?? 0) >= fromBlock)
+      .filter(record => toBlock === undefined || (record.blockNumber ?? 0) < toBlock)
+      .sort((a, b) => direction * (blockTime(a) - blockTime(b) || (a.blockNumber ?? 0) - (b.blockNumber ?? 0)))
+
+    return { records: matching.slice(offset, offset + limit), total: matching.length }
+  },
+
+  summarize: (userAddress: string, chainId: number): HistorySummary => {
+    const { records, total } = historyCacheStorage.query({ userAddress, chainIds: [chainId], limit: Infinity })
+    return {
+      totalTransactions: total,
+      firstTransaction: records[records.length - 1] || null,
+      latestTransaction: records[0] || null,
+      totalValue: records.reduce((sum, tx) => sum + parseFloat(tx.value || '0'), 0).toString(),
+    }
+  },
+
+  // Drop the whole index (for testing)
+  clear: (): void => {
+    const backend = getStorageBackend()
+    for (const entry of backend.read<HistoryIndexEntry>(HISTORY_INDEX)) {
+      backend.write(recordsCollection(entry.userAddress, entry.chainId), [])
+    }
+    backend.write(HISTORY_INDEX, [])
+    backend.write(HISTORY_CHECKPOINTS, [])
+    console.log('🧹 History cache cleared')
+  },
+}
@@ -0,0 +1,431 @@
+import { InferenceClient } from '@huggingface/inference'
+import OpenAI from 'openai'
+import { AUTOMATION_TYPES, getParamErrors, type AutomationType } from './automation-schema'
+import { extractDraftFields, getMissingFields, mergeDraft, type AutomationDraft, type DraftFields } from './conversation'
+import { parseSchedule, ScheduleError } from './schedule'
+import { getStorageBackend } from './storage'
+
+/**
+ * What the model thinks the user wants. Providers must return exactly this
+ * shape; anything else is rejected by parseIntent.
+ */
+export interface AutomationIntent {
+  type: 'automation' | 'clarification' | 'general'
+  message: string
+  suggested_automation: {
+    type: AutomationType
+    missing_params: string[]
+    params: SuggestedParams
+  } | null
+}
+
+/**
+ * Details the model read from the message, as written there. They are only
+ * used once they pass the automation schema (see getSuggestedDraftFields).
+ */
+export interface SuggestedParams {
+  amount?: string
+  currency?: string
+  // 0x address, ENS name or contact name
+  recipient?: string
+  // Schedule phrase, e.g. "every Friday at 2 PM"
+  schedule?: string
+}
+
+const SUGGESTED_PARAMS = ['amount', 'currency', 'recipient', 'schedule'] as const
+
+export interface IntentContext {
+  userAddress: string
+  timezone: string
+}
+
+export interface IntentResult {
+  intent: AutomationIntent
+  provider: LlmProviderName
+  model: string
+  latencyMs: number
+}
+
+export interface LlmRequestRecord {
+  id: string
+  userAddress: string
+  provider: LlmProviderName
+  model: string
+  latencyMs: number
+  success: boolean
+  error?: string
+  timestamp: Date
+}
+
+export type LlmProviderName = 'huggingface' | 'openai' | 'stub'
+
+export interface LlmProvider {
+  readonly name: LlmProviderName
+  /** Classify a chat message, returning the intent and the model that produced it */
+  generateIntent(message: string, context: IntentContext): Promise<{ intent: AutomationIntent; model: string }>
+}
+
+export class LlmError extends Error {
+  constructor(message: string, public readonly model?: string) {
+    super(message)
+    this.name = 'LlmError'
+  }
+}
+
+const INTENT_TYPES = ['automation', 'clarification', 'general'] as const
+
+const LLM_REQUESTS = 'llm_requests'
+const MAX_LLM_REQUESTS = 1000
+
+const DEFAULT_HF_MODELS = ['HuggingFaceH4/zephyr-7b-beta', 'meta-llama/Llama-3.1-8B-Instruct']
+const DEFAULT_OPENAI_MODEL = 'gpt-4o-mini'
+const REQUEST_TIMEOUT_MS = Number(process.env.LLM_TIMEOUT_MS || 20000)
+
+/** JSON Schema of AutomationIntent, sent to providers that support structured output */
+export const AUTOMATION_INTENT_SCHEMA = {
+  type: 'object',
+  properties: {
+    type: { type: 'string', enum: [...INTENT_TYPES] },
+    message: { type: 'string' },
+    suggested_automation: {
+      anyOf: [
+        {
+          type: 'object',
+          properties: {
+            type: { type: 'string', enum: [...AUTOMATION_TYPES] },
+            missing_params: { type: 'array', items: { type: 'string' } },
+            params: {
+              type: 'object',
+              properties: Object.fromEntries(SUGGESTED_PARAMS.map(field => [field, { type: ['string', 'null'] }])),
+              required: [...SUGGESTED_PARAMS],
+              additionalProperties: false,
+            },
+          },
+          required: ['type', 'missing_params', 'params'],
+          additionalProperties: false,
+        },
+        { type: 'null' },
+      ],
+    },
+  },
+  required: ['type', 'message', 'suggested_automation'],
+  additionalProperties: false,
+}
+
+/**
+ * Validate a provider response against the intent schema
+ */
+export function parseIntent(value: unknown): AutomationIntent {
+  const raw = typeof value === 'string' ? safeJsonParse(value) : value
+  if (!raw || typeof raw !== 'object') {
+    throw new LlmError('Model response is not a JSON object')
+  }
+
+  const { type, message, suggested_automation: suggested } = raw as { [K in keyof AutomationIntent]?: unknown }
+  if (!INTENT_TYPES.includes(type as AutomationIntent['type'])) {
+    throw new LlmError(`Model returned unknown intent type "${type}"`)
+  }
+  const intentType = type as AutomationIntent['type']
+  if (typeof message !== 'string') {
+    throw new LlmError('Model response is missing a message')
+  }
+  if (suggested === null || suggested === undefined) {
+    return { type: intentType, message, suggested_automation: null }
+  }
+  if (typeof suggested !== 'object') {
+    throw new LlmError('Model returned an invalid suggested_automation')
+  }
+
+  const { type: automationType, missing_params: missing, params } = suggested as { type?: unknown; missing_params?: unknown; params?: unknown }
+  if (!AUTOMATION_TYPES.includes(automationType as AutomationType)) {
+    throw new LlmError(`Model suggested unknown automation type "${automationType}"`)
+  }
+  if (!Array.isArray(missing) || !missing.every((p: unknown) => typeof p === 'string')) {
+    throw new LlmError('Model returned invalid missing_params')
+  }
+
+  return {
+    type: intentType,
+    message,
+    suggested_automation: { type: automationType as AutomationType, missing_params: missing, params: parseSuggestedParams(params) },
+  }
+}
+
+// Providers without structured output may leave params out; present values must be strings
+function parseSuggestedParams(value: unknown): SuggestedParams {
+  if (value === null || value === undefined) return {}
+  if (typeof value !== 'object' || Array.isArray(value)) {
+    throw new LlmError('Model returned invalid params')
+  }
+
+  const params: SuggestedParams = {}
+  for (const field of SUGGESTED_PARAMS) {
+    const param = (value as Record<string, unknown>)[field]
+    if (param === null || param === undefined || param === '') continue
+    if (typeof param !== 'string') {
+      throw new LlmError(`Model returned a non-string ${field}`)
+    }
+    params[field] = param.trim()
+  }
+  return params
+}
+
+/**
+ * Draft fields from the model's suggested params. Each value must pass the
+ * automation schema for the suggested type, and the schedule must parse;
+ * anything else is dropped so the conversation asks for it instead.
+ */
+export function getSuggestedDraftFields(
+  suggested: NonNullable<AutomationIntent['suggested_automation']>,
+  timezone: string
+): DraftFields {
+  const { schedule, ...params } = suggested.params
+  const errors = getParamErrors(suggested.type, params)
+  const fields: DraftFields = {}
+
+  for (const field of ['amount', 'currency', 'recipient'] as const) {
+    const value = params[field]
+    if (value && !errors.some(error => error.field === `params.${field}`)) {
+      fields[field] = field === 'currency' ? value.toUpperCase() : value
+    }
+  }
+
+  if (schedule) {
+    try {
+      const parsed = parseSchedule(schedule, timezone)
+      if (parsed) fields.schedule = parsed
+    } catch (error) {
+      if (!(error instanceof ScheduleError)) throw error
+    }
+  }
+  return fields
+}
+
+function safeJsonParse(text: string): unknown {
+  try {
+    return JSON.parse(text)
+  } catch {
+    throw new LlmError('Model response is not valid JSON')
+  }
+}
+
+/** Instruction prompt shared by all model-backed providers */
+export function buildIntentPrompt(message: string, context: IntentContext): string {
+  return `You are a wallet automation assistant. Analyze if the user wants to create an on-chain automation.
+
+Available automation types:
+- recurring_payment: Send X amount to Y address every Z time
+- reward_claim: Automatically claim staking rewards
+- staking: Automate staking
+- reminder: Set reminders for on-chain activities
+
+User wallet: ${context.userAddress}
+User timezone: ${context.timezone}
+
+User: "${message}"
+
+Reply with a JSON object with "type" ("automation", "clarification" or "general"), "message" (your human-friendly reply)
+and "suggested_automation" ({ "type", "missing_params", "params" } or null). "params" holds "amount" (decimal string),
+"currency" (ETH, MON, USDC or USDT), "recipient" (0x address, ENS name or contact name) and "schedule" (the schedule
+as the user phrased it, e.g. "every Friday at 2 PM"), each copied from the message or null when it doesn't say.`
+}
+
+/**
+ * Hugging Face Inference chat models, tried in order until one answers
+ */
+export class HuggingFaceProvider implements LlmProvider {
+  readonly name = 'huggingface' as const
+  private client: InferenceClient
+
+  constructor(apiKey: string, private readonly models: string[] = DEFAULT_HF_MODELS) {
+    this.client = new InferenceClient(apiKey)
+  }
+
+  async generateIntent(message: string, context: IntentContext) {
+    let lastError: unknown
+    for (const model of this.models) {
+      try {
+        console.log(`🔍 Trying model: ${model}`)
+        const response = await this.client.chatCompletion({
+          model,
+          messages: [{ role: 'user', content: buildIntentPrompt(message, context) }],
+          max_tokens: 300,
+          temperature: 0.2,
+          response_format: {
+            type: 'json_schema',
+            json_schema: { name: 'automation_intent', schema: AUTOMATION_INTENT_SCHEMA, strict: true },
+          },
+        }, { signal: AbortSignal.timeout(REQUEST_TIMEOUT_MS) })
+
+        return { intent: parseIntent(response.choices[0]?.message?.content ?? ''), model }
+      } catch (error) {
+        console.warn(`⚠️ Model ${model} failed:`, error instanceof Error ? error.message : error)
+        lastError = error
+      }
+    }
+    throw new LlmError(
+      `All Hugging Face models failed: ${lastError instanceof Error ? lastError.message : 'unknown error'}`,
+      this.models[this.models.length - 1]
+    )
+  }
+}
+
+/**
+ * OpenAI or any server speaking its chat completions API (llama.cpp, Ollama, vLLM)
+ */
+export class OpenAICompatibleProvider implements LlmProvider {
+  readonly name = 'openai' as const
+  private client: OpenAI
+
+  constructor(private readonly model: string = DEFAULT_OPENAI_MODEL, options: { apiKey?: string; baseURL?: string } = {}) {
+    this.client = new OpenAI({
+      // Local servers ignore the key but the SDK requires one
+      apiKey: options.apiKey || 'not-needed',
+      baseURL: options.baseURL,
+      timeout: REQUEST_TIMEOUT_MS,
+      maxRetries: 1,
+    })
+  }
+
+  async generateIntent(message: string, context: IntentContext) {
+    try {
+      const completion = await this.client.chat.completions.create({
+        model: this.model,
+        messages: [{ role: 'user', content: buildIntentPrompt(message, context) }],
+        temperature: 0.2,
+        response_format: {
+          type: 'json_schema',
+          json_schema: { name: 'automation_intent', schema: AUTOMATION_INTENT_SCHEMA, strict: true },
+        },
+      })
+      return { intent: parseIntent(completion.choices[0]?.message?.content ?? ''), model: completion.model || this.model }
+    } catch (error) {
+      if (error instanceof LlmError) throw new LlmError(error.message, this.model)
+      throw new LlmError(`${this.model} failed: ${error instanceof Error ? error.message : 'unknown error'}`, this.model)
+    }
+  }
+}
+
+const STUB_KEYWORDS: [RegExp, AutomationType][] = [
+  [/\b(send|pay|payment|transfer)\b/, 'recurring_payment'],
+  [/\b(claim|reward|rewards)\b/, 'reward_claim'],
+  [/\bstak/, 'staking'],
+  [/\b(remind|alert|notify)\b/, 'reminder'],
+]
+
+/**
+ * Deterministic offline provider for tests and development without a model.
+ * Classifies by keyword and reports the fields the message does not contain.
+ */
+export class StubProvider implements LlmProvider {
+  readonly name = 'stub' as const
+
+  async generateIntent(message: string, context: IntentContext) {
+    const lower = message.toLowerCase()
+    const type = STUB_KEYWORDS.find(([pattern]) => pattern.test(lower))?.[1]
+    if (!type) {
+      return {
+        model: 'stub',
+        intent: {
+          type: 'general' as const,
+          message: "I can help set up automations like recurring payments, staking, or reminders. Try: 'Send 0.01 ETH every week' or 'Claim rewards daily'.",
+          suggested_automation: null,
+        },
+      }
+    }
+
+    const draft: AutomationDraft = { type, params: {} }
+    const fields = extractDraftFields(message, draft, context.timezone)
+    const missing = getMissingFields(mergeDraft(draft, fields))
+    return {
+      model: 'stub',
+      intent: {
+        type: missing.length ? 'clarification' as const : 'automation' as const,
+        message: missing.length ? `I can set up a ${type.replace('_', ' ')}. I still need: ${missing.join(', ')}.` : `I can set up a ${type.replace('_', ' ')} for you.`,
+        suggested_automation: {
+          type,
+          missing_params: missing,
+          params: { amount: fields.amount, currency: fields.currency, recipient: fields.recipient },
+        },
+      },
+    }
+  }
+}
+
+function splitList(value: string | undefined): string[] | undefined {
+  const items = value?.split(',').map(item => item.trim()).filter(Boolean)
+  return items?.length ? items : undefined
+}
+
+/**
+ * Provider configured by the environment:
+ * LLM_PROVIDER=huggingface|openai|stub|none, defaulting to whichever API key is set.
+ * Returns null when no provider is configured.
+ */
+export function getLlmProvider(env: NodeJS.ProcessEnv = process.env): LlmProvider | null {
+  const name = env.LLM_PROVIDER?.toLowerCase()
+    || (env.HUGGING_FACE_API_KEY ? 'huggingface' : env.OPENAI_API_KEY || env.LLM_BASE_URL ? 'openai' : 'none')
+
+  switch (name) {
+    case 'huggingface':
+      if (!env.HUGGING_FACE_API_KEY) {
+        console.warn('⚠️ LLM_PROVIDER=huggingface but HUGGING_FACE_API_KEY is not set')
+        return null
+      }
+      return new HuggingFaceProvider(env.HUGGING_FACE_API_KEY, splitList(env.LLM_MODEL) || DEFAULT_HF_MODELS)
+    case 'openai':
+      return new OpenAICompatibleProvider(env.LLM_MODEL || DEFAULT_OPENAI_MODEL, {
+        apiKey: env.LLM_API_KEY || env.OPENAI_API_KEY,
+        baseURL: env.LLM_BASE_URL,
+      })
+    case 'stub':
+      return new StubProvider()
+    case 'none':
+      return null
+    default:
+      console.warn(`⚠️ Unknown LLM_PROVIDER "${name}", using the local parser only`)
+      return null
+  }
+}
+
+export const llmRequestLog = {
+  // Keep the most recent requests for latency and model usage reporting
+  record: (entry: Omit<LlmRequestRecord, 'id' | 'timestamp'>): LlmRequestRecord => {
+    const record: LlmRequestRecord = {
+      ...entry,
+      id: `llm_${Date.now()}_${Math.random().toString(36).substr(2, 9)}`,
+      timestamp: new Date(),
+    }
+    getStorageBackend().update<LlmRequestRecord>(LLM_REQUESTS, records => [...records, record].slice(-MAX_LLM_REQUESTS))
+    return record
+  },
+
+  getRecent: (limit: number = 50): LlmRequestRecord[] => {
+    return getStorageBackend().read<LlmRequestRecord>(LLM_REQUESTS).slice(-limit).reverse()
+  },
+}
+
+/**
+ * Ask a provider for the intent of a message, recording the model and latency
+ */
+export async function queryIntent(provider: LlmProvider, message: string, context: IntentContext): Promise<IntentResult> {
+  const started = Date.now()
+  try {
+    const { intent, model } = await provider.generateIntent(message, context)
+    const latencyMs = Date.now() - started
+    llmRequestLog.record({ userAddress: context.userAddress, provider: provider.name, model, latencyMs, success: true })
+    console.log(`✅ ${provider.name}/${model} answered in ${latencyMs}ms`)
+    return { intent, provider: provider.name, model, latencyMs }
+  } catch (error) {
+    const latencyMs = Date.now() - started
+    llmRequestLog.record({
+      userAddress: context.userAddress,
+      provider: provider.name,
+      model: error instanceof LlmError && error.model ? error.model : 'unknown',
+      latencyMs,
+      success: false,
+      error: error instanceof Error ? error.message : String(error),
+    })
+    throw error
+  }
+}
@@ -0,0 +1,101 @@
+import { encodeDeleGatorSignature } from '@metamask/delegation-utils'
+import type { Hex, PublicClient, WalletClient } from 'viem'
+import { createCredential, sign } from 'webauthn-p256'
+import type { PasskeySessionKey } from './passkeys'
+
+/**
+ * Browser side of passkey session keys: create and register a passkey, add
+ * it to the user's smart account, sign delegations with it and revoke it.
+ */
+export type PasskeySummary = Pick<PasskeySessionKey, 'id' | 'credentialId' | 'label'> & {
+  createdAt: string
+  lastUsedAt?: string
+  removalRequestedAt?: string
+  revokedAt?: string
+}
+
+interface AccountCall {
+  to: `0x${string}`
+  data: Hex
+}
+
+async function readJson(response: Response) {
+  const data = await response.json().catch(() => ({}))
+  if (!response.ok) {
+    throw new Error(data.error || `Request failed (${response.status})`)
+  }
+  return data
+}
+
+// Key changes are calls the smart account makes on itself
+async function sendAccountCall(walletClient: WalletClient, call: AccountCall): Promise<Hex> {
+  if (!walletClient.account) {
+    throw new Error('Wallet client missing account information')
+  }
+  return walletClient.sendTransaction({ account: walletClient.account, chain: walletClient.chain, to: call.to, data: call.data })
+}
+
+export async function listPasskeys(): Promise<PasskeySummary[]> {
+  const data = await readJson(await fetch('/api/passkeys'))
+  return data.passkeys
+}
+
+/** The user's most recently registered passkey that hasn't been revoked */
+export async function getActivePasskey(): Promise<PasskeySummary | null> {
+  const passkeys = await listPasskeys().catch(() => [])
+  return passkeys.filter(key => !key.revokedAt && !key.removalRequestedAt).pop() || null
+}
+
+/**
+ * Create a passkey on this device, prove it to the server with a signed
+ * challenge, then add it to the user's smart account (one wallet prompt)
+ */
+export async function registerPasskey(walletClient: WalletClient, userAddress: string, label?: string): Promise<PasskeySummary> {
+  const { challenge } = await readJson(await fetch('/api/passkeys/challenge', { method: 'POST' }))
+
+  const credential = await createCredential({ name: label || `AutoPay AI ${userAddress.slice(0, 8)}` })
+  const { signature, webauthn } = await sign({ credentialId: credential.id, hash: challenge })
+
+  const data = await readJson(await fetch('/api/passkeys', {
+    method: 'POST',
+    headers: { 'Content-Type': 'application/json' },
+    body: JSON.stringify({ credentialId: credential.id, publicKey: credential.publicKey, label, challenge, signature, webauthn }),
+  }))
+
+  console.log('🔑 Adding passkey to smart account...')
+  await sendAccountCall(walletClient, data.addKeyCall)
+  return data.passkey
+}
+
+/**
+ * Sign a hash with a passkey, encoded as the smart account expects in
+ * isValidSignature. The WebAuthn challenge is the hash itself.
+ */
+export async function signWithPasskey(credentialId: string, hash: Hex): Promise<Hex> {
+  const { signature, webauthn } = await sign({ credentialId, hash })
+  return encodeDeleGatorSignature(credentialId, signature, webauthn.clientDataJSON, webauthn.authenticatorData)
+}
+
+/**
+ * Revoke a passkey (and the automations it approved), remove it from the
+ * smart account so its signatures stop validating on chain, and have the
+ * server confirm the removal. Safe to call again if the wallet prompt was
+ * rejected or the transaction failed.
+ */
+export async function revokePasskey(walletClient: WalletClient, publicClient: PublicClient, id: string): Promise<string[]> {
+  const data = await readJson(await fetch(`/api/passkeys/${id}`, { method: 'DELETE' }))
+  console.log('🛑 Removing passkey from smart account...')
+  const hash = await sendAccountCall(walletClient, data.removeKeyCall)
+
+  const receipt = await publicClient.waitForTransactionReceipt({ hash })
+  if (receipt.status !== 'success') {
+    throw new Error(`removeKey transaction ${hash} reverted; the passkey is still on your account`)
+  }
+
+  await readJson(await fetch(`/api/passkeys/${id}/confirm`, {
+    method: 'POST',
+    headers: { 'Content-Type': 'application/json' },
+    body: JSON.stringify({ chainId: publicClient.chain?.id ?? walletClient.chain?.id }),
+  }))
+  return data.revokedAutomations
+}
@@ -0,0 +1,290 @@
+import { createHash, randomBytes } from 'crypto'
+import { decodeAbiParameters, encodeFunctionData, keccak256, parseAbi, stringToBytes, toHex, type Hex, type PublicClient } from 'viem'
+import { parsePublicKey, verify, type WebAuthnData } from 'webauthn-p256'
+import { getStorageBackend } from './storage'
+
+/**
+ * Passkey session keys: P-256 WebAuthn credentials a user adds to their smart
+ * account (HybridDeleGator addKey) so automations can be approved with a
+ * device passkey instead of a wallet prompt. addKey makes the passkey a full
+ * signer of the account, not a key scoped to delegations; the checks here only
+ * decide which delegations this app accepts (see "Threat model" in the README).
+ * The server only trusts a passkey after verifying a WebAuthn assertion
+ * against the stored public key.
+ * Revoking is two steps: the key stops approving anything here at once, and
+ * is only reported revoked after the account's removeKey is seen on chain,
+ * since until then it can still sign for the account.
+ */
+export interface PasskeySessionKey {
+  id: string
+  userAddress: string
+  // WebAuthn credential id (base64url); also the key id on the smart account
+  credentialId: string
+  // Uncompressed P-256 public key, x || y
+  publicKey: Hex
+  label: string
+  createdAt: Date
+  lastUsedAt?: Date
+  // Revocation started: no longer accepted here, but still a signer on the account
+  removalRequestedAt?: Date
+  // Removed from the smart account (verified on chain)
+  revokedAt?: Date
+}
+
+export interface RelyingParty {
+  id: string
+  origin: string
+}
+
+export interface PasskeyAssertion {
+  signature: Hex
+  webauthn: WebAuthnData
+}
+
+export class PasskeyError extends Error {
+  constructor(message: string) {
+    super(message)
+    this.name = 'PasskeyError'
+  }
+}
+
+const PASSKEYS = 'passkey_session_keys'
+const PASSKEY_CHALLENGES = 'passkey_challenges'
+const CHALLENGE_TTL_MS = 5 * 60 * 1000
+
+interface StoredChallenge {
+  userAddress: string
+  challenge: Hex
+  expiresAt: number
+}
+
+// Key management on a HybridDeleGator smart account; only the account itself may call these
+const hybridDeleGatorAbi = parseAbi([
+  'function addKey(string keyId, uint256 x, uint256 y)',
+  'function removeKey(string keyId)',
+  'function getKey(string keyId) view returns (uint256 x, uint256 y)',
+])
+
+// keyIdHash, r, s, authenticatorData, userVerified, clientDataJSON prefix/suffix, type location
+const WEBAUTHN_SIGNATURE_PARAMS = [
+  { type: 'bytes32' }, { type: 'uint256' }, { type: 'uint256' }, { type: 'bytes' },
+  { type: 'bool' }, { type: 'string' }, { type: 'string' }, { type: 'uint256' },
+] as const
+
+// Addresses may arrive checksummed or lowercased
+const sameAddress = (a: string, b: string) => a.toLowerCase() === b.toLowerCase()
+
+export const passkeyStorage = {
+  // All of a user's passkeys, including revoked ones
+  getByUser: (userAddress: string): PasskeySessionKey[] => {
+    return getStorageBackend().read<PasskeySessionKey>(PASSKEYS).filter(key => sameAddress(key.userAddress, userAddress))
+  },
+
+  getActiveByUser: (userAddress: string): PasskeySessionKey[] => {
+    return passkeyStorage.getByUser(userAddress).filter(key => !key.revokedAt && !key.removalRequestedAt)
+  },
+
+  // Find a key by the hash the smart account signature carries
+  findByKeyIdHash: (userAddress: string, keyIdHash: Hex): PasskeySessionKey | null => {
+    return passkeyStorage.getByUser(userAddress).find(key => getKeyIdHash(key.credentialId) === keyIdHash.toLowerCase()) || null
+  },
+
+  create: (userAddress: string, credentialId: string, publicKey: Hex, label: string): PasskeySessionKey => {
+    const key: PasskeySessionKey = {
+      id: `passkey_${Date.now()}_${Math.random().toString(36).substr(2, 9)}`,
+      userAddress,
+      credentialId,
+      publicKey,
+      label,
+      createdAt: new Date(),
+    }
+    getStorageBackend().update<PasskeySessionKey>(PASSKEYS, keys => [...keys, key])
+    console.log(`🔑 Passkey "${label}" registered for ${userAddress}`)
+    return key
+  },
+
+  markUsed: (id: string): void => {
+    getStorageBackend().update<PasskeySessionKey>(PASSKEYS, keys => keys.map(key =>
+      key.id === id ? { ...key, lastUsedAt: new Date() } : key
+    ))
+  },
+
+  // Stop accepting one of the user's keys until its removal is confirmed; returns null if it doesn't exist
+  requestRemoval: (id: string, userAddress: string): PasskeySessionKey | null => {
+    let updated: PasskeySessionKey | null = null
+    getStorageBackend().update<PasskeySessionKey>(PASSKEYS, keys => keys.map(key => {
+      if (key.id !== id || !sameAddress(key.userAddress, userAddress)) return key
+      updated = { ...key, removalRequestedAt: key.removalRequestedAt || new Date() }
+      return updated
+    }))
+    if (!updated) return null
+    console.log(`⏳ Passkey ${id} removal requested`)
+    return updated
+  },
+
+  // Mark a key revoked once it is gone from the account; returns null if it doesn't exist
+  revoke: (id: string, userAddress: string): PasskeySessionKey | null => {
+    let revoked: PasskeySessionKey | null = null
+    getStorageBackend().update<PasskeySessionKey>(PASSKEYS, keys => keys.map(key => {
+      if (key.id !== id || !sameAddress(key.userAddress, userAddress)) return key
+      revoked = { ...key, revokedAt: key.revokedAt || new Date() }
+      return revoked
+    }))
+    if (!revoked) return null
+    console.log(`🛑 Passkey ${id} revoked`)
+    return revoked
+  },
+}
+
+/** keccak256 of the key id, as HybridDeleGator stores it */
+export function getKeyIdHash(credentialId: string): Hex {
+  return keccak256(stringToBytes(credentialId))
+}
+
+/**
+ * Issue a single-use challenge the user signs with a new passkey to prove
+ * they hold it
+ */
+export function createPasskeyChallenge(userAddress: string): Hex {
+  const now = Date.now()
+  const challenge = toHex(randomBytes(32))
+  getStorageBackend().update<StoredChallenge>(PASSKEY_CHALLENGES, challenges => [
+    ...challenges.filter(entry => entry.expiresAt > now),
+    { userAddress, challenge, expiresAt: now + CHALLENGE_TTL_MS },
+  ])
+  return challenge
+}
+
+// Remove a challenge, returning whether it was issued to this user and still valid
+function consumePasskeyChallenge(userAddress: string, challenge: Hex): boolean {
+  const now = Date.now()
+  let found = false
+  getStorageBackend().update<StoredChallenge>(PASSKEY_CHALLENGES, challenges => {
+    found = challenges.some(entry =>
+      entry.challenge === challenge && sameAddress(entry.userAddress, userAddress) && entry.expiresAt > now
+    )
+    return challenges.filter(entry => entry.challenge !== challenge && entry.expiresAt > now)
+  })
+  return found
+}
+
+/**
+ * Verify a WebAuthn assertion over `hash`: the P-256 signature, user presence
+ * and verification, and that it was made for this site (RP ID hash and origin)
+ */
+export async function verifyPasskeyAssertion(
+  publicKey: Hex,
+  hash: Hex,
+  { signature, webauthn }: PasskeyAssertion,
+  relyingParty: RelyingParty
+): Promise<boolean> {
+  const rpIdHash = `0x${createHash('sha256').update(relyingParty.id).digest('hex')}`
+  if (webauthn.authenticatorData.slice(0, 66).toLowerCase() !== rpIdHash) {
+    return false
+  }
+
+  let origin: string | undefined
+  try {
+    origin = JSON.parse(webauthn.clientDataJSON).origin
+  } catch {
+    return false
+  }
+  if (origin !== relyingParty.origin) {
+    return false
+  }
+
+  try {
+    return await verify({ hash, publicKey, signature, webauthn: { ...webauthn, userVerificationRequired: true } })
+  } catch {
+    return false
+  }
+}
+
+/**
+ * Register a passkey after checking the assertion it made over a challenge
+ * from createPasskeyChallenge
+ */
+export async function registerPasskey(
+  userAddress: string,
+  input: { credentialId: string; publicKey: Hex; label: string; challenge: Hex; assertion: PasskeyAssertion },
+  relyingParty: RelyingParty
+): Promise<PasskeySessionKey> {
+  if (!consumePasskeyChallenge(userAddress, input.challenge)) {
+    throw new PasskeyError('Passkey challenge is invalid or expired')
+  }
+  if (passkeyStorage.getByUser(userAddress).some(key => key.credentialId === input.credentialId)) {
+    throw new PasskeyError('This passkey is already registered')
+  }
+  if (!await verifyPasskeyAssertion(input.publicKey, input.challenge, input.assertion, relyingParty)) {
+    throw new PasskeyError('Passkey assertion could not be verified')
+  }
+  return passkeyStorage.create(userAddress, input.credentialId, input.publicKey, input.label)
+}
+
+/**
+ * Split a HybridDeleGator WebAuthn signature back into the key id hash and
+ * the assertion it encodes. The signed challenge is `hash` itself, so the
+ * client data is rebuilt around it. Returns null for other signature formats.
+ */
+export function decodePasskeySignature(signature: Hex, hash: Hex): { keyIdHash: Hex; assertion: PasskeyAssertion } | null {
+  let decoded
+  try {
+    decoded = decodeAbiParameters(WEBAUTHN_SIGNATURE_PARAMS, signature)
+  } catch {
+    return null
+  }
+  const [keyIdHash, r, s, authenticatorData, userVerified, prefix, suffix, typeLocation] = decoded
+  const clientDataJSON = `${prefix}${Buffer.from(hash.slice(2), 'hex').toString('base64url')}${suffix}`
+  return {
+    keyIdHash,
+    assertion: {
+      signature: `0x${r.toString(16).padStart(64, '0')}${s.toString(16).padStart(64, '0')}`,
+      webauthn: {
+        authenticatorData,
+        clientDataJSON,
+        challengeIndex: clientDataJSON.indexOf('"challenge"'),
+        typeIndex: Number(typeLocation),
+        userVerificationRequired: userVerified,
+      },
+    },
+  }
+}
+
+/** Smart account call that adds the passkey as a signer; the user sends it from their account */
+export function getAddKeyCall(userAddress: string, key: Pick<PasskeySessionKey, 'credentialId' | 'publicKey'>) {
+  const { x, y } = parsePublicKey(key.publicKey)
+  return {
+    to: userAddress as `0x${string}`,
+    data: encodeFunctionData({ abi: hybridDeleGatorAbi, functionName: 'addKey', args: [key.credentialId, x, y] }),
+  }
+}
+
+/**
+ * Whether the passkey is still a signer on the user's HybridDeleGator.
+ * getKey returns a zero key once removeKey has run; an account with no code
+ * has no keys.
+ */
+export async function isPasskeyOnAccount(
+  publicClient: Pick<PublicClient, 'getCode' | 'readContract'>,
+  userAddress: string,
+  key: Pick<PasskeySessionKey, 'credentialId'>
+): Promise<boolean> {
+  const code = await publicClient.getCode({ address: userAddress as `0x${string}` })
+  if (!code || code === '0x') return false
+
+  const [x, y] = await publicClient.readContract({
+    address: userAddress as `0x${string}`,
+    abi: hybridDeleGatorAbi,
+    functionName: 'getKey',
+    args: [key.credentialId],
+  })
+  return x !== BigInt(0) || y !== BigInt(0)
+}
+
+/** Smart account call that removes the passkey, invalidating delegations it signed */
+export function getRemoveKeyCall(userAddress: string, key: Pick<PasskeySessionKey, 'credentialId'>) {
+  return {
+    to: userAddress as `0x${string}`,
+    data: encodeFunctionData({ abi: hybridDeleGatorAbi, functionName: 'removeKey', args: [key.credentialId] }),
+  }
+}
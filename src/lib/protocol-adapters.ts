@@ -0,0 +1,283 @@
+import {
+  encodeFunctionData,
+  erc20Abi,
+  erc4626Abi,
+  isAddress,
+  parseAbiItem,
+  toFunctionSelector,
+  type Abi,
+  type AbiFunction,
+  type Hex,
+  type PublicClient,
+} from 'viem'
+import { ADAPTER_IDS, FUNCTION_SIGNATURE, getAdapterId, type AdapterId, type AutomationType, type ProtocolParams } from './automation-schema'
+import { parseTokenAmount, TokenError } from './tokens'
+
+/**
+ * Protocol adapters turn a reward-claim or staking automation into a contract
+ * call. Each adapter declares the ABI it uses, builds claim/stake/compound
+ * calldata and can read the account's pending rewards. The selectors and
+ * account arguments it reports are what the delegation caveats lock down.
+ */
+export type AdapterAction = 'claim' | 'stake' | 'compound'
+
+export type ContractReader = Pick<PublicClient, 'readContract'>
+
+export type AdapterParams = ProtocolParams & { amount?: string }
+
+export interface AdapterContext {
+  contractAddress: `0x${string}`
+  // Account the delegation acts for; receives shares, withdrawals and rewards
+  account: `0x${string}`
+  params: AdapterParams
+  // Needed by adapters that read on-chain values (decimals, balances)
+  reader?: ContractReader
+}
+
+export interface ProtocolAdapter {
+  id: AdapterId
+  name: string
+  description: string
+  actions: AdapterAction[]
+  getAbi(params: AdapterParams): Abi
+  // Function selectors an action calls
+  getSelectors(action: AdapterAction, params: AdapterParams): Hex[]
+  // Calldata byte offsets of arguments that must be the account's address
+  getAccountArgOffsets(action: AdapterAction, params: AdapterParams): number[]
+  claim?(context: AdapterContext): Promise<Hex>
+  stake?(context: AdapterContext): Promise<Hex>
+  compound?(context: AdapterContext): Promise<Hex>
+  // Rewards waiting to be claimed, in base units; null when the protocol can't tell
+  readPendingRewards?(context: AdapterContext): Promise<bigint | null>
+}
+
+export class AdapterError extends Error {
+  constructor(message: string) {
+    super(message)
+    this.name = 'AdapterError'
+  }
+}
+
+const DEFAULT_CLAIM_SIGNATURE = 'claim()'
+const DEFAULT_DECIMALS = 18
+
+// Static arguments are 32 bytes each, after the 4-byte selector
+const argOffset = (index: number) => 4 + index * 32
+
+function requireReader(context: AdapterContext): ContractReader {
+  if (!context.reader) {
+    throw new AdapterError('An RPC client is required to read the vault')
+  }
+  return context.reader
+}
+
+function scaleAmount(amount: string | undefined, decimals: number): bigint {
+  if (!amount) {
+    throw new AdapterError('An amount is required for this action')
+  }
+  try {
+    return parseTokenAmount(amount, decimals)
+  } catch (error) {
+    if (error instanceof TokenError) throw new AdapterError(error.message)
+    throw error
+  }
+}
+
+// ERC-4626 vault: stake deposits assets, claim withdraws the yield above the deposited principal
+const erc4626Adapter: ProtocolAdapter = {
+  id: 'erc4626',
+  name: 'ERC-4626 vault',
+  description: 'Deposit into a tokenized vault and withdraw the yield above your principal',
+  actions: ['stake', 'claim'],
+
+  getAbi: () => erc4626Abi,
+
+  getSelectors(action) {
+    switch (action) {
+      case 'stake': return [toFunctionSelector('function deposit(uint256,address)')]
+      case 'claim': return [toFunctionSelector('function withdraw(uint256,address,address)')]
+      default: throw new AdapterError('ERC-4626 vaults compound automatically; stake an amount or claim the yield')
+    }
+  },
+
+  // deposit(assets, receiver); withdraw(assets, receiver, owner)
+  getAccountArgOffsets: action => (action === 'claim' ? [argOffset(1), argOffset(2)] : [argOffset(1)]),
+
+  async stake(context) {
+    const reader = requireReader(context)
+    const asset = await reader.readContract({ address: context.contractAddress, abi: erc4626Abi, functionName: 'asset' })
+    const decimals = await reader.readContract({ address: asset, abi: erc20Abi, functionName: 'decimals' })
+    return encodeFunctionData({
+      abi: erc4626Abi,
+      functionName: 'deposit',
+      args: [scaleAmount(context.params.amount, decimals), context.account],
+    })
+  },
+
+  async claim(context) {
+    const pending = await erc4626Adapter.readPendingRewards!(context)
+    if (pending === null) {
+      throw new AdapterError('Set the deposited principal to claim vault yield')
+    }
+    if (pending === BigInt(0)) {
+      throw new AdapterError('No vault yield to claim')
+    }
+    return encodeFunctionData({
+      abi: erc4626Abi,
+      functionName: 'withdraw',
+      args: [pending, context.account, context.account],
+    })
+  },
+
+  async readPendingRewards(context) {
+    if (!context.params.principal) return null
+    const reader = requireReader(context)
+    const vault = { address: context.contractAddress, abi: erc4626Abi } as const
+    const shares = await reader.readContract({ ...vault, functionName: 'balanceOf', args: [context.account] })
+    const assets = await reader.readContract({ ...vault, functionName: 'convertToAssets', args: [shares] })
+    const asset = await reader.readContract({ ...vault, functionName: 'asset' })
+    const decimals = await reader.readContract({ address: asset, abi: erc20Abi, functionName: 'decimals' })
+    const principal = scaleAmount(context.params.principal, decimals)
+    return assets > principal ? assets - principal : BigInt(0)
+  },
+}
+
+function parseFunction(signature: string, suffix: string = ''): AbiFunction {
+  if (!FUNCTION_SIGNATURE.test(signature)) {
+    throw new AdapterError(`Unsupported function signature "${signature}"`)
+  }
+  return parseAbiItem(`function ${signature}${suffix}`) as AbiFunction
+}
+
+function getCustomFunction(params: AdapterParams, action: AdapterAction): AbiFunction {
+  const signature = params.functionSignature || (action === 'claim' ? DEFAULT_CLAIM_SIGNATURE : undefined)
+  if (!signature) {
+    throw new AdapterError('The custom adapter needs a function signature, e.g. "stake(uint256)"')
+  }
+  return parseFunction(signature)
+}
+
+// Address arguments are filled with the account, uint256 arguments with the scaled amount
+function encodeCustomCall(fn: AbiFunction, context: AdapterContext): Hex {
+  const decimals = context.params.decimals ?? DEFAULT_DECIMALS
+  const args = fn.inputs.map(input =>
+    input.type === 'address' ? context.account : scaleAmount(context.params.amount, decimals)
+  )
+  return encodeFunctionData({ abi: [fn], functionName: fn.name, args })
+}
+
+// Any contract function taking address/uint256 arguments, e.g. getReward() or stake(uint256)
+const customAdapter: ProtocolAdapter = {
+  id: 'custom',
+  name: 'Custom contract',
+  description: 'Call a function you choose on any contract',
+  actions: ['claim', 'stake', 'compound'],
+
+  getAbi(params) {
+    const functions = [getCustomFunction(params, 'claim')]
+    if (params.rewardsFunction) functions.push(parseFunction(params.rewardsFunction, ' view returns (uint256)'))
+    return functions
+  },
+
+  getSelectors: (action, params) => [toFunctionSelector(getCustomFunction(params, action))],
+
+  getAccountArgOffsets: (action, params) => getCustomFunction(params, action).inputs
+    .map((input, index) => (input.type === 'address' ? argOffset(index) : -1))
+    .filter(offset => offset >= 0),
+
+  claim: async context => encodeCustomCall(getCustomFunction(context.params, 'claim'), context),
+  stake: async context => encodeCustomCall(getCustomFunction(context.params, 'stake'), context),
+  compound: async context => encodeCustomCall(getCustomFunction(context.params, 'compound'), context),
+
+  async readPendingRewards(context) {
+    if (!context.params.rewardsFunction) return null
+    const fn = parseFunction(context.params.rewardsFunction, ' view returns (uint256)')
+    const args = fn.inputs.map(input => (input.type === 'address' ? context.account : BigInt(0)))
+    const pending = await requireReader(context).readContract({
+      address: context.contractAddress,
+      abi: [fn],
+      functionName: fn.name,
+      args,
+    })
+    return pending as bigint
+  },
+}
+
+export const PROTOCOL_ADAPTERS: Record<AdapterId, ProtocolAdapter> = {
+  erc4626: erc4626Adapter,
+  custom: customAdapter,
+}
+
+/** Adapters in display order, for pickers */
+export const ADAPTER_OPTIONS = ADAPTER_IDS.map(id => ({
+  id,
+  name: PROTOCOL_ADAPTERS[id].name,
+  description: PROTOCOL_ADAPTERS[id].description,
+}))
+
+/** The action an automation performs: reward claims claim; staking stakes an amount or compounds */
+export function getAdapterAction(type: AutomationType, params: AdapterParams): AdapterAction {
+  if (type === 'reward_claim') return 'claim'
+  if (type === 'staking') return params.amount ? 'stake' : 'compound'
+  throw new AdapterError(`${type} automations do not call a protocol`)
+}
+
+/** Adapter, action and contract for a reward claim or staking automation */
+export function getProtocolCall(automation: { type: AutomationType; params: AdapterParams }) {
+  const adapter = PROTOCOL_ADAPTERS[getAdapterId(automation.type, automation.params)]
+  const action = getAdapterAction(automation.type, automation.params)
+  if (!adapter.actions.includes(action)) {
+    throw new AdapterError(`The ${adapter.name} adapter cannot ${action}`)
+  }
+  const contractAddress = automation.params.contractAddress
+  if (!contractAddress || !isAddress(contractAddress)) {
+    throw new AdapterError(`${automation.type === 'staking' ? 'Staking' : 'Reward'} automation has no contract address`)
+  }
+  return { adapter, action, contractAddress }
+}
+
+/** Calldata for an automation's protocol call, made on behalf of `account` */
+export async function buildProtocolCalldata(
+  automation: { type: AutomationType; params: AdapterParams },
+  account: `0x${string}`,
+  reader?: ContractReader
+): Promise<{ target: `0x${string}`; callData: Hex }> {
+  const { adapter, action, contractAddress } = getProtocolCall(automation)
+  const build = adapter[action]
+  if (!build) {
+    throw new AdapterError(`The ${adapter.name} adapter cannot ${action}`)
+  }
+  const callData = await build({ contractAddress, account, params: automation.params, reader })
+  return { target: contractAddress, callData }
+}
+
+/** Pending rewards for a reward claim, or null when the adapter can't tell */
+export async function readPendingRewards(
+  automation: { type: AutomationType; params: AdapterParams },
+  account: `0x${string}`,
+  reader: ContractReader
+): Promise<bigint | null> {
+  const { adapter, contractAddress } = getProtocolCall(automation)
+  if (!adapter.readPendingRewards) return null
+  return adapter.readPendingRewards({ contractAddress, account, params: automation.params, reader })
+}
+
+/**
+ * Protocol settings mentioned in a message: "from vault 0x…", "using getReward()",
+ * "stake 100 …", "principal 1000"
+ */
+export function parseProtocolParams(message: string): Partial<AdapterParams> {
+  const params: Partial<AdapterParams> = {}
+  const signature = message.match(/\b([A-Za-z_$][A-Za-z0-9_$]*\(\s*(?:(?:address|uint256)\s*(?:,\s*(?:address|uint256)\s*)*)?\))/)
+  const principal = message.match(/\b(?:principal|deposited)\s+(?:of\s+)?(\d+\.?\d*)/i)
+  if (signature) {
+    params.adapter = 'custom'
+    params.functionSignature = signature[1].replace(/\s+/g, '')
+  } else if (principal || /\b(vault|erc-?4626)\b/i.test(message)) {
+    params.adapter = 'erc4626'
+    if (principal) params.principal = principal[1]
+  }
+  const amount = message.match(/\bstake\s+(\d+\.?\d*)/i)
+  if (amount) params.amount = amount[1]
+  return params
+}
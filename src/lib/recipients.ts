@@ -0,0 +1,132 @@
+import { getAddress, isAddress, type PublicClient } from 'viem'
+import { mainnet } from 'viem/chains'
+import { normalize } from 'viem/ens'
+import { addressBookStorage } from './address-book'
+import { ENS_NAME } from './automation-schema'
+import { getChainClientFactory } from './chain-clients'
+
+/**
+ * Where a payment recipient actually points. `label` is what the user typed
+ * (address, ENS name or contact name); `address` is what gets paid.
+ */
+export interface RecipientResolution {
+  label: string
+  address: `0x${string}`
+  source: 'address' | 'ens' | 'contact'
+  resolvedAt: Date
+}
+
+/** A label that now resolves to a different address than when it was confirmed */
+export interface RecipientChange {
+  label: string
+  from: `0x${string}`
+  to: `0x${string}`
+  detectedAt: Date
+}
+
+export class RecipientResolutionError extends Error {
+  constructor(message: string) {
+    super(message)
+    this.name = 'RecipientResolutionError'
+  }
+}
+
+export interface ResolveOptions {
+  // Mainnet client used for ENS lookups; defaults to the shared mainnet client
+  ensClient?: Pick<PublicClient, 'getEnsAddress'>
+  now?: Date
+}
+
+function getEnsClient(): Pick<PublicClient, 'getEnsAddress'> {
+  return getChainClientFactory().getPublicClient(mainnet.id)
+}
+
+/**
+ * Resolve a recipient label for a user. Throws RecipientResolutionError when
+ * the label definitely has no address (unknown contact, unregistered name);
+ * RPC failures are rethrown as-is so callers can retry later.
+ */
+export async function resolveRecipient(
+  label: string,
+  userAddress: string,
+  options: ResolveOptions = {}
+): Promise<RecipientResolution> {
+  const resolvedAt = options.now || new Date()
+  const trimmed = label.trim()
+
+  if (isAddress(trimmed)) {
+    return { label: trimmed, address: getAddress(trimmed), source: 'address', resolvedAt }
+  }
+
+  if (ENS_NAME.test(trimmed)) {
+    let name: string
+    try {
+      name = normalize(trimmed)
+    } catch {
+      throw new RecipientResolutionError(`"${trimmed}" is not a valid ENS name`)
+    }
+    const address = await (options.ensClient || getEnsClient()).getEnsAddress({ name })
+    if (!address) {
+      throw new RecipientResolutionError(`${trimmed} does not resolve to an address`)
+    }
+    console.log(`🔎 Resolved ${trimmed} to ${address}`)
+    return { label: trimmed, address: getAddress(address), source: 'ens', resolvedAt }
+  }
+
+  const contact = addressBookStorage.findByName(userAddress, trimmed)
+  if (!contact) {
+    throw new RecipientResolutionError(`"${trimmed}" is not in your address book`)
+  }
+  return { label: contact.name, address: contact.address, source: 'contact', resolvedAt }
+}
+
+/**
+ * Resolve a recipient again and compare it to a previous resolution.
+ * `change` is set when the label now points somewhere else.
+ */
+export async function recheckRecipient(
+  previous: RecipientResolution,
+  userAddress: string,
+  options: ResolveOptions = {}
+): Promise<{ resolution: RecipientResolution; change?: RecipientChange }> {
+  const resolution = await resolveRecipient(previous.label, userAddress, options)
+  if (resolution.address.toLowerCase() === previous.address.toLowerCase()) {
+    return { resolution }
+  }
+
+  console.warn(`⚠️ Recipient ${previous.label} changed from ${previous.address} to ${resolution.address}`)
+  return {
+    resolution,
+    change: { label: previous.label, from: previous.address, to: resolution.address, detectedAt: resolution.resolvedAt },
+  }
+}
+
+/**
+ * Find an address book contact mentioned in a message ("pay Bob 10 USDC monthly")
+ */
+export function findMentionedContact(message: string, userAddress: string): string | null {
+  const contacts = addressBookStorage.getByUser(userAddress)
+    // Longest first so "Bob Jr" wins over "Bob"
+    .sort((a, b) => b.name.length - a.name.length)
+  const escape = (value: string) => value.replace(/[.*+?^${}()|[\]\\]/g, '\\$&')
+  const match = contacts.find(contact => new RegExp(`\\b${escape(contact.name)}\\b`, 'i').test(message))
+  return match?.name || null
+}
+
+/**
+ * Resolve when possible, leaving the recipient unresolved (undefined) if the
+ * lookup itself fails. Definitive failures still throw RecipientResolutionError.
+ */
+export async function tryResolveRecipient(
+  label: string,
+  userAddress: string,
+  options: ResolveOptions = {}
+): Promise<RecipientResolution | undefined> {
+  try {
+    return await resolveRecipient(label, userAddress, options)
+  } catch (error) {
+    if (error instanceof RecipientResolutionError) throw error
+    console.warn(`⚠️ Could not resolve ${label} right now:`, error instanceof Error ? error.message : error)
+    return undefined
+  }
+}
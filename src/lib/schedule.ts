@@ -0,0 +1,551 @@
+/**
+ * Schedule model for automations.
+ *
+ * All wall-clock fields (time, weekday, cron fields) are interpreted in the
+ * schedule's IANA timezone, so "every Friday at 14:00" in Europe/Berlin keeps
+ * firing at 14:00 local time across DST changes.
+ */
+export type ScheduleUnit = 'hours' | 'days' | 'weeks' | 'months'
+
+const SCHEDULE_UNITS: ScheduleUnit[] = ['hours', 'days', 'weeks', 'months']
+
+export type Schedule =
+  | { kind: 'interval'; every: number; unit: ScheduleUnit; time?: string; timezone: string }
+  | { kind: 'weekly'; dayOfWeek: number; time: string; timezone: string }
+  | { kind: 'last_business_day'; time: string; timezone: string }
+  | { kind: 'cron'; expression: string; timezone: string }
+  | { kind: 'once'; at?: string; timezone: string }
+
+export const DEFAULT_TIMEZONE = 'UTC'
+const DEFAULT_TIME = '09:00'
+
+const WEEKDAYS = ['sunday', 'monday', 'tuesday', 'wednesday', 'thursday', 'friday', 'saturday']
+const MONTHS = ['jan', 'feb', 'mar', 'apr', 'may', 'jun', 'jul', 'aug', 'sep', 'oct', 'nov', 'dec']
+
+export class ScheduleError extends Error {
+  constructor(message: string) {
+    super(message)
+    this.name = 'ScheduleError'
+  }
+}
+
+// ---------------------------------------------------------------------------
+// Timezone helpers
+// ---------------------------------------------------------------------------
+
+interface ZonedParts {
+  year: number
+  month: number // 1-12
+  day: number
+  hour: number
+  minute: number
+  second: number
+  weekday: number // 0 = Sunday
+}
+
+const formatters = new Map<string, Intl.DateTimeFormat>()
+
+function getFormatter(timezone: string): Intl.DateTimeFormat {
+  let formatter = formatters.get(timezone)
+  if (!formatter) {
+    formatter = new Intl.DateTimeFormat('en-US', {
+      timeZone: timezone,
+      hourCycle: 'h23',
+      year: 'numeric',
+      month: 'numeric',
+      day: 'numeric',
+      hour: 'numeric',
+      minute: 'numeric',
+      second: 'numeric',
+      weekday: 'long',
+    })
+    formatters.set(timezone, formatter)
+  }
+  return formatter
+}
+
+export function getWeekdayName(dayOfWeek: number): string {
+  return WEEKDAYS[dayOfWeek]
+}
+
+export function isValidTimezone(timezone: string): boolean {
+  try {
+    getFormatter(timezone)
+    return true
+  } catch {
+    return false
+  }
+}
+
+function getZonedParts(date: Date, timezone: string): ZonedParts {
+  const parts: Record<string, string> = {}
+  for (const part of getFormatter(timezone).formatToParts(date)) {
+    parts[part.type] = part.value
+  }
+  return {
+    year: Number(parts.year),
+    month: Number(parts.month),
+    day: Number(parts.day),
+    hour: Number(parts.hour),
+    minute: Number(parts.minute),
+    second: Number(parts.second),
+    weekday: WEEKDAYS.indexOf(parts.weekday.toLowerCase()),
+  }
+}
+
+// Offset of `timezone` from UTC at `date`, in milliseconds
+function getOffsetMs(date: Date, timezone: string): number {
+  const p = getZonedParts(date, timezone)
+  const wallClock = Date.UTC(p.year, p.month - 1, p.day, p.hour, p.minute, p.second)
+  return wallClock - Math.floor(date.getTime() / 1000) * 1000
+}
+
+// Convert a wall-clock time in `timezone` to a UTC instant
+function zonedTimeToUtc(year: number, month: number, day: number, hour: number, minute: number, timezone: string): Date {
+  const asUtc = Date.UTC(year, month - 1, day, hour, minute)
+  const offset = getOffsetMs(new Date(asUtc), timezone)
+  let result = asUtc - offset
+  // Re-check once in case the guess crossed a DST transition
+  const correctedOffset = getOffsetMs(new Date(result), timezone)
+  if (correctedOffset !== offset) {
+    result = asUtc - correctedOffset
+  }
+  return new Date(result)
+}
+
+// Pure calendar arithmetic (no timezone involved)
+function addCalendarDays(year: number, month: number, day: number, days: number) {
+  const date = new Date(Date.UTC(year, month - 1, day + days))
+  return {
+    year: date.getUTCFullYear(),
+    month: date.getUTCMonth() + 1,
+    day: date.getUTCDate(),
+    weekday: date.getUTCDay(),
+  }
+}
+
+function daysInMonth(year: number, month: number): number {
+  return new Date(Date.UTC(year, month, 0)).getUTCDate()
+}
+
+function parseTime(time: string): [number, number] {
+  const match = time.match(/^(\d{1,2}):(\d{2})$/)
+  if (!match || Number(match[1]) > 23 || Number(match[2]) > 59) {
+    throw new ScheduleError(`Invalid time "${time}" (expected HH:MM)`)
+  }
+  return [Number(match[1]), Number(match[2])]
+}
+
+// ---------------------------------------------------------------------------
+// Cron expressions (minute hour day-of-month month day-of-week)
+// ---------------------------------------------------------------------------
+
+interface CronFields {
+  minutes: number[]
+  hours: number[]
+  daysOfMonth: Set<number>
+  months: Set<number>
+  daysOfWeek: Set<number>
+  domRestricted: boolean
+  dowRestricted: boolean
+}
+
+function parseCronField(field: string, min: number, max: number, names?: string[]): number[] {
+  const values = new Set<number>()
+
+  const toNumber = (value: string): number => {
+    const named = names?.findIndex(name => name.startsWith(value.toLowerCase()) && value.length >= 3)
+    const result = named !== undefined && named >= 0 ? named + min : Number(value)
+    if (!Number.isInteger(result) || result < min || result > max) {
+      throw new ScheduleError(`Invalid cron value "${value}" (expected ${min}-${max})`)
+    }
+    return result
+  }
+
+  for (const part of field.split(',')) {
+    const [range, stepText] = part.split('/')
+    const step = stepText === undefined ? 1 : Number(stepText)
+    if (!Number.isInteger(step) || step < 1) {
+      throw new ScheduleError(`Invalid cron step "${part}"`)
+    }
+
+    let start: number
+    let end: number
+    if (range === '*') {
+      start = min
+      end = max
+    } else if (range.includes('-')) {
+      const [from, to] = range.split('-')
+      start = toNumber(from)
+      end = toNumber(to)
+    } else {
+      start = toNumber(range)
+      end = stepText === undefined ? start : max
+    }
+
+    if (start > end) {
+      throw new ScheduleError(`Invalid cron range "${part}"`)
+    }
+    for (let value = start; value <= end; value += step) {
+      values.add(value)
+    }
+  }
+
+  return [...values].sort((a, b) => a - b)
+}
+
+function parseCronExpression(expression: string): CronFields {
+  const fields = expression.trim().split(/\s+/)
+  if (fields.length !== 5) {
+    throw new ScheduleError(`Invalid cron expression "${expression}" (expected 5 fields)`)
+  }
+
+  const [minute, hour, dayOfMonth, month, dayOfWeek] = fields
+  // Day-of-week accepts 0-7 where both 0 and 7 mean Sunday
+  const daysOfWeek = parseCronField(dayOfWeek, 0, 7, WEEKDAYS).map(day => day % 7)
+
+  return {
+    minutes: parseCronField(minute, 0, 59),
+    hours: parseCronField(hour, 0, 23),
+    daysOfMonth: new Set(parseCronField(dayOfMonth, 1, 31)),
+    months: new Set(parseCronField(month, 1, 12, MONTHS)),
+    daysOfWeek: new Set(daysOfWeek),
+    domRestricted: dayOfMonth !== '*',
+    dowRestricted: dayOfWeek !== '*',
+  }
+}
+
+function nextCronRun(expression: string, from: Date, timezone: string): Date | undefined {
+  const cron = parseCronExpression(expression)
+  const start = getZonedParts(from, timezone)
+
+  // Look ahead up to four years so leap-day expressions still resolve
+  for (let offset = 0; offset <= 366 * 4; offset++) {
+    const date = addCalendarDays(start.year, start.month, start.day, offset)
+    if (!cron.months.has(date.month)) continue
+
+    const domMatch = cron.daysOfMonth.has(date.day)
+    const dowMatch = cron.daysOfWeek.has(date.weekday)
+    // Standard cron: when both fields are restricted, either may match
+    const dayMatches = cron.domRestricted && cron.dowRestricted
+      ? domMatch || dowMatch
+      : domMatch && dowMatch
+    if (!dayMatches) continue
+
+    for (const hour of cron.hours) {
+      for (const minute of cron.minutes) {
+        const candidate = zonedTimeToUtc(date.year, date.month, date.day, hour, minute, timezone)
+        if (candidate.getTime() > from.getTime()) {
+          return candidate
+        }
+      }
+    }
+  }
+
+  return undefined
+}
+
+// ---------------------------------------------------------------------------
+// Next execution
+// ---------------------------------------------------------------------------
+
+// Time fields arrive from request bodies, so check the type before parsing
+function validateTime(time: unknown): void {
+  if (typeof time !== 'string') {
+    throw new ScheduleError('Time is required (HH:MM)')
+  }
+  parseTime(time)
+}
+
+/**
+ * Validate a schedule, throwing ScheduleError with a user-facing message.
+ * Also used on structured schedules from request bodies, so every field is
+ * type-checked and unknown kinds and units are rejected.
+ */
+export function validateSchedule(schedule: Schedule): Schedule {
+  if (!schedule || typeof schedule !== 'object') {
+    throw new ScheduleError('Schedule must be an object')
+  }
+  if (typeof schedule.timezone !== 'string' || !schedule.timezone) {
+    throw new ScheduleError('Schedule timezone is required (an IANA name such as "Europe/Berlin")')
+  }
+  if (!isValidTimezone(schedule.timezone)) {
+    throw new ScheduleError(`Unknown timezone "${schedule.timezone}"`)
+  }
+
+  switch (schedule.kind) {
+    case 'interval':
+      if (!Number.isInteger(schedule.every) || schedule.every < 1) {
+        throw new ScheduleError('Interval must be a positive whole number')
+      }
+      if (!SCHEDULE_UNITS.includes(schedule.unit)) {
+        throw new ScheduleError(`Unknown interval unit "${schedule.unit}" (expected ${SCHEDULE_UNITS.join(', ')})`)
+      }
+      if (schedule.time !== undefined) validateTime(schedule.time)
+      break
+    case 'weekly':
+      if (!Number.isInteger(schedule.dayOfWeek) || schedule.dayOfWeek < 0 || schedule.dayOfWeek > 6) {
+        throw new ScheduleError('Day of week must be between 0 (Sunday) and 6 (Saturday)')
+      }
+      validateTime(schedule.time)
+      break
+    case 'last_business_day':
+      validateTime(schedule.time)
+      break
+    case 'cron':
+      if (typeof schedule.expression !== 'string') {
+        throw new ScheduleError('Cron expression is required')
+      }
+      parseCronExpression(schedule.expression)
+      break
+    case 'once':
+      if (schedule.at !== undefined && (typeof schedule.at !== 'string' || isNaN(new Date(schedule.at).getTime()))) {
+        throw new ScheduleError(`Invalid date "${schedule.at}"`)
+      }
+      break
+    default:
+      throw new ScheduleError(`Unknown schedule kind "${(schedule as { kind?: unknown }).kind}"`)
+  }
+
+  return schedule
+}
+
+/**
+ * Compute the next execution strictly after `from`.
+ * Returns undefined when the schedule has no further runs.
+ */
+export function calculateNextExecution(schedule: Schedule, from: Date = new Date()): Date | undefined {
+  const { timezone } = schedule
+  const now = getZonedParts(from, timezone)
+
+  switch (schedule.kind) {
+    case 'interval': {
+      if (schedule.unit === 'hours') {
+        return new Date(from.getTime() + schedule.every * 60 * 60 * 1000)
+      }
+
+      const [hour, minute] = schedule.time ? parseTime(schedule.time) : [now.hour, now.minute]
+      let { year, month, day } = now
+
+      // With a fixed time, the first run may still be later today
+      if (schedule.time) {
+        const today = zonedTimeToUtc(year, month, day, hour, minute, timezone)
+        if (today.getTime() > from.getTime()) {
+          return today
+        }
+      }
+
+      if (schedule.unit === 'months') {
+        const totalMonths = year * 12 + (month - 1) + schedule.every
+        year = Math.floor(totalMonths / 12)
+        month = (totalMonths % 12) + 1
+        day = Math.min(day, daysInMonth(year, month))
+      } else {
+        const days = schedule.unit === 'weeks' ? schedule.every * 7 : schedule.every
+        ;({ year, month, day } = addCalendarDays(year, month, day, days))
+      }
+
+      return zonedTimeToUtc(year, month, day, hour, minute, timezone)
+    }
+
+    case 'weekly': {
+      const [hour, minute] = parseTime(schedule.time)
+      for (let offset = 0; offset <= 7; offset++) {
+        const date = addCalendarDays(now.year, now.month, now.day, offset)
+        if (date.weekday !== schedule.dayOfWeek) continue
+        const candidate = zonedTimeToUtc(date.year, date.month, date.day, hour, minute, timezone)
+        if (candidate.getTime() > from.getTime()) {
+          return candidate
+        }
+      }
+      return undefined
+    }
+
+    case 'last_business_day': {
+      const [hour, minute] = parseTime(schedule.time)
+      for (let offset = 0; offset <= 2; offset++) {
+        const totalMonths = now.year * 12 + (now.month - 1) + offset
+        const year = Math.floor(totalMonths / 12)
+        const month = (totalMonths % 12) + 1
+
+        // Walk back from the last day of the month past weekends
+        let date = addCalendarDays(year, month, daysInMonth(year, month), 0)
+        while (date.weekday === 0 || date.weekday === 6) {
+          date = addCalendarDays(date.year, date.month, date.day, -1)
+        }
+
+        const candidate = zonedTimeToUtc(date.year, date.month, date.day, hour, minute, timezone)
+        if (candidate.getTime() > from.getTime()) {
+          return candidate
+        }
+      }
+      return undefined
+    }
+
+    case 'cron':
+      return nextCronRun(schedule.expression, from, timezone)
+
+    case 'once': {
+      if (!schedule.at) return from
+      const at = new Date(schedule.at)
+      return at.getTime() > from.getTime() ? at : undefined
+    }
+  }
+}
+
+/**
+ * Shortest gap between consecutive runs, in seconds, sampled over the next
+ * `samples` executions. Used to size per-period spending caps.
+ * Returns undefined for one-off schedules.
+ */
+export function getMinimumIntervalSeconds(schedule: Schedule, from: Date = new Date(), samples = 12): number | undefined {
+  if (isOneOffSchedule(schedule)) return undefined
+
+  let previous = calculateNextExecution(schedule, from)
+  let minimum: number | undefined
+  for (let i = 0; previous && i < samples; i++) {
+    const next = calculateNextExecution(schedule, previous)
+    if (!next) break
+    const gap = Math.floor((next.getTime() - previous.getTime()) / 1000)
+    minimum = minimum === undefined ? gap : Math.min(minimum, gap)
+    previous = next
+  }
+  return minimum
+}
+
+/**
+ * One-off schedules (e.g. reminders) complete after their first execution
+ */
+export function isOneOffSchedule(schedule: Schedule): boolean {
+  return schedule.kind === 'once'
+}
+
+// ---------------------------------------------------------------------------
+// Natural language and legacy params
+// ---------------------------------------------------------------------------
+
+function normalizeTime(hourText: string, minuteText?: string, meridiem?: string): string | null {
+  let hour = Number(hourText)
+  const minute = minuteText ? Number(minuteText) : 0
+  if (meridiem) {
+    const pm = meridiem.toLowerCase() === 'pm'
+    if (hour < 1 || hour > 12) return null
+    hour = (hour % 12) + (pm ? 12 : 0)
+  }
+  if (hour > 23 || minute > 59) return null
+  return `${String(hour).padStart(2, '0')}:${String(minute).padStart(2, '0')}`
+}
+
+function extractTime(text: string): string | undefined {
+  const match = text.match(/\bat\s+(\d{1,2})(?::(\d{2}))?\s*(am|pm)?\b/i)
+  if (!match) return undefined
+  return normalizeTime(match[1], match[2], match[3]) || undefined
+}
+
+function extractTimezone(text: string): string | undefined {
+  const match = text.match(/\b(UTC|[A-Z][A-Za-z_]+\/[A-Z][A-Za-z_]+(?:\/[A-Z][A-Za-z_]+)?)\b/)
+  return match && isValidTimezone(match[1]) ? match[1] : undefined
+}
+
+/**
+ * Parse a schedule from free text, e.g. "every Friday at 2 PM",
+ * "every 3 days", "last business day of the month", "cron 0 9 * * 1-5".
+ * Returns null when the text contains no recognisable schedule.
+ */
+export function parseSchedule(text: string, timezone: string = DEFAULT_TIMEZONE): Schedule | null {
+  const lower = text.toLowerCase()
+  const zone = extractTimezone(text) || timezone
+  const time = extractTime(text)
+
+  const cron = text.match(/\bcron\b[:\s]*["'`]?((?:\S+\s+){4}\S+?)["'`]?(?:\s|$)/i)
+  if (cron) {
+    return validateSchedule({ kind: 'cron', expression: cron[1], timezone: zone })
+  }
+
+  if (/\blast\s+(business|working)\s+day\b/.test(lower)) {
+    return { kind: 'last_business_day', time: time || DEFAULT_TIME, timezone: zone }
+  }
+
+  const interval = lower.match(/\bevery\s+(\d+)\s+(hour|day|week|month)s?\b/)
+  if (interval) {
+    return {
+      kind: 'interval',
+      every: Number(interval[1]),
+      unit: `${interval[2]}s` as ScheduleUnit,
+      time: interval[2] === 'hour' ? undefined : time,
+      timezone: zone,
+    }
+  }
+
+  const weekday = lower.match(/\b(?:every|on|each)\s+(sunday|monday|tuesday|wednesday|thursday|friday|saturday)s?\b/)
+    || lower.match(/\b(sunday|monday|tuesday|wednesday|thursday|friday|saturday)s\b/)
+  if (weekday) {
+    return { kind: 'weekly', dayOfWeek: WEEKDAYS.indexOf(weekday[1]), time: time || DEFAULT_TIME, timezone: zone }
+  }
+
+  if (/\b(daily|every day|each day)\b/.test(lower)) {
+    return { kind: 'interval', every: 1, unit: 'days', time, timezone: zone }
+  }
+  if (/\b(weekly|every week|each week)\b/.test(lower)) {
+    return { kind: 'interval', every: 1, unit: 'weeks', time, timezone: zone }
+  }
+  if (/\b(monthly|every month|each month)\b/.test(lower)) {
+    return { kind: 'interval', every: 1, unit: 'months', time, timezone: zone }
+  }
+  if (/\b(hourly|every hour)\b/.test(lower)) {
+    return { kind: 'interval', every: 1, unit: 'hours', timezone: zone }
+  }
+  if (/\b(once|one time)\b/.test(lower)) {
+    return { kind: 'once', timezone: zone }
+  }
+
+  return null
+}
+
+/**
+ * Build a schedule from legacy automation params (frequency, dayOfWeek, time)
+ */
+export function scheduleFromParams(
+  params: { frequency?: string; dayOfWeek?: string; time?: string } = {},
+  timezone: string = DEFAULT_TIMEZONE
+): Schedule | null {
+  const time = params.time ? extractTime(`at ${params.time}`) : undefined
+
+  if (params.dayOfWeek) {
+    const dayOfWeek = WEEKDAYS.indexOf(params.dayOfWeek.toLowerCase())
+    if (dayOfWeek >= 0) {
+      return { kind: 'weekly', dayOfWeek, time: time || DEFAULT_TIME, timezone }
+    }
+  }
+
+  if (!params.frequency) return null
+  const schedule = parseSchedule(params.frequency, timezone)
+  if (schedule && time && 'time' in schedule) {
+    return { ...schedule, time } as Schedule
+  }
+  return schedule
+}
+
+/**
+ * Human-readable schedule, used in automation descriptions and chat replies
+ */
+export function describeSchedule(schedule: Schedule): string {
+  const zone = schedule.timezone !== DEFAULT_TIMEZONE ? ` (${schedule.timezone})` : ''
+  const capitalize = (value: string) => value.charAt(0).toUpperCase() + value.slice(1)
+
+  switch (schedule.kind) {
+    case 'interval': {
+      const named: Record<ScheduleUnit, string> = { hours: 'hourly', days: 'daily', weeks: 'weekly', months: 'monthly' }
+      const base = schedule.every === 1 ? named[schedule.unit] : `every ${schedule.every} ${schedule.unit}`
+      return schedule.time ? `${base} at ${schedule.time}${zone}` : base
+    }
+    case 'weekly':
+      return `every ${capitalize(WEEKDAYS[schedule.dayOfWeek])} at ${schedule.time}${zone}`
+    case 'last_business_day':
+      return `on the last business day of each month at ${schedule.time}${zone}`
+    case 'cron':
+      return `on cron "${schedule.expression}"${zone}`
+    case 'once':
+      return schedule.at ? `once on ${schedule.at}${zone}` : 'once'
+  }
+}
@@ -0,0 +1,131 @@
+'use client'
+
+import { useCallback, useEffect, useState } from 'react'
+import { useAccount, useChainId, useWalletClient } from 'wagmi'
+import { createSiweMessage } from 'viem/siwe'
+import type { WalletClient } from 'viem'
+
+const SESSION_EVENT = 'siweSessionChanged'
+
+// Shared across components so a connect triggers a single signature prompt
+const pendingSignIns = new Map<string, Promise<boolean>>()
+const autoSignInAttempted = new Set<string>()
+
+async function hasSession(address: string): Promise<boolean> {
+  const response = await fetch('/api/auth/session')
+  if (!response.ok) return false
+  const data = await response.json()
+  return data.address?.toLowerCase() === address.toLowerCase()
+}
+
+async function performSignIn(walletClient: WalletClient, address: `0x${string}`, chainId: number): Promise<boolean> {
+  if (await hasSession(address)) return true
+
+  const nonceResponse = await fetch('/api/auth/nonce')
+  const { nonce } = await nonceResponse.json()
+
+  const message = createSiweMessage({
+    address,
+    chainId,
+    domain: window.location.host,
+    uri: window.location.origin,
+    nonce,
+    version: '1',
+    statement: 'Sign in to AutoPay AI to manage your automations.',
+    issuedAt: new Date(),
+  })
+
+  const signature = await walletClient.signMessage({ account: address, message })
+
+  const response = await fetch('/api/auth/verify', {
+    method: 'POST',
+    headers: { 'Content-Type': 'application/json' },
+    body: JSON.stringify({ message, signature }),
+  })
+  if (!response.ok) {
+    const data = await response.json().catch(() => ({}))
+    throw new Error(data.error || 'Sign-in failed')
+  }
+
+  window.dispatchEvent(new CustomEvent(SESSION_EVENT))
+  return true
+}
+
+/**
+ * Sign in with Ethereum (EIP-4361), reusing an in-flight sign-in for the same address
+ */
+export function signInWithEthereum(walletClient: WalletClient, address: `0x${string}`, chainId: number): Promise<boolean> {
+  const key = address.toLowerCase()
+  let pending = pendingSignIns.get(key)
+  if (!pending) {
+    pending = performSignIn(walletClient, address, chainId).finally(() => pendingSignIns.delete(key))
+    pendingSignIns.set(key, pending)
+  }
+  return pending
+}
+
+export async function signOut(): Promise<void> {
+  await fetch('/api/auth/session', { method: 'DELETE' })
+  window.dispatchEvent(new CustomEvent(SESSION_EVENT))
+}
+
+/**
+ * Session state for the connected wallet. Signs in once automatically after connect.
+ */
+export function useSiweSession() {
+  const { address, isConnected } = useAccount()
+  const { data: walletClient } = useWalletClient()
+  const chainId = useChainId()
+  const [isSignedIn, setIsSignedIn] = useState(false)
+  const [isSigningIn, setIsSigningIn] = useState(false)
+  const [error, setError] = useState<string | null>(null)
+
+  const signIn = useCallback(async (): Promise<boolean> => {
+    if (!walletClient || !address) return false
+    setIsSigningIn(true)
+    setError(null)
+    try {
+      const signedIn = await signInWithEthereum(walletClient, address, chainId)
+      setIsSignedIn(signedIn)
+      return signedIn
+    } catch (err) {
+      console.error('❌ Sign-in failed:', err)
+      setError(err instanceof Error ? err.message : 'Sign-in failed')
+      return false
+    } finally {
+      setIsSigningIn(false)
+    }
+  }, [walletClient, address, chainId])
+
+  // Keep every hook instance in sync with the shared session cookie
+  useEffect(() => {
+    if (!address) {
+      setIsSignedIn(false)
+      return
+    }
+
+    const refresh = () => {
+      hasSession(address).then(setIsSignedIn).catch(() => setIsSignedIn(false))
+    }
+    refresh()
+
+    window.addEventListener(SESSION_EVENT, refresh)
+    return () => window.removeEventListener(SESSION_EVENT, refresh)
+  }, [address])
+
+  // Sign in once per address after the wallet connects
+  useEffect(() => {
+    if (!isConnected || !address || !walletClient) return
+    const key = address.toLowerCase()
+    if (autoSignInAttempted.has(key)) return
+    autoSignInAttempted.add(key)
+
+    hasSession(address)
+      .then(signedIn => {
+        if (!signedIn) signIn()
+      })
+      .catch(() => setIsSignedIn(false))
+  }, [isConnected, address, walletClient, signIn])
+
+  return { isSignedIn, isSigningIn, error, signIn }
+}
@@ -0,0 +1,138 @@
+import { getAddress, http, parseAbi, type Account, type Hex, type PublicClient, type Transport } from 'viem'
+import {
+  createBundlerClient,
+  toSoladySmartAccount,
+  type BundlerClient,
+  type SmartAccount,
+} from 'viem/account-abstraction'
+
+/**
+ * ERC-4337 support for smart contract wallets. Smart accounts sign
+ * delegations with EIP-1271 (checked through isValidSignature on the account)
+ * and their delegations are granted to the platform's own smart account,
+ * which redeems them by sending UserOperations through a bundler.
+ */
+export class SmartAccountError extends Error {
+  constructor(message: string) {
+    super(message)
+    this.name = 'SmartAccountError'
+  }
+}
+
+// bytes4(keccak256("isValidSignature(bytes32,bytes)"))
+export const ERC1271_MAGIC_VALUE = '0x1626ba7e'
+
+const erc1271Abi = parseAbi(['function isValidSignature(bytes32 hash, bytes signature) view returns (bytes4)'])
+
+export interface UserOperationResult {
+  userOperationHash: Hex
+  transactionHash: Hex
+  blockNumber: number
+  success: boolean
+  reason?: string
+}
+
+/** Whether an address has contract code, i.e. is a deployed smart account */
+export async function isContractAccount(client: Pick<PublicClient, 'getCode'>, address: string): Promise<boolean> {
+  const code = await client.getCode({ address: getAddress(address) })
+  return !!code && code !== '0x'
+}
+
+/**
+ * Ask a smart account whether it accepts a signature over a hash (EIP-1271).
+ * Reverts and non-contract addresses count as invalid.
+ */
+export async function isValidErc1271Signature(
+  client: Pick<PublicClient, 'readContract'>,
+  { address, hash, signature }: { address: string; hash: Hex; signature: Hex }
+): Promise<boolean> {
+  try {
+    const result = await client.readContract({
+      address: getAddress(address),
+      abi: erc1271Abi,
+      functionName: 'isValidSignature',
+      args: [hash, signature],
+    })
+    return result.toLowerCase() === ERC1271_MAGIC_VALUE
+  } catch {
+    return false
+  }
+}
+
+/** Platform smart account that smart-account users delegate to (NEXT_PUBLIC_EXECUTOR_SMART_ACCOUNT) */
+export function getExecutorSmartAccountAddress(): `0x${string}` | undefined {
+  const address = process.env.NEXT_PUBLIC_EXECUTOR_SMART_ACCOUNT
+  return address ? getAddress(address) : undefined
+}
+
+/**
+ * The executor's ERC-4337 account, owned by the executor key. It must already
+ * be deployed at NEXT_PUBLIC_EXECUTOR_SMART_ACCOUNT.
+ */
+export async function getExecutorSmartAccount(client: PublicClient, owner: Account): Promise<SmartAccount> {
+  const address = getExecutorSmartAccountAddress()
+  if (!address) {
+    throw new SmartAccountError('Executor smart account is not configured (NEXT_PUBLIC_EXECUTOR_SMART_ACCOUNT)')
+  }
+  return toSoladySmartAccount({ client, owner, address })
+}
+
+/** Bundler RPC for a chain: BUNDLER_URL_<chainId>, then BUNDLER_URL */
+export function getBundlerTransport(chainId: number): Transport {
+  const url = process.env[`BUNDLER_URL_${chainId}`] || process.env.BUNDLER_URL
+  if (!url) {
+    throw new SmartAccountError(`No bundler configured for chain ${chainId} (BUNDLER_URL_${chainId} or BUNDLER_URL)`)
+  }
+  return http(url)
+}
+
+export function getBundlerClient(client: PublicClient, chainId: number, transport?: Transport): BundlerClient {
+  return createBundlerClient({ client, transport: transport || getBundlerTransport(chainId) })
+}
+
+/**
+ * Send one call from a smart account as a UserOperation. Resolves with its
+ * hash once the bundler accepted it: from then on it may be included, so
+ * callers must not send it again (see getUserOperationResult).
+ */
+export async function sendUserOperationCall(
+  bundlerClient: BundlerClient,
+  account: SmartAccount,
+  call: { to: `0x${string}`; value?: bigint; data: Hex }
+): Promise<Hex> {
+  const userOperationHash = await bundlerClient.sendUserOperation({ account, calls: [call] })
+  console.log(`📨 UserOperation ${userOperationHash} sent from ${account.address}`)
+  return userOperationHash
+}
+
+/**
+ * Outcome of a sent UserOperation, waited for (up to viem's default timeout)
+ * or looked up once. Throws UserOperationReceiptNotFoundError (or a timeout)
+ * while it isn't included yet.
+ */
+export async function getUserOperationResult(
+  bundlerClient: BundlerClient,
+  userOperationHash: Hex,
+  wait: boolean = false
+): Promise<UserOperationResult> {
+  const receipt = wait
+    ? await bundlerClient.waitForUserOperationReceipt({ hash: userOperationHash })
+    : await bundlerClient.getUserOperationReceipt({ hash: userOperationHash })
+  return {
+    userOperationHash,
+    transactionHash: receipt.receipt.transactionHash,
+    blockNumber: Number(receipt.receipt.blockNumber),
+    success: receipt.success,
+    reason: receipt.reason,
+  }
+}
+
+/**
+ * Whether the bundler still knows a UserOperation (pending or included); RPC
+ * errors are rethrown. Read raw: bundlers report a pending operation's block
+ * as null, which viem's getUserOperation can't format.
+ */
+export async function isUserOperationKnown(bundlerClient: BundlerClient, userOperationHash: Hex): Promise<boolean> {
+  const found = await bundlerClient.request({ method: 'eth_getUserOperationByHash', params: [userOperationHash] })
+  return !!found
+}
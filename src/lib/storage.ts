@@ -0,0 +1,284 @@
+import fs from 'fs'
+import path from 'path'
+
+export type StorageKind = 'memory' | 'file'
+
+/**
+ * Minimal collection store used by automationStorage, eventStorage and friends.
+ * Records are read and written as whole collections so backends stay simple.
+ * Changes that depend on the current records go through `update`, which the
+ * backend applies atomically so concurrent writers don't lose each other's
+ * changes.
+ */
+export interface StorageBackend {
+  readonly kind: StorageKind
+  read<T>(collection: string): T[]
+  write<T>(collection: string, records: T[]): void
+  // Read-modify-write as one step; returns the records written
+  update<T>(collection: string, modify: (records: T[]) => T[]): T[]
+}
+
+export class StorageLockError extends Error {
+  constructor(message: string) {
+    super(message)
+    this.name = 'StorageLockError'
+  }
+}
+
+// Global variables that persist in server environment
+declare global {
+  var _storageCollections: Record<string, unknown[]> | undefined;
+  var _storageBackend: StorageBackend | undefined;
+}
+
+/**
+ * In-memory backend. Survives hot reloads through `global`, but not restarts.
+ * Used for tests and as the client-side fallback.
+ */
+export class MemoryStorageBackend implements StorageBackend {
+  readonly kind = 'memory' as const
+
+  private get collections(): Record<string, unknown[]> {
+    if (!global._storageCollections) {
+      global._storageCollections = {}
+      console.log('🔄 Initialized in-memory storage')
+    }
+    return global._storageCollections
+  }
+
+  read<T>(collection: string): T[] {
+    if (!this.collections[collection]) {
+      this.collections[collection] = []
+    }
+    return this.collections[collection] as T[]
+  }
+
+  write<T>(collection: string, records: T[]): void {
+    this.collections[collection] = records
+  }
+
+  // Synchronous, so nothing else in the process can interleave
+  update<T>(collection: string, modify: (records: T[]) => T[]): T[] {
+    const records = modify([...this.read<T>(collection)])
+    this.write(collection, records)
+    return records
+  }
+}
+
+// ISO-8601 timestamps written by JSON.stringify(new Date())
+const ISO_DATE_PATTERN = /^\d{4}-\d{2}-\d{2}T\d{2}:\d{2}:\d{2}(\.\d+)?Z$/
+
+const isErrnoException = (error: unknown): error is NodeJS.ErrnoException =>
+  error instanceof Error && 'code' in error
+
+const reviveDates = (_key: string, value: unknown) =>
+  typeof value === 'string' && ISO_DATE_PATTERN.test(value) ? new Date(value) : value
+
+// How long update() retries another process's lock, and when a lock left
+// behind by a crashed process is considered stale. A lock is only held for one
+// read-modify-write of a collection, so contention clears within milliseconds;
+// the retry loop doesn't sleep, it just gives up quickly instead of stalling
+// the event loop
+const LOCK_TIMEOUT_MS = 250
+const LOCK_STALE_MS = 30_000
+
+/**
+ * File-backed backend. Each collection is a JSON file in `directory`.
+ * Reads are cached and reloaded when the file changes on disk, so a separate
+ * worker process and the Next.js server can share the same directory.
+ * update() holds a `<collection>.json.lock` file (created exclusively) while
+ * it re-reads, modifies and rewrites the collection, so writers in different
+ * processes are serialized. Keep `modify` callbacks synchronous and cheap:
+ * nothing may wait on I/O or the network while the lock is held.
+ * The directory must be on a local, persistent disk.
+ */
+export class FileStorageBackend implements StorageBackend {
+  readonly kind = 'file' as const
+  private cache = new Map<string, { mtimeMs: number; records: unknown[] }>()
+  // Collections this process holds the lock for, with nesting depth
+  private held = new Map<string, number>()
+
+  constructor(private readonly directory: string) {
+    fs.mkdirSync(directory, { recursive: true })
+    console.log(`🗄️ File storage initialized at ${directory}`)
+  }
+
+  private filePath(collection: string): string {
+    return path.join(this.directory, `${collection}.json`)
+  }
+
+  read<T>(collection: string): T[] {
+    const file = this.filePath(collection)
+    if (this.held.has(collection)) {
+      // Inside update(): don't trust an mtime that may not have ticked
+      this.cache.delete(collection)
+    }
+
+    let mtimeMs = 0
+    try {
+      mtimeMs = fs.statSync(file).mtimeMs
+    } catch {
+      // Collection has not been written yet
+    }
+
+    const cached = this.cache.get(collection)
+    if (cached && cached.mtimeMs === mtimeMs) {
+      return cached.records as T[]
+    }
+
+    let records: unknown[] = []
+    if (mtimeMs) {
+      try {
+        records = JSON.parse(fs.readFileSync(file, 'utf8'), reviveDates)
+      } catch (error) {
+        console.error(`❌ Failed to read ${file}, starting with an empty collection:`, error)
+      }
+    }
+
+    this.cache.set(collection, { mtimeMs, records })
+    return records as T[]
+  }
+
+  write<T>(collection: string, records: T[]): void {
+    const file = this.filePath(collection)
+    const tmpFile = `${file}.${process.pid}.tmp`
+
+    this.lock(collection)
+    try {
+      // Write to a temp file and rename so readers never see a partial file
+      fs.writeFileSync(tmpFile, JSON.stringify(records, null, 2))
+      fs.renameSync(tmpFile, file)
+      this.cache.set(collection, { mtimeMs: fs.statSync(file).mtimeMs, records })
+    } finally {
+      this.unlock(collection)
+    }
+  }
+
+  update<T>(collection: string, modify: (records: T[]) => T[]): T[] {
+    this.lock(collection)
+    try {
+      const records = modify([...this.read<T>(collection)])
+      this.write(collection, records)
+      return records
+    } finally {
+      this.unlock(collection)
+    }
+  }
+
+  private lock(collection: string): void {
+    const depth = this.held.get(collection)
+    if (depth) {
+      this.held.set(collection, depth + 1)
+      return
+    }
+
+    const lockFile = `${this.filePath(collection)}.lock`
+    const deadline = Date.now() + LOCK_TIMEOUT_MS
+    for (;;) {
+      try {
+        fs.closeSync(fs.openSync(lockFile, 'wx'))
+        this.held.set(collection, 1)
+        return
+      } catch (error: unknown) {
+        if (!isErrnoException(error) || error.code !== 'EEXIST') throw error
+      }
+
+      try {
+        if (Date.now() - fs.statSync(lockFile).mtimeMs > LOCK_STALE_MS) {
+          console.warn(`⚠️ Removing stale storage lock ${lockFile}`)
+          fs.unlinkSync(lockFile)
+          continue
+        }
+      } catch {
+        // Released between our open and stat; try again
+        continue
+      }
+
+      if (Date.now() > deadline) {
+        throw new StorageLockError(`Timed out waiting for storage lock ${lockFile}`)
+      }
+    }
+  }
+
+  private unlock(collection: string): void {
+    const depth = this.held.get(collection) ?? 0
+    if (depth > 1) {
+      this.held.set(collection, depth - 1)
+      return
+    }
+    this.held.delete(collection)
+    try {
+      fs.unlinkSync(`${this.filePath(collection)}.lock`)
+    } catch (error) {
+      console.error(`❌ Failed to release storage lock for ${collection}:`, error)
+    }
+  }
+}
+
+// Serverless functions (Netlify, Vercel, AWS Lambda) get a read-only or
+// per-invocation filesystem, so a file store there silently loses data
+const isServerless = () =>
+  !!(process.env.NETLIFY || process.env.VERCEL || process.env.AWS_LAMBDA_FUNCTION_NAME)
+
+/**
+ * Resolve the storage backend from configuration:
+ * - AUTOPAY_STORAGE: 'file' (default) or 'memory' (default under NODE_ENV=test)
+ * - AUTOPAY_STORAGE_PATH: directory for the file backend (default ./.data)
+ *
+ * On serverless hosts the default directory is neither writable nor kept
+ * between invocations. Without either setting the app falls back to memory
+ * there (with a warning) so it still serves requests; an explicit
+ * AUTOPAY_STORAGE=file refuses to start unless AUTOPAY_STORAGE_PATH points at a
+ * persistent mount.
+ */
+export function getStorageBackend(): StorageBackend {
+  if (global._storageBackend) {
+    return global._storageBackend
+  }
+
+  if (typeof window !== 'undefined') {
+    // Client environment - nothing to persist to
+    return new MemoryStorageBackend()
+  }
+
+  const serverlessWithoutDisk = isServerless() && !process.env.AUTOPAY_STORAGE_PATH
+  const defaultKind: StorageKind =
+    process.env.NODE_ENV === 'test' || serverlessWithoutDisk ? 'memory' : 'file'
+  const kind = (process.env.AUTOPAY_STORAGE || defaultKind) as StorageKind
+
+  if (!process.env.AUTOPAY_STORAGE && serverlessWithoutDisk) {
+    console.warn(
+      '⚠️ Serverless host without AUTOPAY_STORAGE_PATH: using in-memory storage. ' +
+      'Automations and history are lost between invocations; set AUTOPAY_STORAGE_PATH ' +
+      'to a persistent mount or run the app and executor on a long-lived server (see README)'
+    )
+  }
+
+  switch (kind) {
+    case 'memory':
+      global._storageBackend = new MemoryStorageBackend()
+      break
+    case 'file':
+      if (serverlessWithoutDisk) {
+        throw new Error(
+          'File storage needs a persistent disk: set AUTOPAY_STORAGE_PATH to a persistent mount ' +
+          'or run the app and executor on a long-lived server (see README)'
+        )
+      }
+      global._storageBackend = new FileStorageBackend(
+        process.env.AUTOPAY_STORAGE_PATH || path.join(process.cwd(), '.data')
+      )
+      break
+    default:
+      throw new Error(`Unknown AUTOPAY_STORAGE backend: ${kind}`)
+  }
+
+  return global._storageBackend
+}
+
+/**
+ * Override the backend, e.g. to use a fresh MemoryStorageBackend in tests.
+ */
+export function setStorageBackend(backend: StorageBackend): void {
+  global._storageBackend = backend
+}
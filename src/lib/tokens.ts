@@ -0,0 +1,131 @@
+import { encodeFunctionData, erc20Abi, getAddress, type Hex } from 'viem'
+import { getNativeCurrencySymbol } from './chains'
+
+/**
+ * ERC-20 tokens that automations can pay with, per chain. Amounts are always
+ * scaled with the token's own decimals (USDC/USDT use 6, not 18).
+ */
+export interface TokenInfo {
+  symbol: string
+  address: `0x${string}`
+  decimals: number
+}
+
+export class TokenError extends Error {
+  constructor(message: string) {
+    super(message)
+    this.name = 'TokenError'
+  }
+}
+
+// transfer(address,uint256)
+export const ERC20_TRANSFER_SELECTOR = '0xa9059cbb' as Hex
+
+const NATIVE_DECIMALS = 18
+
+// Currencies treated as native when the chain is not known yet
+const DEFAULT_NATIVE_SYMBOLS = ['ETH', 'MON']
+
+const BUILT_IN_TOKENS: Record<number, TokenInfo[]> = {
+  1: [
+    { symbol: 'USDC', address: '0xA0b86991c6218b36c1d19D4a2e9Eb0cE3606eB48', decimals: 6 },
+    { symbol: 'USDT', address: '0xdAC17F958D2ee523a2206206994597C13D831ec7', decimals: 6 },
+  ],
+  10: [
+    { symbol: 'USDC', address: '0x0b2C639c533813f4Aa9D7837CAf62653d097Ff85', decimals: 6 },
+    { symbol: 'USDT', address: '0x94b008aA00579c1307B0EF2c499aD98a8ce58e58', decimals: 6 },
+  ],
+  137: [
+    { symbol: 'USDC', address: '0x3c499c542cEF5E3811e1192ce70d8cC03d5c3359', decimals: 6 },
+    { symbol: 'USDT', address: '0xc2132D05D31c914a87C6611C10748AEb04B58e8F', decimals: 6 },
+  ],
+  8453: [
+    { symbol: 'USDC', address: '0x833589fCD6eDb6E08f4c7C32D4f71b54bdA02913', decimals: 6 },
+  ],
+  42161: [
+    { symbol: 'USDC', address: '0xaf88d065e77c8cC2239aAe3D0A2bD3d7eE9dE24e', decimals: 6 },
+    { symbol: 'USDT', address: '0xFd086bC7CD5C481DCC9C85ebE478A1C0b69FCbb9', decimals: 6 },
+  ],
+  11155111: [
+    { symbol: 'USDC', address: '0x1c7D4B196Cb0C7B01d743Fbc6116a902379C7238', decimals: 6 },
+  ],
+}
+
+/**
+ * Extra tokens from NEXT_PUBLIC_TOKEN_REGISTRY, e.g.
+ * {"11155111":[{"symbol":"USDT","address":"0x...","decimals":6}]}
+ */
+function loadConfiguredTokens(): Record<number, TokenInfo[]> {
+  const raw = process.env.NEXT_PUBLIC_TOKEN_REGISTRY
+  if (!raw) return {}
+  try {
+    const parsed = JSON.parse(raw) as Record<string, TokenInfo[]>
+    return Object.fromEntries(Object.entries(parsed).map(([chainId, tokens]) => [
+      Number(chainId),
+      tokens.map(token => ({ symbol: token.symbol.toUpperCase(), address: getAddress(token.address), decimals: Number(token.decimals) })),
+    ]))
+  } catch (error) {
+    console.error('❌ Ignoring invalid NEXT_PUBLIC_TOKEN_REGISTRY:', error)
+    return {}
+  }
+}
+
+const configuredTokens = loadConfiguredTokens()
+
+/** Tokens known on a chain, configured entries first */
+export function getChainTokens(chainId: number): TokenInfo[] {
+  return [...(configuredTokens[chainId] || []), ...(BUILT_IN_TOKENS[chainId] || [])]
+}
+
+export function getToken(chainId: number, symbol: string): TokenInfo | undefined {
+  const upper = symbol.toUpperCase()
+  return getChainTokens(chainId).find(token => token.symbol === upper)
+}
+
+export function getNativeSymbol(chainId: number): string {
+  return getNativeCurrencySymbol(chainId) || 'ETH'
+}
+
+/**
+ * Whether a currency is paid as the chain's native token. Without a chain,
+ * ETH and MON are assumed native.
+ */
+export function isNativeCurrency(symbol: string, chainId?: number): boolean {
+  const upper = symbol.toUpperCase()
+  return chainId === undefined ? DEFAULT_NATIVE_SYMBOLS.includes(upper) : getNativeSymbol(chainId) === upper
+}
+
+/**
+ * The token an amount of `symbol` is paid in on a chain: null for the native
+ * currency. Throws TokenError if the chain has no such token.
+ */
+export function resolvePaymentToken(symbol: string, chainId: number): TokenInfo | null {
+  if (isNativeCurrency(symbol, chainId)) return null
+  const token = getToken(chainId, symbol)
+  if (!token) {
+    throw new TokenError(`${symbol.toUpperCase()} is not available on chain ${chainId}`)
+  }
+  return token
+}
+
+/**
+ * Scale a decimal string to base units with bigint math ("10.5", 6 => 10500000n).
+ * Rejects more fractional digits than the token supports instead of rounding.
+ */
+export function parseTokenAmount(amount: string, decimals: number = NATIVE_DECIMALS): bigint {
+  const match = amount.trim().match(/^(\d+)(?:\.(\d+))?$/)
+  if (!match) {
+    throw new TokenError(`Invalid amount "${amount}"`)
+  }
+  const [, whole, fraction = ''] = match
+  if (fraction.length > decimals) {
+    throw new TokenError(`Amount ${amount} has more than ${decimals} decimals`)
+  }
+  const scale = BigInt(10) ** BigInt(decimals)
+  return BigInt(whole) * scale + BigInt(fraction.padEnd(decimals, '0') || '0')
+}
+
+/** Calldata for ERC-20 transfer(to, amount) */
+export function encodeErc20Transfer(to: `0x${string}`, amount: bigint): Hex {
+  return encodeFunctionData({ abi: erc20Abi, functionName: 'transfer', args: [to, amount] })
+}
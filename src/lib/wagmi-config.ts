@@ -1,40 +1,23 @@
+import type { Chain } from 'viem'
 import { createConfig, http } from 'wagmi'
-import { mainnet, sepolia } from 'wagmi/chains'
 import { metaMask } from 'wagmi/connectors'
+import { WALLET_CHAINS, monadTestnet } from './chains'
 
-// Custom Monad Testnet configuration
-export const monadTestnet = {
-  id: 10143,
-  name: 'Monad Testnet',
-  network: 'monad-testnet',
-  nativeCurrency: {
-    decimals: 18,
-    name: 'Monad',
-    symbol: 'MON',
-  },
-  rpcUrls: {
-    default: { http: ['https://testnet-rpc.monad.xyz'] },
-    public: { http: ['https://testnet-rpc.monad.xyz'] },
-  },
-  blockExplorers: {
-    default: { name: 'Monad Explorer', url: 'https://testnet.monadexplorer.com' },
-  },
-} as const
+export { monadTestnet }
+
+// Wallet chains come from the chain registry; Monad Testnet stays the default
+const chains = [monadTestnet, ...WALLET_CHAINS.filter(chain => chain.id !== monadTestnet.id)] as [Chain, ...Chain[]]
 
 export const config = createConfig({
-  chains: [monadTestnet, sepolia, mainnet],
+  chains,
   connectors: [
     metaMask(),
   ],
-  transports: {
-    [monadTestnet.id]: http(),
-    [sepolia.id]: http(),
-    [mainnet.id]: http(),
-  },
+  transports: Object.fromEntries(chains.map(chain => [chain.id, http()])),
 })
 
 declare module 'wagmi' {
   interface Register {
     config: typeof config
   }
-}
\ No newline at end of file
+}
@@ -1,6 +1,7 @@
 import { createWalletClient, custom, type WalletClient } from 'viem';
-import { mainnet, sepolia, polygon, arbitrum, optimism, base } from 'viem/chains';
+import { mainnet } from 'viem/chains';
 import EthereumProvider from '@walletconnect/ethereum-provider';
+import { getChainConfig } from './chains';
 
 /**
  * Creates a WalletConnect signer that works with viem + delegation-utils.
@@ -48,22 +49,10 @@ export async function getWalletConnectSigner(chainId: number): Promise<WalletCli
 }
 
 /**
- * Get chain configuration by chain ID
+ * Get chain configuration by chain ID, from the chain registry
  */
 function getChainById(chainId: number) {
-  switch (chainId) {
-    case 1: return mainnet;
-    case 11155111: return sepolia;
-    case 137: return polygon;
-    case 80001: return polygon; // fallback for Mumbai
-    case 42161: return arbitrum;
-    case 421613: return arbitrum; // fallback for Arbitrum Goerli
-    case 10: return optimism;
-    case 420: return optimism; // fallback for Optimism Goerli
-    case 8453: return base;
-    case 84531: return base; // fallback for Base Goerli
-    default: return mainnet;
-  }
+  return getChainConfig(chainId)?.chain || mainnet;
 }
 
 /**
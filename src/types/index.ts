@@ -1,22 +1,20 @@
-export interface Automation {
-    id: string
-    type: 'payment' | 'claim' | 'stake' | 'reminder'
-    description: string
-    params: any
-    status: 'active' | 'pending' | 'completed' | 'failed'
-    nextExecution?: string
-    createdAt: Date
-}
-  
-export interface ParsedCommand {
-    action: string
-    params: {
-      amount?: string
-      currency?: string
-      recipient?: string
-      frequency?: string
-      dayOfWeek?: string
-      time?: string
+import type { AutomationParamsByType, AutomationType } from '../lib/automation-schema'
+import type { Schedule } from '../lib/schedule'
+
+export type { Automation, AutomationEvent } from '../lib/automation'
+export type {
+    AdapterId,
+    AutomationType,
+    AutomationParams,
+    AutomationParamsByType,
+    FieldError,
+} from '../lib/automation-schema'
+
+// A complete automation understood from a chat message, before it is stored
+export type ParsedCommand = {
+    [T in AutomationType]: {
+      type: T
+      params: AutomationParamsByType[T]
+      schedule: Schedule
     }
-    confidence: number
-}
\ No newline at end of file
+}[AutomationType]